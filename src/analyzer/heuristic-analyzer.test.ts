@@ -0,0 +1,152 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { createContentElement } from "../core/content-element";
+import type { DistilledPage } from "../scanner/distiller";
+import type { ExtractedString } from "../scanner/source-extractor";
+import {
+  analyzePageHeuristics,
+  analyzeSourceHeuristics,
+  applyCopyHeuristics,
+  formatHeuristicFindings,
+} from "./heuristic-analyzer";
+
+const PAGE: DistilledPage = {
+  sections: [
+    {
+      label: "nav",
+      items: [{ kind: "button", text: "Pricing" }],
+    },
+    {
+      label: 'main "Hero"',
+      items: [
+        { kind: "heading", level: 2, text: "Innovative solutions for modern teams" },
+        { kind: "text", text: "Our platform is trusted by 5,000 teams." },
+        { kind: "button", text: "Learn more", id: "hero-cta" },
+        { kind: "button", text: "Pricing plans" },
+        { kind: "link", text: "Start your trial", href: "/signup" },
+        { kind: "image", text: "", src: "/hero.png", missingAlt: true },
+      ],
+    },
+    {
+      label: "form#signup",
+      form: true,
+      items: ["First name", "Last name", "Email", "Company", "Role", "Phone"].map((text) => ({
+        kind: "field" as const,
+        text,
+        field: "input[text]",
+      })),
+    },
+  ],
+};
+
+describe("analyzePageHeuristics", () => {
+  const findings = analyzePageHeuristics(PAGE, "Acme");
+  const rules = (content: string) =>
+    findings.filter((finding) => finding.content === content).map((finding) => finding.rule);
+
+  it("reports a missing H1 with the first heading", () => {
+    const [missing] = findings;
+    assert.equal(missing.rule, "h1-missing");
+    assert.equal(missing.content, "Innovative solutions for modern teams");
+  });
+
+  it("flags generic and verbless CTAs, but not buttons in the navigation", () => {
+    assert.deepEqual(rules("Learn more"), ["generic-cta"]);
+    assert.equal(findings.find((finding) => finding.rule === "generic-cta")?.selector, "#hero-cta");
+    assert.deepEqual(rules("Pricing plans"), ["cta-no-verb"]);
+    assert.deepEqual(rules("Pricing"), []);
+    assert.deepEqual(rules("Start your trial"), []);
+  });
+
+  it("flags vague wording and passive voice in short copy", () => {
+    assert.deepEqual(rules("Innovative solutions for modern teams"), ["h1-missing", "vague-words"]);
+    assert.deepEqual(rules("Our platform is trusted by 5,000 teams."), ["passive-voice"]);
+  });
+
+  it("does not take adjectives after a form of be for passive voice", () => {
+    const page: DistilledPage = {
+      sections: [
+        {
+          label: "main",
+          items: [
+            { kind: "heading", level: 1, text: "Payroll for small teams" },
+            { kind: "text", text: "We are excited to launch in Berlin." },
+            { kind: "text", text: "Acme is based in Austin and is fully supported by investors." },
+            { kind: "text", text: "Teams that are interested can book a demo." },
+          ],
+        },
+      ],
+    };
+
+    assert.deepEqual(
+      analyzePageHeuristics(page, "Acme").map((finding) => [finding.content, finding.rule]),
+      [["Acme is based in Austin and is fully supported by investors.", "passive-voice"]],
+    );
+  });
+
+  it("flags images without alt text and long forms", () => {
+    const image = findings.find((finding) => finding.rule === "missing-alt");
+    assert.equal(image?.selector, 'img[src="/hero.png"]');
+    assert.equal(findings.find((finding) => finding.rule === "form-too-many-fields")?.location, "form#signup");
+  });
+});
+
+describe("applyCopyHeuristics", () => {
+  it("fills in the first rule an element breaks and keeps existing issues", () => {
+    const [generic, reviewed, fine] = applyCopyHeuristics([
+      createContentElement({ type: "cta", content: "Submit", context: "" }),
+      createContentElement({ type: "cta", content: "Click here", context: "", issue: "Reviewed" }),
+      createContentElement({ type: "cta", content: "Get the guide", context: "" }),
+    ]);
+
+    assert.equal(generic.rule, "generic-cta");
+    assert.equal(generic.optimizationPotential, "high");
+    assert.equal(reviewed.issue, "Reviewed");
+    assert.equal(reviewed.rule, undefined);
+    assert.equal(fine.issue, undefined);
+  });
+});
+
+describe("analyzeSourceHeuristics", () => {
+  const string = (text: string, fields: Partial<ExtractedString>): ExtractedString => ({
+    text,
+    file: "src/Hero.tsx",
+    kind: "text",
+    line: 1,
+    column: 1,
+    start: 0,
+    end: text.length,
+    ...fields,
+  });
+
+  it("judges strings by their element, or by the last part of a translation key", () => {
+    const findings = analyzeSourceHeuristics([
+      string("Submit", { element: "Button" }),
+      string("Learn more", { element: "a" }),
+      string("Welcome", { element: "h1" }),
+      string("Read more", { kind: "translation", key: "home.hero.cta" }),
+      string("Pricing", { kind: "translation", key: "nav.pricingLink" }),
+      string("Click here", { kind: "prop", element: "button", prop: "aria-label" }),
+    ]);
+
+    assert.deepEqual(
+      findings.map(({ string, finding }) => [string.text, finding.rule]),
+      [
+        ["Submit", "generic-cta"],
+        ["Learn more", "generic-cta"],
+        ["Welcome", "headline-length"],
+        ["Read more", "generic-cta"],
+      ],
+    );
+  });
+});
+
+describe("formatHeuristicFindings", () => {
+  it("describes each finding on one line", () => {
+    const [missing] = analyzePageHeuristics(PAGE, "Acme");
+    assert.equal(
+      formatHeuristicFindings([missing]),
+      `- [h1-missing] headline "Innovative solutions for modern teams" (main "Hero"): ${missing.issue}`,
+    );
+  });
+});
@@ -0,0 +1,413 @@
+/**
+ * Rule-based copy analysis
+ *
+ * Flags common conversion problems without a model call: generic CTAs, CTAs that do not
+ * start with a verb, missing or repeated H1s, overlong headlines, vague buzzwords, passive
+ * voice, long forms and images without alt text. Findings use the same shape as the
+ * advanced scanner's, so they can be reported on their own, used to decide which pages
+ * are worth a model call, or given to the model as context.
+ */
+
+import type { ContentElement } from "../core/content-element";
+import type { OptimizableElement } from "../scanner/advanced-scanner";
+import type { DistilledItem, DistilledPage } from "../scanner/distiller";
+import type { ExtractedString } from "../scanner/source-extractor";
+
+/**
+ * How the advanced and codebase scanners use the rules:
+ * - "context": findings are given to the model and merged with its own (default)
+ * - "prefilter": only pages (or files) with findings are sent to the model
+ * - "only": the rules run alone, with no model calls
+ * - "off": the rules do not run
+ */
+export type HeuristicsMode = "context" | "prefilter" | "only" | "off";
+
+/**
+ * CTA labels that say nothing about what happens on click
+ */
+export const GENERIC_CTAS = [
+  "submit",
+  "send",
+  "click here",
+  "here",
+  "learn more",
+  "read more",
+  "more",
+  "more info",
+  "find out more",
+  "details",
+  "go",
+  "ok",
+  "continue",
+  "enter",
+];
+
+/**
+ * Words CTAs commonly start with
+ */
+const CTA_VERBS = new Set([
+  "add", "apply", "ask", "book", "browse", "build", "buy", "calculate", "call", "check",
+  "choose", "claim", "compare", "configure", "connect", "contact", "continue", "create",
+  "customize", "discover", "donate", "download", "enroll", "explore", "find", "follow",
+  "get", "give", "go", "grab", "install", "invite", "join", "launch", "learn", "let's",
+  "listen", "log", "login", "make", "meet", "order", "pay", "play", "preorder", "read",
+  "redeem", "register", "request", "reserve", "save", "schedule", "see", "select", "send",
+  "share", "shop", "show", "sign", "start", "submit", "subscribe", "switch", "take", "talk",
+  "try", "unlock", "upgrade", "upload", "view", "visit", "watch", "write",
+]);
+
+/**
+ * Buzzwords that make copy sound interchangeable
+ */
+export const VAGUE_WORDS = [
+  "solutions",
+  "innovative",
+  "world-class",
+  "best-in-class",
+  "cutting-edge",
+  "state-of-the-art",
+  "leading",
+  "next-generation",
+  "revolutionary",
+  "seamless",
+  "seamlessly",
+  "robust",
+  "synergy",
+  "empower",
+  "leverage",
+  "holistic",
+  "disruptive",
+  "game-changing",
+  "unparalleled",
+];
+
+/**
+ * Labels of buttons that operate the page rather than convert
+ */
+const UI_CONTROLS = /^(menu|close|open menu|toggle navigation|search|previous|prev|next|back|cancel|dismiss|×|✕|x)$/i;
+
+/**
+ * Past participles that make "is/are ..." passive; a list rather than any "-ed" word, since
+ * "excited", "based" or "interested" after "be" are adjectives
+ */
+const PASSIVE_PARTICIPLES = [
+  "backed", "built", "chosen", "created", "delivered", "designed", "developed", "done",
+  "driven", "given", "handled", "hosted", "known", "loved", "made", "managed", "offered",
+  "powered", "processed", "protected", "provided", "rated", "recommended", "reviewed",
+  "seen", "selected", "sent", "shown", "sold", "stored", "supported", "taken", "trusted",
+  "used", "written",
+];
+
+const PASSIVE_VOICE = new RegExp(
+  `\\b(am|is|are|was|were|be|been|being)\\s+(\\w+ly\\s+)?(${PASSIVE_PARTICIPLES.join("|")})\\b`,
+  "i",
+);
+
+const MAX_HEADLINE_LENGTH = 70;
+const MAX_FORM_FIELDS = 5;
+/** Longer text blocks are body copy, where passive voice and buzzwords matter less */
+const MAX_CHECKED_TEXT = 200;
+
+/**
+ * Runs every rule on a distilled page
+ *
+ * @param page The page's distilled content
+ * @param title Page title, reported when the page has no H1
+ * @returns Findings in page order, page-level findings first
+ */
+export function analyzePageHeuristics(
+  page: DistilledPage,
+  title: string,
+): OptimizableElement[] {
+  const findings: OptimizableElement[] = [];
+  const entries = page.sections.flatMap((section) =>
+    section.items.map((item) => ({ item, section: section.label })),
+  );
+
+  const h1s = entries.filter(({ item }) => item.kind === "heading" && item.level === 1);
+  if (h1s.length === 0) {
+    const firstHeading = entries.find(({ item }) => item.kind === "heading");
+    findings.push({
+      type: "headline",
+      selector: "h1",
+      content: firstHeading?.item.text || title,
+      location: firstHeading?.section || "page",
+      importance: "high",
+      optimizationPotential: "high",
+      issue: "The page has no H1, so visitors and search engines get no main headline",
+      recommendation: "Add one H1 that states the page's main value proposition",
+      rule: "h1-missing",
+    });
+  }
+  for (const { item, section } of h1s.slice(1)) {
+    findings.push(
+      finding(item, section, "headline", "h1-multiple", {
+        issue: `The page has ${h1s.length} H1s; several competing main headlines dilute the message`,
+        recommendation: "Keep one H1 for the main message and demote the others to H2",
+      }),
+    );
+  }
+
+  for (const { item, section } of entries) {
+    if (item.kind === "image" && item.missingAlt) {
+      findings.push({
+        ...finding(item, section, "image", "missing-alt", {
+          issue: "Image has no alt text, so screen readers and search engines cannot describe it",
+          recommendation: 'Add alt text that describes the image, or alt="" if it is decorative',
+        }),
+        content: item.src || "",
+        importance: "low",
+      });
+      continue;
+    }
+
+    // Buttons in navigation and headers operate the page rather than convert
+    const inNavigation = /^(nav|header)\b/.test(section);
+    if (item.kind === "button" && inNavigation) {
+      continue;
+    }
+    findings.push(
+      ...copyFindings(item.kind, item.text, item.level).map((rule) => ({
+        ...finding(item, section, rule.type, rule.rule, rule),
+        ...(rule.importance && { importance: rule.importance }),
+      })),
+    );
+  }
+
+  for (const section of page.sections.filter((section) => section.form)) {
+    const fields = section.items.filter((item) => item.kind === "field");
+    if (fields.length > MAX_FORM_FIELDS) {
+      findings.push({
+        type: "form",
+        selector: section.label.split(/\s/)[0],
+        content: fields.map((field) => field.text).filter(Boolean).join(", "),
+        location: section.label,
+        importance: "high",
+        optimizationPotential: "high",
+        issue: `The form asks for ${fields.length} fields; every extra field costs completions`,
+        recommendation: "Ask only for what the next step needs, and collect the rest later",
+        rule: "form-too-many-fields",
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Runs the copy rules (generic and verbless CTAs, headline length, vague words, passive
+ * voice) on content found by any scanner, such as a codebase scan
+ *
+ * Elements that already have an issue keep it; the first rule an element breaks fills in
+ * its issue and recommendation.
+ */
+export function applyCopyHeuristics(elements: ContentElement[]): ContentElement[] {
+  return elements.map((element) => {
+    if (element.issue) {
+      return element;
+    }
+
+    const kind =
+      element.type === "cta"
+        ? "button"
+        : element.type === "headline" || element.type === "subheadline"
+          ? "heading"
+          : "text";
+    const [rule] = copyFindings(kind, element.content, element.type === "headline" ? 1 : 2);
+
+    return rule
+      ? {
+          ...element,
+          issue: rule.issue,
+          recommendation: rule.recommendation,
+          optimizationPotential: element.optimizationPotential || rule.optimizationPotential,
+          rule: rule.rule,
+        }
+      : element;
+  });
+}
+
+/**
+ * Runs the copy rules on strings found in source files, judging each by the element it is
+ * in (h1 to h6, a button or a link, by tag or component name) or, for translation values,
+ * by the last part of its key, such as "hero.cta"; prop values are not checked
+ *
+ * @returns Each string that breaks a rule, with the first rule it breaks
+ */
+export function analyzeSourceHeuristics(
+  strings: ExtractedString[],
+): Array<{ string: ExtractedString; finding: CopyRule }> {
+  return strings.flatMap((string) => {
+    if (string.kind === "prop") {
+      return [];
+    }
+    const tag = (string.element || string.key || "").split(/[.:]/).pop()!.toLowerCase();
+    const level = tag.match(/^h([1-6])$/)?.[1];
+    const kind = level
+      ? "heading"
+      : /(button|cta)$/.test(tag)
+        ? "button"
+        : tag === "a" || /link$/.test(tag)
+          ? "link"
+          : "text";
+    const [finding] = copyFindings(kind, string.text, level ? Number(level) : undefined);
+    return finding ? [{ string, finding }] : [];
+  });
+}
+
+/**
+ * Describes rule findings for the analysis prompt, one line each
+ */
+export function formatHeuristicFindings(findings: OptimizableElement[]): string {
+  return findings
+    .map(
+      (item) =>
+        `- [${item.rule}] ${item.type} ${JSON.stringify(item.content)} (${item.location}): ${item.issue}`,
+    )
+    .join("\n");
+}
+
+export interface CopyRule {
+  rule: string;
+  type: string;
+  importance?: "high" | "medium" | "low";
+  optimizationPotential: "high" | "medium" | "low";
+  issue: string;
+  recommendation: string;
+}
+
+/**
+ * The copy rules a single piece of text breaks
+ */
+function copyFindings(
+  kind: DistilledItem["kind"],
+  text: string,
+  level?: number,
+): CopyRule[] {
+  const rules: CopyRule[] = [];
+  const label = text.replace(/[^\p{L}\p{N}\s'-]/gu, "").replace(/\s+/g, " ").trim().toLowerCase();
+  if (!label) {
+    return rules;
+  }
+
+  if (kind === "button" || kind === "link") {
+    if (GENERIC_CTAS.includes(label)) {
+      rules.push({
+        rule: "generic-cta",
+        type: "cta",
+        optimizationPotential: "high",
+        issue: `"${text}" does not say what the visitor gets by clicking`,
+        recommendation: 'Name the outcome, e.g. "Start my free trial" or "Get the pricing guide"',
+      });
+    } else if (kind === "button" && !UI_CONTROLS.test(label) && !CTA_VERBS.has(label.split(" ")[0])) {
+      rules.push({
+        rule: "cta-no-verb",
+        type: "cta",
+        importance: "medium",
+        optimizationPotential: "medium",
+        issue: `"${text}" does not start with an action verb`,
+        recommendation: "Start the label with the action the visitor takes, e.g. \"Get\", \"Start\" or \"Book\"",
+      });
+    }
+    return rules;
+  }
+
+  if (kind === "heading" && (level === 1 || level === 2)) {
+    const words = label.split(" ").length;
+    if (text.length > MAX_HEADLINE_LENGTH) {
+      rules.push({
+        rule: "headline-length",
+        type: "headline",
+        optimizationPotential: "medium",
+        issue: `Headline is ${text.length} characters; long headlines are skimmed, not read`,
+        recommendation: `Cut it to under ${MAX_HEADLINE_LENGTH} characters and move detail to the subheadline`,
+      });
+    } else if (level === 1 && words === 1) {
+      rules.push({
+        rule: "headline-length",
+        type: "headline",
+        optimizationPotential: "high",
+        issue: `"${text}" is a single word and does not state a value proposition`,
+        recommendation: "Say what the visitor gets and for whom",
+      });
+    }
+  }
+
+  if (kind !== "heading" && kind !== "text") {
+    return rules;
+  }
+  if (text.length > MAX_CHECKED_TEXT) {
+    return rules;
+  }
+
+  const vague = VAGUE_WORDS.filter((word) => new RegExp(`\\b${word}\\b`, "i").test(text));
+  if (vague.length > 0) {
+    rules.push({
+      rule: "vague-words",
+      type: kind === "heading" ? "headline" : "description",
+      optimizationPotential: "medium",
+      issue: `Uses vague wording (${vague.join(", ")}) that any competitor could claim`,
+      recommendation: "Replace it with a concrete claim: a number, an outcome or a named feature",
+    });
+  }
+
+  const passive = text.match(PASSIVE_VOICE);
+  if (passive) {
+    rules.push({
+      rule: "passive-voice",
+      type: kind === "heading" ? "headline" : "description",
+      importance: "low",
+      optimizationPotential: "low",
+      issue: `Passive voice ("${passive[0]}") hides who does what`,
+      recommendation: "Rewrite it in the active voice, with the visitor or the product as the subject",
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * A finding about a distilled item, with a selector built from what the outline knows;
+ * the scanner checks it against the live page and repairs it by the item's text
+ */
+function finding(
+  item: DistilledItem,
+  section: string,
+  type: string,
+  rule: string,
+  details: { issue: string; recommendation: string; optimizationPotential?: "high" | "medium" | "low" },
+): OptimizableElement {
+  const tag =
+    item.kind === "heading"
+      ? `h${item.level}`
+      : item.kind === "link"
+        ? "a"
+        : item.kind === "image"
+          ? "img"
+          : item.kind === "field"
+            ? item.field?.split("[")[0] || "input"
+            : item.kind === "button"
+              ? "button"
+              : "p";
+  const selector = item.id
+    ? /^[A-Za-z][\w-]*$/.test(item.id)
+      ? `#${item.id}`
+      : `[id=${JSON.stringify(item.id)}]`
+    : item.kind === "link" && item.href
+      ? `a[href=${JSON.stringify(item.href)}]`
+      : item.kind === "image" && item.src
+        ? `img[src=${JSON.stringify(item.src)}]`
+        : tag;
+
+  return {
+    type,
+    selector,
+    content: item.text,
+    location: section,
+    importance: item.kind === "heading" && item.level === 1 ? "high" : "medium",
+    optimizationPotential: details.optimizationPotential || "medium",
+    issue: details.issue,
+    recommendation: details.recommendation,
+    rule,
+  };
+}
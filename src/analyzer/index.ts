@@ -1,20 +1,59 @@
-import fs from "fs";
 import path from "path";
-import { glob } from "glob";
 import { Agent } from "@mastra/core/agent";
-import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
-import { openai } from "@ai-sdk/openai";
-import { config } from "../config";
+import { getModel } from "../providers";
+import {
+  generateStructured,
+  generateStructuredWithAgent,
+  StructuredOutputError,
+} from "../utils/structured-output";
 import { chromium, Browser, Page } from "playwright";
-
-interface ContentLocation {
+import {
+  CrawlPolicyOptions,
+  createCrawlFrontier,
+} from "../scanner/crawl-frontier";
+import {
+  AuthOptions,
+  authRequestHeaders,
+  createAuthenticatedContext,
+} from "../scanner/auth";
+import { handleOverlays, OverlayOptions } from "../scanner/overlays";
+import { installSelectorEngine } from "../scanner/selectors";
+import {
+  buildSourceIndex,
+  IndexedString,
+  SourceMatch,
+} from "../scanner/source-index";
+
+export interface ContentLocation {
   file: string;
   type: "component" | "translation" | "api" | "database" | "static";
   framework?: string;
   content: string;
   context: string;
   lineNumber: number;
+  column?: number;
+  /** Key of the translation value, for text that comes from a locale file */
+  translationKey?: string;
+  /** Page and element the text was found on */
+  url?: string;
+  selector?: string;
+  /** How closely the source text matches the page text, from 0 to 1 */
+  confidence?: number;
+  match?: SourceMatch["match"];
+  /** Other places the text could come from, most likely first */
+  candidates?: Array<{
+    file: string;
+    lineNumber: number;
+    column?: number;
+    translationKey?: string;
+    confidence: number;
+  }>;
+}
+
+export interface SourceLocationOptions {
+  /** Root of the codebase the site is built from (default: the working directory) */
+  sourceDir?: string;
 }
 
 interface WebsiteContent {
@@ -35,18 +74,36 @@ interface ContentAnalysis {
     description: string;
     priority: "high" | "medium" | "low";
   }[];
+  analysisError?: string; // Set when the pattern analysis could not be parsed
 }
 
-const ContentLocationSchema = z.object({
+export const ContentLocationSchema = z.object({
   file: z.string(),
   type: z.enum(["component", "translation", "api", "database", "static"]),
   framework: z.string().optional(),
   content: z.string(),
   context: z.string(),
   lineNumber: z.number(),
+  column: z.number().optional(),
+  translationKey: z.string().optional(),
+  url: z.string().optional(),
+  selector: z.string().optional(),
+  confidence: z.number().optional(),
+  match: z.enum(["exact", "pattern", "contained", "fuzzy"]).optional(),
+  candidates: z
+    .array(
+      z.object({
+        file: z.string(),
+        lineNumber: z.number(),
+        column: z.number().optional(),
+        translationKey: z.string().optional(),
+        confidence: z.number(),
+      }),
+    )
+    .optional(),
 });
 
-const ContentAnalysisSchema = z.object({
+export const ContentAnalysisSchema = z.object({
   locations: z.array(ContentLocationSchema),
   patterns: z.array(
     z.object({
@@ -64,16 +121,30 @@ const ContentAnalysisSchema = z.object({
   ),
 });
 
+const PatternAnalysisSchema = ContentAnalysisSchema.pick({
+  patterns: true,
+  recommendations: true,
+});
+
 export * from "./source-code-analyzer";
 
-export async function analyzeWebsite(url: string): Promise<ContentAnalysis> {
+export async function analyzeWebsite(
+  url: string,
+  options: CrawlPolicyOptions &
+    AuthOptions &
+    OverlayOptions &
+    SourceLocationOptions = {},
+): Promise<ContentAnalysis> {
   console.log(`Starting browser automation to analyze: ${url}`);
 
   // Launch browser and crawl website
-  const websiteContent = await crawlWebsite(url);
+  const websiteContent = await crawlWebsite(url, options);
 
   // Find content locations in codebase
-  const contentLocations = await findContentInCodebase(websiteContent);
+  const contentLocations = await findContentInCodebase(
+    websiteContent,
+    options.sourceDir || process.cwd(),
+  );
 
   // Create the Mastra agent to analyze patterns and generate recommendations
   const agent = new Agent({
@@ -96,17 +167,9 @@ export async function analyzeWebsite(url: string): Promise<ContentAnalysis> {
       - Accessibility improvements
       - Conversion rate optimization potential
 
-      Output your analysis as a single JSON object with the following structure:
-      {
-        "patterns": [
-          { "type": string, "description": string, "examples": string[] }
-        ],
-        "recommendations": [
-          { "type": string, "description": string, "priority": "high" | "medium" | "low" }
-        ]
-      }
+      Output your analysis as a single JSON object with "patterns" and "recommendations" arrays.
     `,
-    model: openai("gpt-4-turbo"),
+    model: getModel(),
     tools: {},
   });
 
@@ -115,62 +178,91 @@ export async function analyzeWebsite(url: string): Promise<ContentAnalysis> {
     `Analyzing ${contentLocations.length} content locations with agent`,
   );
 
-  const result = await agent.generate([
-    {
-      role: "user",
-      content: `Analyze these content locations from a website and provide patterns and recommendations:\n\n${JSON.stringify(contentLocations, null, 2)}`,
-    },
-  ]);
-
-  let agentAnalysis;
   try {
-    // Extract JSON from possible markdown code blocks
-    const jsonMatch = result.text.match(/```(?:json)?\s*([\s\S]*?)\s*```/) || [
-      null,
-      result.text,
-    ];
-    const jsonString = jsonMatch[1].trim();
-
-    agentAnalysis = JSON.parse(jsonString);
+    const agentAnalysis = await generateStructuredWithAgent(
+      agent,
+      `Analyze these content locations from a website and provide patterns and recommendations:\n\n${JSON.stringify(contentLocations, null, 2)}`,
+      PatternAnalysisSchema,
+      { label: "content pattern analysis" },
+    );
 
-    if (!agentAnalysis.patterns) agentAnalysis.patterns = [];
-    if (!agentAnalysis.recommendations) agentAnalysis.recommendations = [];
+    return {
+      locations: contentLocations,
+      patterns: agentAnalysis.patterns,
+      recommendations: agentAnalysis.recommendations,
+    };
   } catch (error) {
-    console.error("Error parsing agent output:");
-    console.error("Raw agent output:\n", result.text);
-    agentAnalysis = {
+    if (!(error instanceof StructuredOutputError)) {
+      throw error;
+    }
+
+    // Keep the located content but report the failed analysis explicitly
+    console.error(error.message);
+    return {
+      locations: contentLocations,
       patterns: [],
       recommendations: [],
+      analysisError: error.message,
     };
   }
-
-  return {
-    locations: contentLocations,
-    patterns: agentAnalysis.patterns || [],
-    recommendations: agentAnalysis.recommendations || [],
-  };
 }
 
-async function crawlWebsite(url: string): Promise<WebsiteContent[]> {
+async function crawlWebsite(
+  url: string,
+  options: CrawlPolicyOptions & AuthOptions & OverlayOptions,
+): Promise<WebsiteContent[]> {
+  // Start page first, then sitemap pages, then links from the start page
+  const frontier = await createCrawlFrontier(url, {
+    ...options,
+    headers: { ...options.headers, ...authRequestHeaders(options) },
+  });
+
   const browser = await chromium.launch({ headless: true });
-  const context = await browser.newContext();
+  const context = await createAuthenticatedContext(
+    browser,
+    url,
+    options,
+    options.userAgent ? { userAgent: options.userAgent } : {},
+  ).catch(async (error) => {
+    await browser.close();
+    throw error;
+  });
   const page = await context.newPage();
 
-  console.log(`Navigating to ${url}`);
-  await page.goto(url, { waitUntil: "networkidle" });
-
-  // Get all pages to crawl (links within the same domain)
-  const internalUrls = await collectInternalLinks(page, url);
-  const allUrls = [url, ...internalUrls.slice(0, 4)]; // Limit to 5 pages for the MVP
-
   // Crawl each page and collect content
   const contents: WebsiteContent[] = [];
+  const maxPages = 5; // Limit to 5 pages for the MVP
+  let crawledPages = 0;
+  let next;
+
+  while (crawledPages < maxPages && (next = frontier.next())) {
+    const pageUrl = next.url;
+    await frontier.throttle();
 
-  for (const pageUrl of allUrls) {
     console.log(`Crawling page: ${pageUrl}`);
     await page.goto(pageUrl, { waitUntil: "networkidle" });
 
-    // Extract text content from various elements
+    // Keep consent banners and popups out of the extracted content
+    await handleOverlays(page, options);
+
+    const canonicalUrl = await page.evaluate(() =>
+      document
+        .querySelector('link[rel~="canonical" i]')
+        ?.getAttribute("href"),
+    );
+    if (!frontier.claimCanonical(pageUrl, canonicalUrl)) {
+      continue;
+    }
+    crawledPages++;
+
+    if (next.depth === 0) {
+      for (const link of await collectInternalLinks(page, url)) {
+        frontier.add(link, 1);
+      }
+    }
+
+    // Extract text content from various elements, each with a stable unique selector
+    await installSelectorEngine(page);
     const pageContents = await page.evaluate(() => {
       const contentElements = Array.from(
         document.querySelectorAll(
@@ -180,31 +272,6 @@ async function crawlWebsite(url: string): Promise<WebsiteContent[]> {
 
       return contentElements
         .map((el) => {
-          // Get unique selector for this element
-          const getSelector = (element: Element): string => {
-            if (element.id) return `#${element.id}`;
-
-            let selector = element.tagName.toLowerCase();
-            if (element.className) {
-              const classes = Array.from(element.classList).join(".");
-              if (classes) selector += `.${classes}`;
-            }
-
-            // If element has a unique attribute, use it
-            const uniqueAttrs = [
-              "data-testid",
-              "data-cy",
-              "data-test",
-              "aria-label",
-            ];
-            for (const attr of uniqueAttrs) {
-              const value = element.getAttribute(attr);
-              if (value) return `[${attr}="${value}"]`;
-            }
-
-            return selector;
-          };
-
           let content = "";
 
           // Get text content
@@ -224,12 +291,13 @@ async function crawlWebsite(url: string): Promise<WebsiteContent[]> {
             content = el.alt;
           }
 
-          return {
-            selector: getSelector(el),
-            content: content,
-          };
+          return { el, content };
         })
-        .filter((item) => item.content && item.content.length > 1); // Filter out empty content
+        .filter((item) => item.content && item.content.length > 1) // Filter out empty content
+        .map((item) => ({
+          selector: window.steelpushSelector!(item.el),
+          content: item.content,
+        }));
     });
 
     // Add to content collection with the page URL
@@ -289,160 +357,199 @@ async function collectInternalLinks(
   return [...new Set(absoluteLinks)];
 }
 
+/**
+ * Difference in confidence below which two source locations are a tie
+ */
+const TIE_MARGIN = 0.02;
+
+/**
+ * Number of tied elements the model chooses between in one request
+ */
+const TIE_BATCH_SIZE = 20;
+
+const FRAMEWORKS: Record<string, string> = {
+  ".vue": "vue",
+  ".svelte": "svelte",
+  ".astro": "astro",
+};
+
+const TieChoicesSchema = z.object({
+  choices: z.array(
+    z.object({
+      element: z.number().int(),
+      candidate: z.number().int(),
+    }),
+  ),
+});
+
+interface LocatedContent {
+  element: WebsiteContent;
+  /** Matching source strings, the chosen one first */
+  matches: SourceMatch[];
+}
+
+/**
+ * Resolves crawled elements to the source locations that render them
+ *
+ * The text of each element is looked up in a local index of the codebase's strings and
+ * translation values. The model is only asked to choose when several locations match
+ * equally well, such as a label repeated in two components.
+ *
+ * @param directory Root of the codebase
+ * @returns One location per element that was found, with the other candidates
+ */
 async function findContentInCodebase(
   websiteContent: WebsiteContent[],
+  directory: string,
 ): Promise<ContentLocation[]> {
   console.log(
     `Finding content locations in codebase for ${websiteContent.length} elements`,
   );
 
-  // Get all code files
-  const files = await getCodeFiles();
-
-  // Create readFile tool for agent
-  const readFileTool = createTool({
-    id: "readFile",
-    description: "Read file contents",
-    inputSchema: z.object({
-      filePath: z.string().describe("Path to the file"),
-    }),
-    outputSchema: z.string(),
-    execute: async ({ context }) => {
-      return fs.readFileSync(context.filePath, "utf-8");
-    },
-  });
-
-  // Create content locator agent
-  const agent = new Agent({
-    name: "content-locator",
-    instructions: `
-      You are an expert code analyzer specialized in finding content in source code.
-      Your task is to locate where specific content from a website is defined in the codebase.
-      
-      For each content element, identify:
-      1. The file where the content is defined
-      2. The type of content (component, translation, api, database, static)
-      3. The framework used (if applicable)
-      4. The exact line number
-      5. Surrounding context
-      
-      When examining files, look for:
-      - Exact text matches for the content
-      - Translation keys that might render the content
-      - API calls that fetch the content
-      - Database queries
-      - Content imported from static files
-      
-      Output each content location as a JSON object with the following structure:
-      {
-        "file": string,
-        "type": "component" | "translation" | "api" | "database" | "static",
-        "framework"?: string,
-        "content": string,
-        "context": string,
-        "lineNumber": number
-      }
-    `,
-    model: openai("gpt-4-turbo"),
-    tools: { readFile: readFileTool },
-  });
-
-  const contentLocations: ContentLocation[] = [];
+  const { index, indexedFiles, failedFiles } = await buildSourceIndex(directory);
+  for (const { file, error } of failedFiles) {
+    console.warn(`Skipping ${file} in the source index: ${error}`);
+  }
+  console.log(`Indexed ${index.size} strings from ${indexedFiles.length} files`);
+  const located: LocatedContent[] = [];
+  for (const element of websiteContent) {
+    const matches = index.lookup(element.content);
+    if (matches.length > 0) {
+      located.push({ element, matches });
+    }
+  }
 
-  // Process content in batches to avoid overwhelming the agent
-  const batchSize = 5;
-  for (let i = 0; i < websiteContent.length; i += batchSize) {
-    const batch = websiteContent.slice(i, i + batchSize);
+  const ties = located.filter(({ matches }) => tiedMatches(matches).length > 1);
+  if (ties.length > 0) {
     console.log(
-      `Processing content batch ${i / batchSize + 1}/${Math.ceil(websiteContent.length / batchSize)}`,
+      `Choosing between equally good source locations for ${ties.length} elements`,
     );
+    await resolveTies(ties);
+  }
 
-    // Prepare file information for the agent
-    const fileInfo = [];
-    for (const file of files.slice(0, 20)) {
-      // Limit to 20 files for the MVP
-      try {
-        const content = fs.readFileSync(file, "utf-8");
-        fileInfo.push({
-          path: file,
-          preview: content.substring(0, 500) + "...", // Just a preview
-        });
-      } catch (error) {
-        console.error(`Error reading file ${file}:`, error);
-      }
-    }
+  const contentLocations = located.map(({ element, matches }) =>
+    toContentLocation(element, matches),
+  );
+  console.log(
+    `Found ${contentLocations.length} content locations in codebase (${websiteContent.length - located.length} elements not found)`,
+  );
+  return contentLocations;
+}
 
-    // Ask agent to locate content
-    const result = await agent.generate([
-      {
-        role: "user",
-        content: `
-          Find where the following content elements are defined in the codebase.
-          
-          Website content elements:
-          ${JSON.stringify(batch, null, 2)}
-          
-          Available files:
-          ${JSON.stringify(fileInfo, null, 2)}
-          
-          For each content element, identify which file likely contains it, then use the readFile tool to examine the file and locate the exact line number and context.
-          
-          Output one JSON object per content location found.
-        `,
-      },
-    ]);
+/**
+ * Asks the model which of the tied source locations renders each element, and moves its
+ * choice to the front; ties it cannot resolve keep the index order
+ */
+async function resolveTies(ties: LocatedContent[]): Promise<void> {
+  for (let offset = 0; offset < ties.length; offset += TIE_BATCH_SIZE) {
+    const batch = ties.slice(offset, offset + TIE_BATCH_SIZE);
+    const described = batch.map(({ element, matches }, index) =>
+      [
+        `${index + 1}. ${JSON.stringify(element.content)} (${element.selector} on ${element.url})`,
+        ...tiedMatches(matches).map(
+          (match, candidate) =>
+            `   ${candidate + 1}) ${match.entry.file}:${match.entry.line} ${describeSource(match.entry)}: ${JSON.stringify(match.entry.text)}`,
+        ),
+      ].join("\n"),
+    );
 
     try {
-      // Extract JSON objects from the text
-      const jsonMatches = [
-        ...result.text.matchAll(/\{(?:[^{}]|(?:\{[^{}]*\}))*\}/g),
-      ];
-      for (const match of jsonMatches) {
-        try {
-          const locationData = JSON.parse(match[0]);
-          if (locationData.file && locationData.content && locationData.type) {
-            const validatedLocation = ContentLocationSchema.parse(locationData);
-            contentLocations.push(validatedLocation);
-          }
-        } catch (parseError) {
-          // Invalid JSON or missing required fields, skip this match
+      const result = await generateStructured({
+        schema: TieChoicesSchema,
+        label: "source location choices",
+        temperature: 0,
+        prompt: `
+          Each numbered text below was found on a page of a website, and each appears in
+          several places of the site's source code. Judging by the page URL, the element and
+          the files, components and translation keys, choose the place that renders it on
+          that page.
+
+          ${described.join("\n          ")}
+
+          Respond with a JSON object whose "choices" array has one entry per text:
+          - element: the text's number
+          - candidate: the number of the chosen place
+        `,
+      });
+
+      for (const choice of result.choices) {
+        const tie = batch[choice.element - 1];
+        const chosen = tie && tiedMatches(tie.matches)[choice.candidate - 1];
+        if (chosen) {
+          tie.matches = [chosen, ...tie.matches.filter((match) => match !== chosen)];
         }
       }
     } catch (error) {
-      console.error("Error parsing locations from agent output:", error);
+      // The index order is a usable answer, so no failure of the model is fatal here
+      console.warn(
+        `Could not choose between tied source locations: ${error instanceof Error ? error.message : error}`,
+      );
     }
   }
+}
 
-  console.log(`Found ${contentLocations.length} content locations in codebase`);
-  return contentLocations;
+/**
+ * The matches as good as the best one
+ */
+function tiedMatches(matches: SourceMatch[]): SourceMatch[] {
+  return matches.filter(
+    (match) => matches[0].confidence - match.confidence < TIE_MARGIN,
+  );
+}
+
+function toContentLocation(
+  element: WebsiteContent,
+  [best, ...others]: SourceMatch[],
+): ContentLocation {
+  const source = best.entry;
+  const translation = source.kind === "translation";
+  const framework = FRAMEWORKS[path.extname(source.file).toLowerCase()];
+
+  return {
+    file: source.file,
+    type: translation ? "translation" : "component",
+    ...(!translation && { framework: framework || "jsx" }),
+    content: element.content,
+    context: describeSource(source),
+    lineNumber: source.line,
+    column: source.column,
+    ...(source.key && { translationKey: source.key }),
+    url: element.url,
+    selector: element.selector,
+    confidence: roundConfidence(best.confidence),
+    match: best.match,
+    ...(others.length > 0 && {
+      candidates: others.map(({ entry, confidence }) => ({
+        file: entry.file,
+        lineNumber: entry.line,
+        column: entry.column,
+        ...(entry.key && { translationKey: entry.key }),
+        confidence: roundConfidence(confidence),
+      })),
+    }),
+  };
 }
 
-async function getCodeFiles(): Promise<string[]> {
-  // Get all relevant code files
-  const patterns = [
-    "src/**/*.{js,jsx,ts,tsx,vue,html,md,mdx,json}",
-    "public/**/*.{html,json,md}",
-    "components/**/*.{js,jsx,ts,tsx,vue}",
-    "pages/**/*.{js,jsx,ts,tsx,vue}",
-    "app/**/*.{js,jsx,ts,tsx,vue}",
-    "locales/**/*.{json,js,ts}",
-  ];
-
-  const ignore = [
-    "**/node_modules/**",
-    "**/dist/**",
-    "**/build/**",
-    "**/.git/**",
-    "**/package.json",
-    "**/tsconfig.json",
-    "**/README.md",
-  ];
-
-  let files: string[] = [];
-  for (const pattern of patterns) {
-    const matches = await glob(pattern, { nodir: true, ignore });
-    files = files.concat(matches);
+/**
+ * Where a source string is, e.g. `Hero <button>` or `key common:hero.title (de)`
+ */
+function describeSource(entry: IndexedString): string {
+  if (entry.kind === "translation") {
+    return `key ${entry.key}${entry.locale ? ` (${entry.locale})` : ""}`;
   }
 
-  return files;
+  return (
+    [
+      entry.component,
+      entry.element &&
+        `<${entry.element}${entry.prop ? ` ${entry.prop}` : ""}>`,
+      entry.slot && `slot ${entry.slot}`,
+    ]
+      .filter(Boolean)
+      .join(" ") || path.basename(entry.file)
+  );
+}
+
+function roundConfidence(confidence: number): number {
+  return Math.round(confidence * 100) / 100;
 }
@@ -4,10 +4,13 @@ import { glob } from "glob";
 import { Agent } from "@mastra/core/agent";
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
-import { anthropic } from "@ai-sdk/anthropic";
-import { config } from "../config";
+import { getModel } from "../providers";
+import {
+  generateStructuredWithAgent,
+  StructuredOutputError,
+} from "../utils/structured-output";
 
-interface MarketingContent {
+export interface MarketingContent {
   file: string;
   path: string;
   content: string;
@@ -30,9 +33,10 @@ interface SourceCodeAnalysis {
     type: string;
     hasMarketingContent: boolean;
   }[];
+  failedBatches?: Array<{ files: string[]; error: string }>; // Batches whose output could not be parsed
 }
 
-const MarketingContentSchema = z.object({
+export const MarketingContentSchema = z.object({
   file: z.string(),
   path: z.string(),
   content: z.string(),
@@ -49,7 +53,7 @@ const MarketingContentSchema = z.object({
   lineNumber: z.number(),
 });
 
-const SourceCodeAnalysisSchema = z.object({
+export const SourceCodeAnalysisSchema = z.object({
   marketingContent: z.array(MarketingContentSchema),
   fileMap: z.array(
     z.object({
@@ -60,6 +64,10 @@ const SourceCodeAnalysisSchema = z.object({
   ),
 });
 
+const BatchAnalysisSchema = SourceCodeAnalysisSchema.pick({
+  marketingContent: true,
+});
+
 export async function analyzeSourceCode(
   directory: string
 ): Promise<SourceCodeAnalysis> {
@@ -149,34 +157,16 @@ export async function analyzeSourceCode(
       
       For React components, examine both direct text content and any text passed as props.
 
-      Output your analysis as a single JSON object with the following structure:
-      {
-        "marketingContent": [
-          { 
-            "file": string, 
-            "path": string, 
-            "content": string, 
-            "type": "heading" | "description" | "cta" | "feature" | "benefit" | "testimonial" | "other",
-            "context": string,
-            "lineNumber": number 
-          }
-        ],
-        "fileMap": [
-          { 
-            "path": string, 
-            "type": string, 
-            "hasMarketingContent": boolean 
-          }
-        ]
-      }
+      Output your analysis as a single JSON object with a "marketingContent" array.
     `,
-    model: anthropic(config.analysis.modelName),
+    model: getModel(),
     tools: { readFile: readFileTool },
   });
 
   // Process files in batches to avoid overwhelming the agent
   const batchSize = 10;
   let marketingContent: MarketingContent[] = [];
+  const failedBatches: Array<{ files: string[]; error: string }> = [];
 
   for (let i = 0; i < fileMetadata.length; i += batchSize) {
     const batch = fileMetadata.slice(i, i + batchSize);
@@ -185,10 +175,10 @@ export async function analyzeSourceCode(
     );
 
     // Ask agent to analyze files
-    const result = await agent.generate([
-      {
-        role: "user",
-        content: `
+    try {
+      const batchResults = await generateStructuredWithAgent(
+        agent,
+        `
           Analyze these files and identify any marketing content:
           
           File metadata:
@@ -199,32 +189,26 @@ export async function analyzeSourceCode(
           For files that are unlikely to contain marketing content (configuration files, backend code), you can be more selective.
           
           Remember to record the file path, content, type, context, and line number for each piece of marketing content.
-          Also create a complete file map indicating which files contain marketing content.
         `,
-      },
-    ]);
-
-    try {
-      // Extract JSON from possible markdown code blocks
-      const jsonMatch = result.text.match(
-        /```(?:json)?\s*([\s\S]*?)\s*```/
-      ) || [null, result.text];
-      const jsonString = jsonMatch[1].trim();
+        BatchAnalysisSchema,
+        { label: "marketing content" }
+      );
 
-      const batchResults = JSON.parse(jsonString);
-
-      if (
-        batchResults.marketingContent &&
-        Array.isArray(batchResults.marketingContent)
-      ) {
-        marketingContent = [
-          ...marketingContent,
-          ...batchResults.marketingContent,
-        ];
-      }
+      marketingContent = [
+        ...marketingContent,
+        ...batchResults.marketingContent,
+      ];
     } catch (error) {
-      console.error("Error parsing agent output:");
-      console.error("Raw agent output:\n", result.text);
+      if (!(error instanceof StructuredOutputError)) {
+        throw error;
+      }
+      failedBatches.push({
+        files: batch.map((file) => file.path),
+        error: error.message,
+      });
+      console.error(
+        `Could not analyze file batch ${i / batchSize + 1}: ${error.message}`
+      );
     }
   }
 
@@ -239,6 +223,7 @@ export async function analyzeSourceCode(
   const analysis: SourceCodeAnalysis = {
     marketingContent,
     fileMap,
+    failedBatches,
   };
 
   console.log(
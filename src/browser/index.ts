@@ -2,8 +2,7 @@ import { Page, Browser, chromium } from "playwright";
 import { Agent } from "@mastra/core/agent";
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
-import { openai } from "@ai-sdk/openai";
-import { config } from "../config";
+import { getModel } from "../providers";
 
 // Types for browser session management
 interface BrowserSession {
@@ -279,7 +278,7 @@ export async function createBrowserAgent(session: BrowserSession) {
       
       Focus on understanding content purpose rather than just structure.
     `,
-    model: openai(config.analysis.modelName || "gpt-4-turbo"),
+    model: getModel(),
     tools: {
       browser_navigate: navigateTool,
       browser_snapshot: snapshotTool,
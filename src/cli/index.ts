@@ -15,7 +15,10 @@ import {
   generateCommand,
   simulateCommand,
   resultsCommand,
-  exportCommand 
+  exportCommand,
+  migrateCommand,
+  scannersCommand,
+  applyCommand
 } from '../commands';
 
 // Set up paths
@@ -31,17 +34,34 @@ const program = new Command();
 program
   .name('steelpush')
   .description('AI-powered website optimization tool')
-  .version(packageJson.version);
+  .version(packageJson.version)
+  .option('--record <dir>', 'Record model responses to a cassette directory')
+  .option('--replay <dir>', 'Serve model responses from a cassette directory instead of calling the API')
+  .hook('preAction', () => {
+    const { record, replay } = program.opts();
+    
+    if (record && replay) {
+      console.error('--record and --replay cannot be used together');
+      process.exit(1);
+    }
+    
+    // The provider registry picks these up when the first model is created
+    if (record || replay) {
+      process.env.STEELPUSH_CASSETTE_MODE = record ? 'record' : 'replay';
+      process.env.STEELPUSH_CASSETTE_DIR = record || replay;
+    }
+  });
 
 // Add commands
 initCommand(program);
 analyzeCommand(program);
-
-// TODO: Enable these commands once they're fully implemented
-// generateCommand(program);
-// simulateCommand(program);
-// resultsCommand(program);
-// exportCommand(program);
+generateCommand(program);
+simulateCommand(program);
+resultsCommand(program);
+exportCommand(program);
+applyCommand(program);
+migrateCommand(program);
+scannersCommand(program);
 
 // Parse arguments
 program.parse(process.argv);
@@ -2,102 +2,232 @@
  * Analyze command implementation
  */
 
-import { Command } from 'commander';
-import fs from 'fs';
-import { scanWebsiteAdvanced } from '../scanner/advanced-scanner';
-import { scanCodebase } from '../scanner/codebase-scanner';
-import { exportContentToJson, exportContentToMarkdown, exportContentToCsv } from '../exporter';
+import { Command, InvalidArgumentError } from 'commander';
+import { loadConfiguredScannerPlugins, resumeScan, runScanner } from '../scanner/registry';
+import { CheckpointError } from '../scanner/checkpoint';
+import { AUTH_SECRET_OPTIONS, LoginError } from '../scanner/auth';
+import { OverlayOptions, readOverlayOptions } from '../scanner/overlays';
+import { findDeviceDifferences } from '../core/content-element';
+import { exportScanResult } from '../exporter';
 import { loadConfig } from '../utils/config';
 
+/**
+ * Collects repeated --scanner-option key=value flags
+ */
+function collectScannerOption(value: string, previous: Record<string, string>): Record<string, string> {
+  const separator = value.indexOf('=');
+  if (separator <= 0) {
+    throw new InvalidArgumentError(`Invalid scanner option "${value}". Use key=value.`);
+  }
+
+  return { ...previous, [value.slice(0, separator)]: value.slice(separator + 1) };
+}
+
+/**
+ * Collects repeated --header "Name: value" flags
+ */
+function collectHeader(value: string, previous: Record<string, string> = {}): Record<string, string> {
+  const separator = value.indexOf(':');
+  if (separator <= 0) {
+    throw new InvalidArgumentError(`Invalid header "${value}". Use "Name: value".`);
+  }
+
+  return { ...previous, [value.slice(0, separator).trim()]: value.slice(separator + 1).trim() };
+}
+
+/**
+ * Parses --basic-auth user:password
+ */
+function parseBasicAuth(value: string): { username: string; password: string } {
+  const separator = value.indexOf(':');
+  if (separator <= 0) {
+    throw new InvalidArgumentError(`Invalid credentials. Use user:password.`);
+  }
+
+  return { username: value.slice(0, separator), password: value.slice(separator + 1) };
+}
+
+/**
+ * Command line flag behind each scanner option, so a resumed scan only overrides the
+ * options given on its own command line
+ */
+const SCANNER_OPTION_FLAGS: Record<string, string> = {
+  maxPages: 'maxPages',
+  maxDepth: 'maxDepth',
+  headless: 'headless',
+  screenshotsDir: 'screenshots',
+  userAgent: 'userAgent',
+  respectRobots: 'ignoreRobots',
+  useSitemap: 'sitemap',
+  trackingParams: 'trackingParams',
+  concurrency: 'concurrency',
+  analysisConcurrency: 'llmConcurrency',
+  devices: 'devices',
+  login: 'login',
+  storageState: 'storageState',
+  freshLogin: 'freshLogin',
+  httpCredentials: 'basicAuth',
+  extraHeaders: 'header',
+  dismissOverlays: 'keepOverlays',
+  consentChoice: 'rejectCookies',
+  overlayRules: 'overlays',
+  ignoreOverlays: 'overlays',
+  heuristics: 'heuristics',
+};
+
+/**
+ * Overlay settings for a site: the config's crawler.overlays entry for its host, then an
+ * --overlays file, then the flags
+ */
+function resolveOverlayOptions(target: string | undefined, options: any, config: any): OverlayOptions {
+  let host: string | undefined;
+  try {
+    host = target ? new URL(target).host : undefined;
+  } catch {
+    // Codebase targets have no overlays
+  }
+
+  return {
+    ...(host && config?.crawler?.overlays?.[host]),
+    ...(options.overlays && readOverlayOptions(options.overlays)),
+    ...(options.keepOverlays && { dismissOverlays: false }),
+    ...(options.rejectCookies && { consentChoice: 'reject' as const }),
+  };
+}
+
 export function analyzeCommand(program: Command): Command {
   return program
-    .command('analyze <target>')
+    .command('analyze [target]')
     .description('Analyze a website or codebase for optimization opportunities')
     .option('-o, --output <path>', 'Output file path')
     .option('-f, --format <format>', 'Output format (json, markdown, csv)', 'json')
     .option('-m, --max-pages <number>', 'Maximum number of pages to scan', '3')
     .option('-d, --max-depth <number>', 'Maximum link depth to crawl', '2')
-    .option('--screenshots <dir>', 'Screenshots directory', 'screenshots')
+    .option('--screenshots <dir>', 'Screenshots directory (default: the run directory for resumable scanners, otherwise screenshots)')
     .option('--no-headless', 'Show browser during scanning')
-    .action(async (target, options) => {
-      console.log(`Analyzing ${target}...`);
+    .option('--user-agent <agent>', 'User agent for robots.txt rules and page requests')
+    .option('--ignore-robots', 'Crawl pages that robots.txt disallows and ignore its Crawl-delay')
+    .option('--no-sitemap', 'Do not seed the crawl from sitemap.xml')
+    .option('--tracking-params <names>', 'Comma-separated query parameters to strip from URLs (utm_* style prefixes allowed)')
+    .option('-c, --concurrency <number>', 'Number of pages to load at once')
+    .option('--llm-concurrency <number>', 'Number of pages to analyze with the model at once')
+    .option('--devices <names>', 'Comma-separated Playwright devices or aliases (desktop, mobile, tablet, pixel) to compare; the first is crawled')
+    .option('--login <file>', 'Log in before crawling with a recipe (.json) or script (.js, .ts)')
+    .option('--storage-state <file>', 'Playwright storage state to load; with --login, where the session is saved and reused')
+    .option('--fresh-login', 'Log in again even if a saved session exists')
+    .option('--basic-auth <user:password>', 'HTTP basic auth credentials (or STEELPUSH_BASIC_AUTH)', parseBasicAuth)
+    .option('--header <name:value>', 'Extra header sent with every request (repeatable)', collectHeader)
+    .option('--keep-overlays', 'Report consent banners and popups without dismissing them')
+    .option('--reject-cookies', 'Refuse optional cookies instead of accepting them when dismissing consent banners')
+    .option('--overlays <file>', 'JSON file with site-specific overlay rules and settings')
+    .option('--heuristics <mode>', 'Rule-based checks: context (given to the model), prefilter (only flagged pages or files go to the model), only (no model) or off')
+    .option('-s, --scanner <name>', 'Scanner to use (see steelpush scanners); defaults to advanced for URLs and codebase for directories')
+    .option('--scanner-option <key=value>', 'Option passed to the scanner (repeatable)', collectScannerOption, {})
+    .option('--resume <runId>', 'Continue an interrupted scan from its checkpoint')
+    .action(async (target, options, command: Command) => {
+      if (options.resume ? target || options.scanner : !target) {
+        console.error(options.resume
+          ? 'A resumed scan continues with its original target and scanner; do not pass them again.'
+          : 'Specify a URL or directory to analyze, or --resume <runId>.');
+        process.exit(1);
+      }
+      
+      console.log(options.resume ? `Resuming run ${options.resume}...` : `Analyzing ${target}...`);
       
-      // Check if config exists
+      // Check if config exists (CI can configure the provider through the environment instead);
+      // rule-only scans call no model
       const config = loadConfig();
-      if (!config) {
+      if (!config && !process.env.STEELPUSH_PROVIDER && options.heuristics !== 'only') {
         console.error("Steelpush not initialized. Run 'steelpush init' first.");
         process.exit(1);
       }
       
       try {
-        // Determine if target is a URL or file path
-        const isUrl = target.startsWith('http://') || target.startsWith('https://');
+        await loadConfiguredScannerPlugins();
+
+        // Scanners ignore the options their schema does not declare
+        const scannerOptions: Record<string, unknown> = {
+          maxPages: options.maxPages,
+          maxDepth: options.maxDepth,
+          headless: options.headless !== false,
+          screenshotsDir: options.screenshots,
+          userAgent: options.userAgent || config?.crawler?.userAgent,
+          respectRobots: !options.ignoreRobots,
+          useSitemap: options.sitemap !== false,
+          trackingParams: options.trackingParams || config?.crawler?.trackingParams,
+          concurrency: options.concurrency || config?.crawler?.concurrency,
+          analysisConcurrency: options.llmConcurrency || config?.crawler?.analysisConcurrency,
+          devices: options.devices || config?.crawler?.devices,
+          login: options.login,
+          storageState: options.storageState,
+          freshLogin: options.freshLogin,
+          httpCredentials: options.basicAuth ||
+            (process.env.STEELPUSH_BASIC_AUTH ? parseBasicAuth(process.env.STEELPUSH_BASIC_AUTH) : undefined),
+          extraHeaders: options.header,
+          heuristics: options.heuristics,
+          ...resolveOverlayOptions(target, options, config),
+        };
         
-        let result;
-        if (isUrl) {
-          // Scan website
-          result = await scanWebsiteAdvanced(target, {
-            maxPages: parseInt(options.maxPages),
-            maxDepth: parseInt(options.maxDepth),
-            headless: options.headless !== false,
-            screenshotsDir: options.screenshots
-          });
-        } else {
-          // Scan codebase
-          result = await scanCodebase(target);
-        }
+        const result = options.resume
+          ? await resumeScan(options.resume, {
+              ...Object.fromEntries(
+                // Credentials are not checkpointed, so they are passed again whenever given
+                Object.entries(scannerOptions).filter(([key, value]) =>
+                  AUTH_SECRET_OPTIONS.includes(key)
+                    ? value !== undefined
+                    : command.getOptionValueSource(SCANNER_OPTION_FLAGS[key]) === 'cli'
+                )
+              ),
+              ...options.scannerOption
+            })
+          : await runScanner(target, options.scanner, { ...scannerOptions, ...options.scannerOption });
         
         // Determine output path
         const outputPath = options.output || `steelpush-analysis-${Date.now()}.${options.format}`;
         
-        // Export results
-        switch (options.format) {
-          case 'markdown':
-            await exportContentToMarkdown(result, outputPath);
-            break;
-          case 'csv':
-            await exportContentToCsv(result, outputPath);
-            break;
-          case 'json':
-          default:
-            await exportContentToJson(result, outputPath);
-            break;
-        }
+        // JSON output is the versioned artifact the generate command reads
+        const format = ['markdown', 'csv'].includes(options.format) ? options.format : 'json';
+        await exportScanResult(result, { format, outputPath });
         
         console.log(`\nAnalysis complete!`);
         console.log(`Results saved to ${outputPath}`);
         
         // Output summary stats
-        if (result.type === 'website') {
-          const pageCount = result.data.pages.length;
-          const elementCount = result.data.pages.reduce(
-            (sum, page) => sum + (page.optimizableElements?.length || 0), 
-            0
-          );
-          
-          console.log(`\nAnalyzed ${pageCount} pages`);
-          console.log(`Found ${elementCount} optimizable elements`);
+        const scannedLabel = result.sourceType === 'website' ? 'pages' : 'files';
+        console.log(`\nAnalyzed ${result.scanned.length} ${scannedLabel}`);
+        console.log(`Found ${result.elements.length} optimizable elements`);
+        if (result.overlays && result.overlays.length > 0) {
+          const names = [...new Set(result.overlays.map(overlay => overlay.name))];
+          console.log(`Found ${result.overlays.length} consent banners and popups (${names.join(', ')})`);
+        }
+        const deviceDifferences = result.elements.filter(element => findDeviceDifferences(element).length > 0);
+        if (deviceDifferences.length > 0) {
+          console.log(`${deviceDifferences.length} elements render differently across devices (see the report)`);
+        }
+        
+        // Pages or files whose model output could not be parsed are reported, not papered over
+        if (result.failures.length > 0) {
+          console.warn(`\n${result.failures.length} ${scannedLabel} could not be analyzed:`);
+          result.failures.forEach(failure => console.warn(`- ${failure.target}: ${failure.error}`));
+        }
+        
+        // Show a few examples of optimizable elements
+        const samples = result.elements.filter(element => element.issue || element.recommendation).slice(0, 3);
+        if (samples.length > 0) {
+          console.log(`\nSample optimization opportunities:`);
           
-          // Show a few examples of optimizable elements
-          if (elementCount > 0) {
-            const firstPage = result.data.pages.find(page => 
-              page.optimizableElements && page.optimizableElements.length > 0
-            );
-            
-            if (firstPage && firstPage.optimizableElements.length > 0) {
-              console.log(`\nSample optimization opportunities:`);
-              
-              for (let i = 0; i < Math.min(3, firstPage.optimizableElements.length); i++) {
-                const element = firstPage.optimizableElements[i];
-                console.log(`- ${element.type}: "${element.content.substring(0, 50)}${element.content.length > 50 ? '...' : ''}"`);
-                console.log(`  Issue: ${element.issue}`);
-                console.log(`  Recommendation: ${element.recommendation}`);
-              }
+          for (const element of samples) {
+            console.log(`- ${element.type}: "${element.content.substring(0, 50)}${element.content.length > 50 ? '...' : ''}"`);
+            if (element.issue) {
+              console.log(`  Issue: ${element.issue}`);
+            }
+            if (element.recommendation) {
+              console.log(`  Recommendation: ${element.recommendation}`);
             }
           }
         }
       } catch (error) {
-        console.error('Analysis failed:', error);
+        console.error('Analysis failed:', error instanceof CheckpointError || error instanceof LoginError ? error.message : error);
         process.exit(1);
       }
     });
@@ -0,0 +1,67 @@
+/**
+ * Apply command implementation
+ */
+
+import { Command } from 'commander';
+import fs from 'fs';
+import { createSourcePatch, writeSourcePatch } from '../core/apply';
+import { ArtifactError, readArtifact } from '../core/artifact';
+
+export function applyCommand(program: Command): Command {
+  return program
+    .command('apply')
+    .description('Write the recommended variants into the source files they were found in, as a patch or in place')
+    .requiredOption('-i, --input <path>', 'Recommendations file (from results command)')
+    .option('-o, --output <path>', 'Patch file path (use - to print the patch)')
+    .option(
+      '--root <dir>',
+      'Directory the recommendation and patch paths are relative to, usually the repository root',
+      process.cwd()
+    )
+    .option('--write', 'Also change the source files in place')
+    .action(async (options) => {
+      if (!fs.existsSync(options.input)) {
+        console.error(`Input file not found: ${options.input}. Run 'steelpush results' first.`);
+        process.exit(1);
+      }
+
+      try {
+        const results = readArtifact(options.input, 'recommendations');
+        const patch = createSourcePatch(results.recommendations, { root: options.root });
+        const toStdout = options.output === '-';
+        // Progress goes to stderr when the patch is printed, so it can be piped to git apply
+        const log = toStdout ? console.error : console.log;
+
+        for (const { recommendation, reason } of patch.skipped) {
+          log(`Skipped ${JSON.stringify(recommendation.originalContent)}: ${reason}`);
+        }
+
+        if (patch.edits.length === 0) {
+          console.error('None of the recommendations could be applied to the source');
+          process.exit(1);
+        }
+
+        for (const edit of patch.edits) {
+          log(`${edit.file}:${edit.line}:${edit.column} ${JSON.stringify(edit.recommendation.originalContent)} → ${JSON.stringify(edit.recommendation.bestVariant)}`);
+        }
+
+        if (toStdout) {
+          process.stdout.write(patch.diff);
+        } else {
+          const outputPath = options.output || `steelpush-${Date.now()}.patch`;
+          fs.writeFileSync(outputPath, patch.diff, 'utf-8');
+          log(`\nPatch saved to ${outputPath} (apply it with: git apply ${outputPath})`);
+        }
+
+        if (options.write) {
+          const files = writeSourcePatch(patch);
+          log(`Updated ${files.length} file(s) in place`);
+        }
+
+        log(`${patch.edits.length} change(s), ${patch.skipped.length} recommendation(s) skipped`);
+      } catch (error) {
+        console.error('Apply failed:', error instanceof ArtifactError ? error.message : error);
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,80 @@
+/**
+ * Export command implementation
+ */
+
+import { Command } from 'commander';
+import fs from 'fs';
+import path from 'path';
+import { exportRecommendations, exportImplementationCode, exportScanResult } from '../exporter';
+import { ArtifactError, readArtifact } from '../core/artifact';
+
+const REPORT_FILES: Record<string, string> = {
+  json: 'optimization-results.json',
+  markdown: 'optimization-report.md',
+  csv: 'optimization-report.csv',
+  html: 'optimization-report.html'
+};
+
+/**
+ * Report formats available for analysis and simulation files
+ */
+const SCAN_REPORT_EXTENSIONS: Record<string, string> = {
+  json: 'json',
+  markdown: 'md',
+  csv: 'csv'
+};
+
+export function exportCommand(program: Command): Command {
+  return program
+    .command('export')
+    .description('Export recommendations as a report or implementation code, or render an analysis or simulation file')
+    .requiredOption('-i, --input <path>', 'Recommendations, analysis or simulation file')
+    .option('-o, --output <path>', 'Output directory path')
+    .option('-f, --format <format>', 'Output format (code, json, html, markdown, csv)', 'html')
+    .action(async (options) => {
+      console.log('Exporting...');
+
+      if (!fs.existsSync(options.input)) {
+        console.error(`Input file not found: ${options.input}. Run 'steelpush results' first.`);
+        process.exit(1);
+      }
+
+      if (options.format !== 'code' && !REPORT_FILES[options.format]) {
+        console.error(`Unknown export format "${options.format}". Use code, json, html, markdown or csv.`);
+        process.exit(1);
+      }
+
+      try {
+        const artifact = readArtifact(options.input, ['recommendations', 'analysis', 'simulation']);
+        if (artifact.stage !== 'recommendations' && !SCAN_REPORT_EXTENSIONS[options.format]) {
+          console.error(`${artifact.stage} files can only be exported as json, markdown or csv`);
+          process.exit(1);
+        }
+
+        const outputDir = options.output || `steelpush-export-${Date.now()}`;
+        fs.mkdirSync(outputDir, { recursive: true });
+
+        let files: string[];
+        if (artifact.stage !== 'recommendations') {
+          const extension = SCAN_REPORT_EXTENSIONS[options.format];
+          files = [await exportScanResult(artifact, {
+            format: options.format,
+            outputPath: path.join(outputDir, `${artifact.stage}-report.${extension}`)
+          })];
+        } else if (options.format === 'code') {
+          files = await exportImplementationCode(artifact, outputDir);
+        } else {
+          files = [await exportRecommendations(artifact, {
+            format: options.format,
+            outputPath: path.join(outputDir, REPORT_FILES[options.format])
+          })];
+        }
+
+        console.log(`\nExport complete!`);
+        files.forEach(file => console.log(`- ${file}`));
+      } catch (error) {
+        console.error('Export failed:', error instanceof ArtifactError ? error.message : error);
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,82 @@
+/**
+ * Generate command implementation
+ */
+
+import { Command } from 'commander';
+import fs from 'fs';
+import { generateVariants } from '../generators';
+import { describeModel } from '../providers';
+import { loadConfig } from '../utils/config';
+import { ARTIFACT_SCHEMA_VERSION, ArtifactError, ElementVariants, readArtifact, writeArtifact } from '../core/artifact';
+
+export function generateCommand(program: Command): Command {
+  return program
+    .command('generate')
+    .description('Generate content variants for optimizable elements')
+    .requiredOption('-i, --input <path>', 'Analysis results file (from analyze command)')
+    .option('-o, --output <path>', 'Output file path')
+    .option('-c, --count <number>', 'Number of variants to generate per element', '3')
+    .option('-t, --types <types>', 'Comma-separated types of content to focus on (e.g. headline,cta)')
+    .action(async (options) => {
+      console.log('Generating content variants...');
+
+      if (!fs.existsSync(options.input)) {
+        console.error(`Input file not found: ${options.input}. Run 'steelpush analyze' first.`);
+        process.exit(1);
+      }
+
+      if (!loadConfig() && !process.env.STEELPUSH_PROVIDER) {
+        console.error("Steelpush not initialized. Run 'steelpush init' first.");
+        process.exit(1);
+      }
+
+      try {
+        const analysis = readArtifact(options.input, 'analysis');
+        const focusTypes: string[] | null = options.types
+          ? options.types.split(',').map((type: string) => type.trim())
+          : null;
+        const elements = analysis.elements.filter(element => !focusTypes || focusTypes.includes(element.type));
+
+        if (elements.length === 0) {
+          console.log('No optimizable elements found in the analysis.');
+          return;
+        }
+
+        console.log(`Using model: ${describeModel()}`);
+        console.log(`Found ${elements.length} optimizable elements to generate variants for.`);
+
+        const variantCount = parseInt(options.count);
+        const results: ElementVariants[] = [];
+
+        for (const [index, element] of elements.entries()) {
+          console.log(`[${index + 1}/${elements.length}] Generating variants for ${element.type}: "${element.content.substring(0, 50)}${element.content.length > 50 ? '...' : ''}"`);
+
+          try {
+            const variants = await generateVariants(element, variantCount);
+            results.push({ original: element, variants });
+            console.log(`  Generated ${variants.length} variants`);
+          } catch (error: any) {
+            // One failing element should not throw away the variants generated so far
+            console.error(`  Error generating variants: ${error.message}`);
+          }
+        }
+
+        const outputPath = options.output || `steelpush-variants-${Date.now()}.json`;
+        writeArtifact(outputPath, {
+          schemaVersion: ARTIFACT_SCHEMA_VERSION,
+          stage: 'variants',
+          source: analysis.source,
+          timestamp: Date.now(),
+          input: options.input,
+          elements: results
+        });
+
+        console.log(`\nVariant generation complete!`);
+        console.log(`Generated variants for ${results.length} of ${elements.length} elements`);
+        console.log(`Results saved to ${outputPath}`);
+      } catch (error) {
+        console.error('Variant generation failed:', error instanceof ArtifactError ? error.message : error);
+        process.exit(1);
+      }
+    });
+}
@@ -8,6 +8,9 @@ import { generateCommand } from './generate';
 import { simulateCommand } from './simulate';
 import { resultsCommand } from './results';
 import { exportCommand } from './export';
+import { migrateCommand } from './migrate';
+import { scannersCommand } from './scanners';
+import { applyCommand } from './apply';
 
 export {
   initCommand,
@@ -15,5 +18,8 @@ export {
   generateCommand,
   simulateCommand,
   resultsCommand,
-  exportCommand
+  exportCommand,
+  migrateCommand,
+  scannersCommand,
+  applyCommand
 };
\ No newline at end of file
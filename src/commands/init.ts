@@ -5,6 +5,7 @@
 import { Command } from 'commander';
 import fs from 'fs';
 import { getConfigPath, saveConfig } from '../utils/config';
+import { listProviders, DEFAULT_MODELS } from '../providers';
 
 export function initCommand(program: Command): Command {
   const configPath = getConfigPath();
@@ -13,26 +14,35 @@ export function initCommand(program: Command): Command {
     .command('init')
     .description('Initialize Steelpush configuration')
     .option('-k, --api-key <key>', 'API key for the selected provider')
-    .option('-p, --provider <provider>', 'AI provider (anthropic or openai)', 'anthropic')
+    .option('-p, --provider <provider>', `AI provider (${listProviders().join(', ')})`, 'anthropic')
     .option('-m, --model <model>', 'AI model to use')
+    .option('-u, --base-url <url>', 'Base URL of an OpenAI-compatible endpoint (e.g. http://localhost:11434/v1)')
     .action(async (options) => {
       console.log('Initializing Steelpush...');
       
-      // Set default model based on provider
-      const defaultModel = options.provider === 'anthropic' ? 
-        'claude-3-7-sonnet-20250219' : 
-        'gpt-4-turbo';
+      if (!listProviders().includes(options.provider)) {
+        console.error(`Unknown provider "${options.provider}". Available providers: ${listProviders().join(', ')}`);
+        process.exit(1);
+      }
       
-      const model = options.model || defaultModel;
+      // Local endpoints have no sensible default model, so it must be given explicitly
+      const isCompatible = options.provider === 'openai-compatible';
+      if (isCompatible && (!options.baseUrl || !options.model)) {
+        console.error('The openai-compatible provider requires --base-url and --model');
+        process.exit(1);
+      }
+      
+      // Set default model based on provider
+      const model = options.model || DEFAULT_MODELS[options.provider];
       
       // Determine which environment variable to check
       const envVarName = options.provider === 'anthropic' ? 
         'ANTHROPIC_API_KEY' : 
         'OPENAI_API_KEY';
         
-      // Get API key if not provided
+      // Get API key if not provided (local servers usually don't need one)
       let apiKey = options.apiKey || process.env[envVarName];
-      if (!apiKey) {
+      if (!apiKey && !isCompatible) {
         const { default: inquirer } = await import('inquirer');
         const answers = await inquirer.prompt([
           {
@@ -52,6 +62,7 @@ export function initCommand(program: Command): Command {
           provider: options.provider,
           model: model,
           apiKey,
+          ...(options.baseUrl ? { baseUrl: options.baseUrl } : {}),
         },
         simulation: {
           visitorCount: 10,
@@ -68,11 +79,16 @@ export function initCommand(program: Command): Command {
       console.log(`Configuration saved to ${configPath}`);
 
       // Also save to .env for current session
-      fs.writeFileSync('.env', `${envVarName}=${apiKey}\n`);
-      console.log(`API key saved to .env as ${envVarName} for current session`);
+      if (apiKey) {
+        fs.writeFileSync('.env', `${envVarName}=${apiKey}\n`);
+        console.log(`API key saved to .env as ${envVarName} for current session`);
+      }
 
       console.log('\nSteelpush initialized successfully!');
       console.log(`Using provider: ${options.provider}`);
       console.log(`Using model: ${model}`);
+      if (options.baseUrl) {
+        console.log(`Using endpoint: ${options.baseUrl}`);
+      }
     });
 }
\ No newline at end of file
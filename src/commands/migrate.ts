@@ -0,0 +1,75 @@
+/**
+ * Migrate command implementation
+ */
+
+import { Command } from 'commander';
+import fs from 'fs';
+import path from 'path';
+import { ARTIFACT_SCHEMA_VERSION, getSchemaVersion, migrateArtifact, writeArtifact } from '../core/artifact';
+
+/**
+ * Expands directories to the JSON files they contain
+ */
+function collectFiles(targets: string[]): string[] {
+  return targets.flatMap(target => {
+    if (!fs.existsSync(target) || !fs.statSync(target).isDirectory()) {
+      return [target];
+    }
+
+    return fs.readdirSync(target)
+      .filter(file => file.endsWith('.json'))
+      .sort()
+      .map(file => path.join(target, file));
+  });
+}
+
+export function migrateCommand(program: Command): Command {
+  return program
+    .command('migrate <paths...>')
+    .description(`Upgrade analysis, variants, simulation and results files to schema version ${ARTIFACT_SCHEMA_VERSION}`)
+    .option('-o, --output <path>', 'Write the migrated file here instead of in place (single file only)')
+    .option('--dry-run', 'Report what would be migrated without writing anything')
+    .action(async (paths: string[], options) => {
+      const files = collectFiles(paths);
+
+      if (options.output && files.length !== 1) {
+        console.error('--output can only be used when migrating a single file');
+        process.exit(1);
+      }
+
+      let failed = 0;
+
+      for (const file of files) {
+        try {
+          if (!fs.existsSync(file)) {
+            throw new Error('file not found');
+          }
+
+          const data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+          const version = getSchemaVersion(data);
+
+          if (version === ARTIFACT_SCHEMA_VERSION && !options.output) {
+            console.log(`${file}: already at schema version ${version}`);
+            continue;
+          }
+
+          const artifact = migrateArtifact(data);
+          const outputPath = options.output || file;
+
+          if (!options.dryRun) {
+            writeArtifact(outputPath, artifact);
+          }
+
+          console.log(`${file}: ${artifact.stage} artifact, version ${version} → ${ARTIFACT_SCHEMA_VERSION}${outputPath !== file ? ` (saved to ${outputPath})` : ''}`);
+        } catch (error: any) {
+          failed++;
+          console.error(`${file}: ${error.message}`);
+        }
+      }
+
+      if (failed > 0) {
+        console.error(`\n${failed} of ${files.length} file(s) could not be migrated`);
+        process.exit(1);
+      }
+    });
+}
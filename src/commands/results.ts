@@ -0,0 +1,145 @@
+/**
+ * Results command implementation
+ */
+
+import { Command } from 'commander';
+import fs from 'fs';
+import { exportRecommendations } from '../exporter';
+import {
+  ARTIFACT_SCHEMA_VERSION,
+  ArtifactError,
+  ElementVariants,
+  Recommendation,
+  RecommendationsArtifact,
+  readArtifact,
+  writeArtifact
+} from '../core/artifact';
+
+/**
+ * Picks the best variant of an element
+ *
+ * Simulated improvements take precedence; without a simulation the generator's score decides.
+ */
+function toRecommendation(element: ElementVariants): Recommendation {
+  const { original, variants } = element;
+  const simulated = (element.simulationResults || []).slice(1); // Skip baseline
+
+  // Variants migrated from older files may have no score; they count as zero confidence
+  let best = variants.reduce(
+    (best, current) => ((current.score ?? 0) > (best.score ?? 0) ? current : best),
+    variants[0]
+  );
+  let improvementEstimate: string | undefined;
+
+  if (simulated.length > 0) {
+    const bestSimulated = simulated.reduce((best, current) =>
+      parseFloat(current.improvement) > parseFloat(best.improvement) ? current : best
+    );
+    best = variants.find(variant => variant.content === bestSimulated.variant) || best;
+    improvementEstimate = bestSimulated.improvement;
+  }
+
+  return {
+    type: original.type,
+    originalContent: original.content,
+    bestVariant: best.content,
+    confidence: best.score ?? 0,
+    reasoning: best.reasoning,
+    location: original.selector || original.location || original.file || original.url || '',
+    file: original.file,
+    ...(original.lineNumber && { lineNumber: original.lineNumber }),
+    ...(original.column && { column: original.column }),
+    ...(original.translationKey && { translationKey: original.translationKey }),
+    improvementEstimate
+  };
+}
+
+export function resultsCommand(program: Command): Command {
+  return program
+    .command('results')
+    .description('Turn simulation results into optimization recommendations')
+    .requiredOption('-i, --input <path>', 'Simulation results file (from simulate command)')
+    .option('-o, --output <path>', 'Output file path')
+    .option('-f, --format <format>', 'Output format (json, markdown, csv, html)', 'json')
+    .option('-c, --confidence-threshold <threshold>', 'Confidence threshold for recommendations (0-1)', '0.7')
+    .action(async (options) => {
+      console.log('Analyzing results...');
+
+      if (!fs.existsSync(options.input)) {
+        console.error(`Input file not found: ${options.input}. Run 'steelpush simulate' first.`);
+        process.exit(1);
+      }
+
+      try {
+        const simResults = readArtifact(options.input, 'simulation');
+        const confidenceThreshold = parseFloat(options.confidenceThreshold);
+
+        const recommendations: Recommendation[] = [];
+        const rejectedRecommendations: Recommendation[] = [];
+
+        for (const element of simResults.elements) {
+          if (!element.variants || element.variants.length === 0) {
+            continue;
+          }
+
+          const recommendation = toRecommendation(element);
+          if (recommendation.confidence < confidenceThreshold) {
+            rejectedRecommendations.push({
+              ...recommendation,
+              rejectionReason: `Confidence score below threshold (${confidenceThreshold})`
+            });
+          } else {
+            recommendations.push(recommendation);
+          }
+        }
+
+        const averageConfidence = recommendations.length > 0
+          ? recommendations.reduce((sum, rec) => sum + rec.confidence, 0) / recommendations.length
+          : 0;
+
+        // Only simulated improvements are averaged; generator scores are not conversion estimates
+        const improvements = recommendations
+          .filter(rec => rec.improvementEstimate)
+          .map(rec => parseFloat(rec.improvementEstimate!));
+        const estimatedOverallImprovement = improvements.length > 0
+          ? `${(improvements.reduce((sum, value) => sum + value, 0) / improvements.length).toFixed(0)}%`
+          : null;
+
+        const analysisResults: RecommendationsArtifact = {
+          schemaVersion: ARTIFACT_SCHEMA_VERSION,
+          stage: 'recommendations',
+          timestamp: Date.now(),
+          source: simResults.source,
+          input: options.input,
+          metadata: {
+            totalElements: simResults.elements.length,
+            totalRecommendations: recommendations.length,
+            rejectedRecommendations: rejectedRecommendations.length,
+            confidenceThreshold,
+            averageConfidence: parseFloat(averageConfidence.toFixed(2)),
+            estimatedOverallImprovement
+          },
+          recommendations,
+          rejectedRecommendations
+        };
+
+        const extension = options.format === 'markdown' ? 'md' : options.format;
+        const outputPath = options.output || `steelpush-recommendations-${Date.now()}.${extension}`;
+        if (options.format === 'json') {
+          writeArtifact(outputPath, analysisResults);
+        } else {
+          await exportRecommendations(analysisResults, { format: options.format, outputPath });
+        }
+
+        console.log(`\nResults analysis complete!`);
+        console.log(`Found ${recommendations.length} recommendations with confidence above ${confidenceThreshold}`);
+        if (estimatedOverallImprovement) {
+          console.log(`Estimated overall improvement: ${estimatedOverallImprovement}`);
+        }
+        console.log(`Results saved to ${outputPath}`);
+      } catch (error) {
+        console.error('Results analysis failed:', error instanceof ArtifactError ? error.message : error);
+        process.exit(1);
+      }
+    });
+}
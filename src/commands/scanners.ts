@@ -0,0 +1,47 @@
+/**
+ * Scanners command implementation
+ */
+
+import { Command } from 'commander';
+import { z } from 'zod';
+import { DEFAULT_SCANNERS, listScanners, loadConfiguredScannerPlugins } from '../scanner/registry';
+
+/**
+ * Names the options a scanner's schema declares, when it is a plain object schema
+ */
+function describeOptions(schema: z.ZodTypeAny): string {
+  if (!(schema instanceof z.ZodObject)) {
+    return 'custom';
+  }
+
+  const keys = Object.keys(schema.shape);
+  return keys.length > 0 ? keys.join(', ') : 'none';
+}
+
+export function scannersCommand(program: Command): Command {
+  return program
+    .command('scanners')
+    .description('List the scanners available to the analyze command')
+    .action(async () => {
+      try {
+        await loadConfiguredScannerPlugins();
+      } catch (error) {
+        console.error('Could not load scanner plugins:', error instanceof Error ? error.message : error);
+        process.exit(1);
+      }
+
+      const defaults = Object.entries(DEFAULT_SCANNERS);
+
+      for (const scanner of listScanners()) {
+        const { capabilities } = scanner;
+        const defaultFor = defaults.filter(([, name]) => name === scanner.name).map(([target]) => target);
+        const features = (['crawl', 'browser', 'screenshots', 'selectors', 'checkpoints'] as const).filter(feature => capabilities[feature]);
+
+        console.log(`${scanner.name}${defaultFor.length > 0 ? ` (default for ${defaultFor.join(', ')})` : ''}`);
+        console.log(`  ${scanner.description}`);
+        console.log(`  Targets: ${capabilities.targets.join(', ')}`);
+        console.log(`  Capabilities: ${features.length > 0 ? features.join(', ') : 'none'}`);
+        console.log(`  Options: ${describeOptions(scanner.optionsSchema)}`);
+      }
+    });
+}
@@ -0,0 +1,134 @@
+/**
+ * Simulate command implementation
+ */
+
+import { Command } from 'commander';
+import fs from 'fs';
+import { simulateTraffic } from '../simulator';
+import { simulateContentItems } from '../simulator/simulate-conversions';
+import { describeModel } from '../providers';
+import { loadConfig } from '../utils/config';
+import {
+  ARTIFACT_SCHEMA_VERSION,
+  ArtifactError,
+  ElementVariants,
+  SimulationArtifact,
+  readArtifact,
+  writeArtifact
+} from '../core/artifact';
+
+/**
+ * Estimates per-variant conversion improvements with the persona-based AI simulation
+ */
+async function simulateWithPersonas(elements: ElementVariants[]): Promise<ElementVariants[]> {
+  const items = await simulateContentItems(
+    elements.map(({ original, variants }) => ({
+      url: original.url || original.file || '',
+      type: original.type,
+      content: original.content,
+      location: original.selector || original.location || '',
+      importance: '',
+      optimizationPotential: '',
+      issue: original.issue,
+      recommendation: original.recommendation,
+      variants: variants.map(variant => variant.content)
+    }))
+  );
+
+  return elements.map((element, index) => ({
+    ...element,
+    simulationResults: items[index].simulationResults
+  }));
+}
+
+export function simulateCommand(program: Command): Command {
+  return program
+    .command('simulate')
+    .description('Simulate how visitors respond to the generated variants')
+    .requiredOption('-i, --input <path>', 'Generated variants file (from generate command)')
+    .option('-o, --output <path>', 'Output file path')
+    .option('-v, --visitors <number>', 'Number of simulated visitors (browser mode)', '10')
+    .option('-p, --personas <number>', 'Number of persona types to use (browser mode)', '3')
+    .option('-m, --mode <mode>', 'Simulation mode (ai-only, browser)', 'ai-only')
+    .action(async (options) => {
+      console.log('Running simulation...');
+
+      if (!fs.existsSync(options.input)) {
+        console.error(`Input file not found: ${options.input}. Run 'steelpush generate' first.`);
+        process.exit(1);
+      }
+
+      if (options.mode !== 'ai-only' && options.mode !== 'browser') {
+        console.error(`Unknown simulation mode "${options.mode}". Use ai-only or browser.`);
+        process.exit(1);
+      }
+
+      if (!loadConfig() && !process.env.STEELPUSH_PROVIDER) {
+        console.error("Steelpush not initialized. Run 'steelpush init' first.");
+        process.exit(1);
+      }
+
+      try {
+        const variantsData = readArtifact(options.input, 'variants');
+
+        // Elements whose generation failed have nothing to compare against
+        const elements = variantsData.elements.filter(element => element.variants?.length > 0);
+        const simulationOptions = {
+          visitorCount: parseInt(options.visitors),
+          personaCount: parseInt(options.personas),
+          mode: options.mode as SimulationArtifact['simulationOptions']['mode']
+        };
+
+        console.log(`Using model: ${describeModel()}`);
+
+        const output: SimulationArtifact = {
+          schemaVersion: ARTIFACT_SCHEMA_VERSION,
+          stage: 'simulation',
+          source: variantsData.source,
+          timestamp: Date.now(),
+          input: options.input,
+          simulationOptions,
+          elements
+        };
+
+        if (options.mode === 'browser') {
+          console.log('Using browser-based simulation with Playwright...');
+
+          const url = /^https?:\/\//.test(variantsData.source)
+            ? variantsData.source
+            : elements.find(element => element.original.url)?.original.url;
+
+          if (!url) {
+            console.error('Browser simulation needs a website analysis; use --mode ai-only for codebases.');
+            process.exit(1);
+          }
+
+          const trafficResults = await simulateTraffic(
+            elements.flatMap(element =>
+              element.variants.map(variant => ({ ...variant, score: variant.score ?? 0 }))
+            ),
+            {
+              visitorCount: simulationOptions.visitorCount,
+              personaCount: simulationOptions.personaCount,
+              duration: '5m',
+              url
+            }
+          );
+          output.trafficResults = { ...trafficResults };
+        } else {
+          console.log('Using AI-only simulation (no browser)...');
+          output.elements = await simulateWithPersonas(elements);
+        }
+
+        const outputPath = options.output || `steelpush-simulation-${Date.now()}.json`;
+        writeArtifact(outputPath, output);
+
+        console.log(`\nSimulation complete!`);
+        console.log(`Simulated ${elements.length} elements in ${options.mode} mode`);
+        console.log(`Results saved to ${outputPath}`);
+      } catch (error) {
+        console.error('Simulation failed:', error instanceof ArtifactError ? error.message : error);
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,297 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, describe, it } from 'node:test';
+import { createSourcePatch } from './apply';
+import type { Recommendation } from './artifact';
+import { parseTranslationFile } from '../scanner/locale-parser';
+import { extractMarkupStrings } from '../scanner/markup-extractor';
+import { extractJsxStrings, extractScriptStrings } from '../scanner/source-extractor';
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'steelpush-apply-'));
+after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+const TRICKY = 'Say "hi" & <b>';
+
+function recommendation(fields: Partial<Recommendation>): Recommendation {
+  return {
+    type: 'cta',
+    originalContent: '',
+    bestVariant: '',
+    confidence: 0.9,
+    reasoning: '',
+    location: '',
+    ...fields,
+  };
+}
+
+function write(name: string, source: string): string {
+  const file = path.join(directory, name);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, source, 'utf-8');
+  return file;
+}
+
+function extract(file: string, source: string) {
+  return extractJsxStrings(file, source) ?? extractMarkupStrings(file, source) ?? extractScriptStrings(file, source) ?? [];
+}
+
+/**
+ * Patches the string with the given text at its extracted position
+ *
+ * @returns The replacement as written, and the text the extractor reads back from the patched file
+ */
+function patchString(name: string, source: string, original: string, variant: string) {
+  const file = write(name, source);
+  const string = extract(file, source).find((candidate) => candidate.text === original);
+  assert.ok(string, `${JSON.stringify(original)} is extracted from ${name}`);
+
+  const patch = createSourcePatch(
+    [recommendation({ originalContent: original, bestVariant: variant, file, lineNumber: string.line, column: string.column })],
+    { root: directory }
+  );
+  assert.deepEqual(patch.skipped, []);
+  const [edit] = patch.edits;
+  const patched = patch.files[file];
+  const reread = extract(file, patched).find((candidate) => candidate.start === edit.start);
+
+  return { after: edit.after, patched, reread: reread?.text };
+}
+
+describe('createSourcePatch', () => {
+  describe('JSX', () => {
+    it('escapes markup in JSX text', () => {
+      const { after, reread } = patchString('Text.tsx', 'export const A = () => <p>Old text</p>;\n', 'Old text', 'Sets } & { <tags>');
+      assert.equal(after, 'Sets &#125; & &#123; &lt;tags&gt;');
+      assert.equal(reread, 'Sets } & { <tags>');
+    });
+
+    it('escapes the attribute quote in a plain JSX attribute', () => {
+      const { after, reread } = patchString('Attribute.tsx', 'export const A = () => <img alt="Old alt" />;\n', 'Old alt', TRICKY);
+      assert.equal(after, 'Say &quot;hi&quot; & &lt;b&gt;');
+      assert.equal(reread, TRICKY);
+    });
+
+    it('escapes a string literal in an expression for JavaScript only', () => {
+      const { after, reread } = patchString('Literal.tsx', "export const A = () => <button title={'Old title'} />;\n", 'Old title', "It's " + TRICKY);
+      assert.equal(after, "It\\'s Say \"hi\" & <b>");
+      assert.equal(reread, "It's " + TRICKY);
+    });
+
+    it('keeps the substitutions of a template literal', () => {
+      const { after, reread } = patchString(
+        'Template.tsx',
+        'export const A = ({ name }) => <h1>{`Hello ${name}`}</h1>;\n',
+        'Hello {name}',
+        'Welcome back, {name} `$`'
+      );
+      assert.equal(after, 'Welcome back, ${name} \\`$\\`');
+      assert.equal(reread, 'Welcome back, {name} `$`');
+    });
+  });
+
+  it('reads relative paths from the root rather than the working directory', () => {
+    write('Relative.tsx', 'export const A = () => <p>Old text</p>;\n');
+    const patch = createSourcePatch(
+      [recommendation({ originalContent: 'Old text', bestVariant: 'New text', file: 'Relative.tsx', lineNumber: 1 })],
+      { root: directory }
+    );
+
+    assert.deepEqual(patch.skipped, []);
+    assert.match(patch.files[path.join(directory, 'Relative.tsx')], /<p>New text<\/p>/);
+    assert.match(patch.diff, /^--- a\/Relative\.tsx$/m);
+  });
+
+  describe('script modules', () => {
+    it('escapes a constant for JavaScript only', () => {
+      const { after, reread } = patchString('copy.ts', "export const TITLE = 'Old title';\n", 'Old title', "It's " + TRICKY);
+      assert.equal(after, "It\\'s Say \"hi\" & <b>");
+      assert.equal(reread, "It's " + TRICKY);
+    });
+  });
+
+  describe('Vue', () => {
+    it('escapes a bound attribute literal for JavaScript and then for the attribute', () => {
+      const { after, patched, reread } = patchString(
+        'Bound.vue',
+        `<template>\n  <h1 :title="'Bound title'">Hi</h1>\n</template>\n`,
+        'Bound title',
+        TRICKY
+      );
+      assert.equal(after, 'Say &quot;hi&quot; &amp; &lt;b&gt;');
+      assert.match(patched, /<h1 :title="'Say &quot;hi&quot; &amp; &lt;b&gt;'">/);
+      assert.equal(reread, TRICKY);
+    });
+
+    it('escapes the single attribute quote around a double-quoted literal', () => {
+      const { after, reread } = patchString(
+        'BoundSingle.vue',
+        `<template>\n  <img :alt='"Old alt"' />\n</template>\n`,
+        'Old alt',
+        "It's " + TRICKY
+      );
+      assert.equal(after, 'It&#39;s Say \\"hi\\" &amp; &lt;b&gt;');
+      assert.equal(reread, "It's " + TRICKY);
+    });
+
+    it('finds the attribute quote around a template literal', () => {
+      const { after } = patchString(
+        'BoundTemplate.vue',
+        '<template>\n  <img :alt="`Old alt`" />\n</template>\n',
+        'Old alt',
+        TRICKY
+      );
+      assert.equal(after, 'Say &quot;hi&quot; &amp; &lt;b&gt;');
+    });
+
+    it('escapes markup and the closing braces inside {{ }}', () => {
+      const { after, reread } = patchString(
+        'Interpolation.vue',
+        `<template>\n  <p>{{ 'Old text' }}</p>\n</template>\n`,
+        'Old text',
+        'a < b & }}'
+      );
+      assert.equal(after, 'a &lt; b &amp; }\\x7d');
+      assert.equal(reread, 'a < b & }}');
+    });
+
+    it('escapes markup in template text', () => {
+      const { after, reread } = patchString('Text.vue', '<template>\n  <p>Old text</p>\n</template>\n', 'Old text', 'a < b');
+      assert.equal(after, 'a &lt; b');
+      assert.equal(reread, 'a < b');
+    });
+  });
+
+  describe('Svelte and Astro', () => {
+    it('escapes a braced attribute literal for JavaScript only', () => {
+      const { after, reread } = patchString('Braced.svelte', "<img alt={'Old alt'} />\n", 'Old alt', TRICKY);
+      assert.equal(after, 'Say "hi" & <b>');
+      assert.equal(reread, TRICKY);
+    });
+
+    it('escapes braces in quoted attributes, which interpolate', () => {
+      const { after, reread } = patchString('Quoted.svelte', '<img alt="Old alt" />\n', 'Old alt', 'Sets } "now" {');
+      assert.equal(after, 'Sets &#125; &quot;now&quot; &#123;');
+      assert.equal(reread, 'Sets } "now" {');
+    });
+
+    it('escapes braces in Astro text', () => {
+      const { after, reread } = patchString(
+        'Page.astro',
+        '---\nconst title = "x";\n---\n<h1>Old headline</h1>\n',
+        'Old headline',
+        'Ship } faster {'
+      );
+      assert.equal(after, 'Ship &#125; faster &#123;');
+      assert.equal(reread, 'Ship } faster {');
+    });
+  });
+
+  describe('translation files', () => {
+    const patchTranslation = (name: string, source: string, key: string, original: string, variant: string) => {
+      const file = write(name, source);
+      const patch = createSourcePatch(
+        [recommendation({ originalContent: original, bestVariant: variant, file, translationKey: key })],
+        { root: directory }
+      );
+      assert.deepEqual(patch.skipped, []);
+      const entry = parseTranslationFile(file, patch.files[file]).find((candidate) => candidate.key === key);
+      return { after: patch.edits[0].after, reread: entry?.value };
+    };
+
+    it('escapes JSON strings', () => {
+      const { after, reread } = patchTranslation('locales/en.json', '{"hero": {"cta": "Start"}}\n', 'hero.cta', 'Start', TRICKY);
+      assert.equal(after, 'Say \\"hi\\" & <b>');
+      assert.equal(reread, TRICKY);
+    });
+
+    it('quotes plain YAML scalars that need it', () => {
+      const { after, reread } = patchTranslation('config/locales/en.yml', 'en:\n  cta: Start\n', 'cta', 'Start', 'Start: now');
+      assert.equal(after, '"Start: now"');
+      assert.equal(reread, 'Start: now');
+    });
+
+    it('escapes gettext strings', () => {
+      const { after, reread } = patchTranslation('i18n/fr.po', 'msgid "Start"\nmsgstr "Commencer"\n', 'Start', 'Commencer', TRICKY);
+      assert.equal(after, 'Say \\"hi\\" & <b>');
+      assert.equal(reread, TRICKY);
+    });
+
+    it('escapes every ampersand in XLIFF', () => {
+      const { after, reread } = patchTranslation(
+        'i18n/messages.xlf',
+        '<xliff version="1.2"><file><body><trans-unit id="cta"><source>Start</source></trans-unit></body></file></xliff>\n',
+        'cta',
+        'Start',
+        TRICKY
+      );
+      assert.equal(after, 'Say "hi" &amp; &lt;b&gt;');
+      assert.equal(reread, TRICKY);
+    });
+  });
+
+  describe('finding the string', () => {
+    const source = 'export const A = () => (\n  <div>\n    <button>Go</button>\n    <button>Go</button>\n  </div>\n);\n';
+
+    it('patches the occurrence at the recorded position', () => {
+      const file = write('Twice.tsx', source);
+      const patch = createSourcePatch(
+        [recommendation({ originalContent: 'Go', bestVariant: 'Start now', file, lineNumber: 4, column: 13 })],
+        { root: directory }
+      );
+      assert.equal(patch.edits[0].line, 4);
+    });
+
+    it('skips a recommendation whose position no longer holds the string, even when the text is elsewhere', () => {
+      const file = write('Moved.tsx', 'export const A = () => (\n  <div>\n    <button>Go</button>\n  </div>\n);\n');
+      const patch = createSourcePatch(
+        [recommendation({ originalContent: 'Go', bestVariant: 'Start now', file, lineNumber: 4, column: 13 })],
+        { root: directory }
+      );
+      assert.equal(patch.edits.length, 0);
+      assert.match(patch.skipped[0].reason, /the string at line 4 no longer matches "Go"/);
+    });
+
+    it('uses the only occurrence when no position was recorded', () => {
+      const file = write('Once.tsx', 'export const A = () => <button>Go</button>;\n');
+      const patch = createSourcePatch([recommendation({ originalContent: 'Go', bestVariant: 'Start now', file })], {
+        root: directory,
+      });
+      assert.equal(patch.edits[0].after, 'Start now');
+    });
+
+    it('skips a variant that drops a placeholder', () => {
+      const template = write('Greeting.tsx', 'export const A = ({ name }) => <p>{`Hi ${name}`}</p>;\n');
+      const dropped = createSourcePatch([recommendation({ originalContent: 'Hi {name}', bestVariant: 'Hello', file: template })], {
+        root: directory,
+      });
+      assert.match(dropped.skipped[0].reason, /does not keep the placeholders/);
+    });
+  });
+
+  describe('diff', () => {
+    it('is a unified diff with paths relative to the root', () => {
+      const file = write('Diff.tsx', 'export const A = () => (\n  <div>\n    <button>Go</button>\n  </div>\n);\n');
+      const patch = createSourcePatch([recommendation({ originalContent: 'Go', bestVariant: 'Start now', file })], {
+        root: directory,
+      });
+      assert.equal(
+        patch.diff,
+        [
+          'diff --git a/Diff.tsx b/Diff.tsx',
+          '--- a/Diff.tsx',
+          '+++ b/Diff.tsx',
+          '@@ -1,5 +1,5 @@',
+          ' export const A = () => (',
+          '   <div>',
+          '-    <button>Go</button>',
+          '+    <button>Start now</button>',
+          '   </div>',
+          ' );',
+          '',
+        ].join('\n')
+      );
+    });
+  });
+});
@@ -0,0 +1,553 @@
+/**
+ * Source patches for recommendations
+ *
+ * The winning variant of a string found by the codebase scanner is written back where the
+ * string was found: the JSX or component text, prop value or string literal at the recorded
+ * line and column, or the value of the recorded translation key. Only the string's own
+ * characters are replaced, escaped for where they stand, so the formatting around them is
+ * kept. A recommendation is skipped when its original string is no longer in the file, or
+ * when the variant drops or adds an interpolation placeholder. The edits come back as a
+ * unified diff that `git apply` accepts.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Recommendation } from './artifact';
+import { parseTranslationFile, TranslationEntry, TranslationFileError } from '../scanner/locale-parser';
+import { extractMarkupStrings } from '../scanner/markup-extractor';
+import { placeholdersOf } from '../scanner/source-index';
+import { extractJsxStrings, ExtractedString, extractScriptStrings } from '../scanner/source-extractor';
+
+export interface SourceEdit {
+  recommendation: Recommendation;
+  /** The file as the recommendation names it */
+  file: string;
+  /** 1-based position of the replaced string */
+  line: number;
+  column: number;
+  /** Source offsets of the replaced string */
+  start: number;
+  end: number;
+  /** The string as written in the file, and its replacement */
+  before: string;
+  after: string;
+}
+
+export interface SkippedRecommendation {
+  recommendation: Recommendation;
+  reason: string;
+}
+
+export interface SourcePatch {
+  edits: SourceEdit[];
+  skipped: SkippedRecommendation[];
+  /** New contents of each changed file, by absolute path */
+  files: Record<string, string>;
+  /** Unified diff of every change, with paths relative to the root */
+  diff: string;
+}
+
+export interface SourcePatchOptions {
+  /**
+   * Directory relative recommendation paths are read from and the paths in the diff are
+   * relative to, usually the repository root (default: the working directory)
+   */
+  root?: string;
+}
+
+/**
+ * Thrown when a recommendation cannot be applied to its source file
+ */
+export class SourcePatchError extends Error {
+  constructor(
+    public readonly file: string,
+    message: string
+  ) {
+    super(`${file}: ${message}`);
+    this.name = 'SourcePatchError';
+  }
+}
+
+/**
+ * Unchanged lines shown around each change in the diff
+ */
+const CONTEXT_LINES = 3;
+
+/**
+ * Replaces the original strings of codebase recommendations with their best variants
+ *
+ * Recommendations are applied in order; one that overlaps an earlier change is skipped.
+ * Relative paths are read from the root, and files are not written; see writeSourcePatch.
+ *
+ * @returns The edits, the skipped recommendations with their reasons, and the diff
+ */
+export function createSourcePatch(recommendations: Recommendation[], options: SourcePatchOptions = {}): SourcePatch {
+  const root = path.resolve(options.root || process.cwd());
+  const sources = new Map<string, string>();
+  const edits: SourceEdit[] = [];
+  const skipped: SkippedRecommendation[] = [];
+
+  for (const recommendation of recommendations) {
+    if (!recommendation.file) {
+      skipped.push({ recommendation, reason: 'no source file (website recommendations are applied by selector)' });
+      continue;
+    }
+
+    try {
+      const file = path.resolve(root, recommendation.file);
+      if (!sources.has(file)) {
+        if (!fs.existsSync(file)) {
+          throw new SourcePatchError(recommendation.file, 'file not found');
+        }
+        sources.set(file, fs.readFileSync(file, 'utf-8'));
+      }
+
+      const edit = createEdit(recommendation, recommendation.file, sources.get(file)!);
+      const overlap = edits.find(
+        (other) => path.resolve(root, other.file) === file && other.start < edit.end && edit.start < other.end
+      );
+      if (overlap) {
+        throw new SourcePatchError(recommendation.file, `overlaps the change at line ${overlap.line}`);
+      }
+      edits.push(edit);
+    } catch (error: any) {
+      if (!(error instanceof SourcePatchError || error instanceof TranslationFileError)) {
+        throw error;
+      }
+      skipped.push({ recommendation, reason: error.message });
+    }
+  }
+
+  const files: Record<string, string> = {};
+  const diffs: string[] = [];
+  for (const [file, before] of sources) {
+    const fileEdits = edits.filter((edit) => path.resolve(root, edit.file) === file).sort((a, b) => a.start - b.start);
+    if (fileEdits.length === 0) {
+      continue;
+    }
+    const name = path.relative(root, file).split(path.sep).join('/');
+    const { after, diff } = unifiedDiff(name, before, fileEdits);
+    files[file] = after;
+    diffs.push(diff);
+  }
+
+  return { edits, skipped, files, diff: diffs.join('') };
+}
+
+/**
+ * Writes the changed files of a patch in place
+ *
+ * @returns The written paths
+ */
+export function writeSourcePatch(patch: SourcePatch): string[] {
+  for (const [file, contents] of Object.entries(patch.files)) {
+    fs.writeFileSync(file, contents, 'utf-8');
+  }
+
+  return Object.keys(patch.files);
+}
+
+/**
+ * Finds a recommendation's original string in its file and encodes the variant in its place
+ */
+function createEdit(recommendation: Recommendation, file: string, source: string): SourceEdit {
+  const target = recommendation.translationKey
+    ? findTranslation(recommendation, file, source)
+    : findString(recommendation, file, source);
+
+  const original = placeholdersOf(target.text).map(compactPlaceholder).sort();
+  const variant = placeholdersOf(recommendation.bestVariant).map(compactPlaceholder).sort();
+  if (original.join('\0') !== variant.join('\0')) {
+    throw new SourcePatchError(
+      file,
+      `the variant ${JSON.stringify(recommendation.bestVariant)} does not keep the placeholders of ${JSON.stringify(target.text)}`
+    );
+  }
+
+  const before = source.slice(target.start, target.end);
+  const after = target.encode(recommendation.bestVariant);
+  if (after === before) {
+    throw new SourcePatchError(file, `line ${target.line} already reads ${JSON.stringify(recommendation.bestVariant)}`);
+  }
+
+  return {
+    recommendation,
+    file,
+    line: target.line,
+    column: target.column,
+    start: target.start,
+    end: target.end,
+    before,
+    after,
+  };
+}
+
+interface PatchTarget {
+  /** The string as extracted, to compare placeholders with */
+  text: string;
+  line: number;
+  column: number;
+  start: number;
+  end: number;
+  /** Writes a text the way the string is written in the source */
+  encode: (text: string) => string;
+}
+
+/**
+ * The extracted string a recommendation was made for: the one at its recorded position,
+ * or, for content found without a position, the only one with its text
+ */
+function findString(recommendation: Recommendation, file: string, source: string): PatchTarget {
+  const strings =
+    extractJsxStrings(file, source) ?? extractMarkupStrings(file, source) ?? extractScriptStrings(file, source);
+  if (!strings) {
+    throw new SourcePatchError(file, 'only script, JSX, Vue, Svelte, Astro and translation files can be patched');
+  }
+
+  const original = recommendation.originalContent;
+  const matching = strings.filter((string) => sameText(string.text, original));
+  // With a recorded position, another string with the same text is not the one the recommendation means
+  const string = recommendation.lineNumber
+    ? matching.find(
+        (candidate) =>
+          candidate.line === recommendation.lineNumber &&
+          (!recommendation.column || candidate.column === recommendation.column)
+      )
+    : matching.length === 1
+      ? matching[0]
+      : undefined;
+
+  if (!string) {
+    throw new SourcePatchError(
+      file,
+      recommendation.lineNumber
+        ? `the string at line ${recommendation.lineNumber} no longer matches ${JSON.stringify(original)}`
+        : matching.length > 1
+          ? `${JSON.stringify(original)} appears ${matching.length} times and no position was recorded`
+          : `${JSON.stringify(original)} was not found`
+    );
+  }
+
+  return { ...string, encode: stringEncoder(string, file, source) };
+}
+
+/**
+ * The translation value a recommendation was made for, in the file the scanner took it from
+ */
+function findTranslation(recommendation: Recommendation, file: string, source: string): PatchTarget {
+  const key = recommendation.translationKey!;
+  const entries = parseTranslationFile(file, source).filter(
+    (entry) => (entry.namespace ? `${entry.namespace}:${entry.key}` : entry.key) === key
+  );
+  if (entries.length === 0) {
+    throw new SourcePatchError(file, `translation key ${key} was not found`);
+  }
+
+  const entry = entries.find((candidate) => sameText(candidate.value, recommendation.originalContent));
+  if (!entry) {
+    throw new SourcePatchError(
+      file,
+      `translation key ${key} now reads ${JSON.stringify(entries[0].value)}, not ${JSON.stringify(recommendation.originalContent)}`
+    );
+  }
+
+  return {
+    text: entry.value,
+    line: entry.line,
+    column: entry.column,
+    start: entry.start,
+    end: entry.end,
+    encode: translationEncoder(entry, source),
+  };
+}
+
+/**
+ * How to write text in place of an extracted JSX or component string
+ */
+function stringEncoder(string: ExtractedString, file: string, source: string): (text: string) => string {
+  const extension = path.extname(file).toLowerCase();
+  // Svelte and Astro interpolate braces in text and attribute values
+  const interpolates = extension === '.svelte' || extension === '.astro';
+  const quote = source[string.start - 1];
+
+  if (string.kind === 'text') {
+    return (text) => keepPlaceholders(text, string.text, (literal) => escapeMarkup(literal, { braces: true }));
+  }
+
+  // A script's `const title = "..."` is not a markup attribute
+  const attribute =
+    string.kind === 'prop' &&
+    (quote === '"' || quote === "'") &&
+    /=\s*$/.test(source.slice(Math.max(0, string.start - 40), string.start - 1));
+  if (attribute) {
+    return (text) =>
+      keepPlaceholders(text, string.text, (literal) => escapeMarkup(literal, { braces: interpolates, quote }));
+  }
+
+  if (quote === '"' || quote === "'" || quote === '`') {
+    // Vue decodes entities in bound attributes and {{ }} before evaluating the expression,
+    // which ends at the attribute's quote or at "}}"; Svelte and Astro braces hold plain code
+    const escape =
+      extension !== '.vue'
+        ? (literal: string) => escapeJs(literal, quote)
+        : string.kind === 'prop'
+          ? (literal: string) =>
+              escapeMarkup(escapeJs(literal, quote), { xml: true, quote: attributeQuote(source, string.start - 1, quote) })
+          : (literal: string) => escapeMarkup(escapeJs(literal, quote), { xml: true }).replace(/\}\}/g, '}\\x7d');
+    return (text) =>
+      keepPlaceholders(
+        text,
+        string.text,
+        escape,
+        // Substitutions are extracted as {expression}
+        string.template ? (placeholder) => `$${placeholder}` : undefined
+      );
+  }
+
+  // Unquoted attribute value
+  return (text) =>
+    `"${keepPlaceholders(text, string.text, (literal) => escapeMarkup(literal, { braces: interpolates, quote: '"' }))}"`;
+}
+
+/**
+ * The quote of the markup attribute a bound literal stands in: the one the literal's own
+ * quote cannot be, or for a template literal the one opened after the nearest "="
+ */
+function attributeQuote(source: string, position: number, quote: string): string {
+  if (quote !== '`') {
+    return quote === '"' ? "'" : '"';
+  }
+  const tag = source.slice(source.lastIndexOf('<', position), position);
+  return /=\s*(["'])(?:(?!\1)[^])*$/.exec(tag)?.[1] ?? '"';
+}
+
+/**
+ * How to write text in place of a translation value, in the style the value is written in
+ */
+function translationEncoder(entry: TranslationEntry, source: string): (text: string) => string {
+  const quote = source[entry.start - 1];
+  const escaped = (escape: (literal: string) => string) => (text: string) => keepPlaceholders(text, entry.value, escape);
+
+  switch (entry.format) {
+    case 'json':
+      return escaped((literal) => JSON.stringify(literal).slice(1, -1));
+
+    case 'module':
+      return escaped((literal) => escapeJs(literal, quote));
+
+    case 'po':
+      return escaped((literal) =>
+        literal.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\t/g, '\\t')
+      );
+
+    case 'xliff': {
+      const raw = source.slice(entry.start, entry.end);
+      const [, leading, inner, trailing] = /^(\s*)([\s\S]*?)(\s*)$/.exec(raw)!;
+      if (/^<!\[CDATA\[/.test(inner)) {
+        return (text) => {
+          if (text.includes(']]>')) {
+            throw new SourcePatchError(entry.file, `cannot write "]]>" into the CDATA section of ${entry.key}`);
+          }
+          return `${leading}<![CDATA[${text}]]>${trailing}`;
+        };
+      }
+      if (/<[^>]+>/.test(inner)) {
+        throw new SourcePatchError(entry.file, `${entry.key} contains inline markup and must be edited by hand`);
+      }
+      return (text) => `${leading}${keepPlaceholders(text, entry.value, (literal) => escapeMarkup(literal, { xml: true }))}${trailing}`;
+    }
+
+    case 'yaml': {
+      if (quote === '"') {
+        return escaped((literal) => JSON.stringify(literal).slice(1, -1));
+      }
+      if (quote === "'") {
+        return (text) => {
+          if (text.includes('\n')) {
+            throw new SourcePatchError(entry.file, `cannot write a line break into the single-quoted value of ${entry.key}`);
+          }
+          return text.replace(/'/g, "''");
+        };
+      }
+
+      // Block scalars start on their own line; the following lines take the same indent
+      const lineStart = source.lastIndexOf('\n', entry.start - 1) + 1;
+      const indent = source.slice(lineStart, entry.start);
+      if (/^[ \t]*$/.test(indent)) {
+        return (text) => text.split('\n').join(`\n${indent}`);
+      }
+      return (text) => (isPlainYaml(text) ? text : JSON.stringify(text));
+    }
+  }
+}
+
+/**
+ * Escapes the text around the placeholders an original string has, leaving those as they are
+ *
+ * @param rewrite Turns a kept placeholder into source, e.g. "{name}" into "${name}"
+ */
+function keepPlaceholders(
+  text: string,
+  original: string,
+  escape: (literal: string) => string,
+  rewrite: (placeholder: string) => string = (placeholder) => placeholder
+): string {
+  const kept = new Set(placeholdersOf(original).map(compactPlaceholder));
+  let result = '';
+  let offset = 0;
+  for (const placeholder of placeholdersOf(text)) {
+    const index = text.indexOf(placeholder, offset);
+    result += escape(text.slice(offset, index));
+    result += kept.has(compactPlaceholder(placeholder)) ? rewrite(placeholder) : escape(placeholder);
+    offset = index + placeholder.length;
+  }
+
+  return result + escape(text.slice(offset));
+}
+
+/**
+ * Escapes text for HTML or JSX, where a lone "&" is literal, or for XML, where it is not
+ */
+function escapeMarkup(text: string, options: { braces?: boolean; quote?: string; xml?: boolean }): string {
+  let escaped = text.replace(options.xml ? /&/g : /&(?=#?\w+;)/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  if (options.braces) {
+    escaped = escaped.replace(/\{/g, '&#123;').replace(/\}/g, '&#125;');
+  }
+  if (options.quote === '"') {
+    escaped = escaped.replace(/"/g, '&quot;');
+  } else if (options.quote === "'") {
+    escaped = escaped.replace(/'/g, '&#39;');
+  }
+
+  return escaped;
+}
+
+function escapeJs(text: string, quote: string): string {
+  const escaped = text.replace(/\\/g, '\\\\');
+  if (quote === '`') {
+    return escaped.replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+  }
+
+  return escaped
+    .replace(new RegExp(quote, 'g'), `\\${quote}`)
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+/**
+ * Whether text can be written as a plain (unquoted) YAML scalar and read back as the same string
+ */
+function isPlainYaml(text: string): boolean {
+  return (
+    text.length > 0 &&
+    !/^[\s\-?:,[\]{}#&*!|>'"%@`]/.test(text) &&
+    !/(:\s|\s#|:$|\s$|\n)/.test(text) &&
+    !/^(true|false|yes|no|on|off|null|~|[-+]?\d+(\.\d+)?)$/i.test(text)
+  );
+}
+
+function compactPlaceholder(placeholder: string): string {
+  return placeholder.replace(/\s+/g, '');
+}
+
+function sameText(a: string, b: string): boolean {
+  return a.replace(/\s+/g, ' ').trim() === b.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Applies sorted, non-overlapping edits to a file and describes them as a unified diff
+ *
+ * @param name Path of the file in the diff headers
+ */
+function unifiedDiff(name: string, before: string, edits: SourceEdit[]): { after: string; diff: string } {
+  const changes: Array<{ oldFirst: number; oldLast: number; newFirst: number; newLast: number }> = [];
+  let after = '';
+  let cursor = 0;
+  for (const edit of edits) {
+    after += before.slice(cursor, edit.start);
+    const newStart = after.length;
+    after += edit.after;
+    cursor = edit.end;
+
+    const change = {
+      oldFirst: lineAt(before, edit.start),
+      oldLast: lineAt(before, edit.end),
+      newFirst: lineAt(after, newStart),
+      newLast: lineAt(after, after.length),
+    };
+    // Edits on the same line are one change
+    const previous = changes[changes.length - 1];
+    if (previous && change.oldFirst <= previous.oldLast) {
+      previous.oldLast = change.oldLast;
+      previous.newLast = change.newLast;
+    } else {
+      changes.push(change);
+    }
+  }
+  after += before.slice(cursor);
+
+  const oldLines = splitLines(before);
+  const newLines = splitLines(after);
+  const line = (lines: ReturnType<typeof splitLines>, index: number, prefix: string) =>
+    `${prefix}${lines.lines[index]}\n${index === lines.lines.length - 1 && !lines.newline ? '\\ No newline at end of file\n' : ''}`;
+
+  let diff = `diff --git a/${name} b/${name}\n--- a/${name}\n+++ b/${name}\n`;
+  for (let index = 0; index < changes.length; ) {
+    // Changes whose context would touch share a hunk
+    const hunk = [changes[index++]];
+    while (index < changes.length && changes[index].oldFirst - hunk[hunk.length - 1].oldLast <= 2 * CONTEXT_LINES + 1) {
+      hunk.push(changes[index++]);
+    }
+
+    const first = hunk[0];
+    const last = hunk[hunk.length - 1];
+    const oldFrom = Math.max(0, first.oldFirst - CONTEXT_LINES);
+    const oldTo = Math.min(oldLines.lines.length - 1, last.oldLast + CONTEXT_LINES);
+    const newFrom = first.newFirst - (first.oldFirst - oldFrom);
+    const newTo = last.newLast + (oldTo - last.oldLast);
+
+    diff += `@@ -${oldFrom + 1},${oldTo - oldFrom + 1} +${newFrom + 1},${newTo - newFrom + 1} @@\n`;
+    let current = oldFrom;
+    for (const change of hunk) {
+      for (; current < change.oldFirst; current++) {
+        diff += line(oldLines, current, ' ');
+      }
+      for (let removed = change.oldFirst; removed <= change.oldLast; removed++) {
+        diff += line(oldLines, removed, '-');
+      }
+      for (let added = change.newFirst; added <= change.newLast; added++) {
+        diff += line(newLines, added, '+');
+      }
+      current = change.oldLast + 1;
+    }
+    for (; current <= oldTo; current++) {
+      diff += line(oldLines, current, ' ');
+    }
+  }
+
+  return { after, diff };
+}
+
+/**
+ * 0-based line of an offset
+ */
+function lineAt(text: string, offset: number): number {
+  let line = 0;
+  for (let index = text.indexOf('\n'); index !== -1 && index < offset; index = text.indexOf('\n', index + 1)) {
+    line++;
+  }
+
+  return line;
+}
+
+function splitLines(text: string): { lines: string[]; newline: boolean } {
+  const lines = text.split('\n');
+  const newline = lines[lines.length - 1] === '';
+  if (newline) {
+    lines.pop();
+  }
+
+  return { lines, newline };
+}
@@ -0,0 +1,505 @@
+/**
+ * Versioned pipeline artifacts
+ *
+ * Every stage of analyze → generate → simulate → results reads and writes one of these
+ * zod-defined shapes. Files written before schemaVersion existed (or by older versions)
+ * are upgraded with migrateArtifact(), which is what `steelpush migrate` runs.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import type { ScanResult } from '../scanner/advanced-scanner';
+import type { ScanResult as UnifiedScanResult } from '../scanner';
+import type { CodebaseScanResult } from '../scanner/codebase-scanner';
+import type { WebsiteScanResult } from '../scanner/website-scanner';
+import {
+  ContentElementSchema,
+  createContentElement,
+  fromCodeContent,
+  fromOptimizableElement,
+  fromWebsiteContent,
+} from './content-element';
+import type { ContentElement } from './content-element';
+
+export const ARTIFACT_SCHEMA_VERSION = 2;
+
+export const GeneratedVariantSchema = z.object({
+  content: z.string(),
+  // Variants migrated from files that only stored strings have no score
+  score: z.number().min(0).max(1).optional(),
+  reasoning: z.string(),
+});
+
+export const VariantSimulationSchema = z.object({
+  variant: z.string(),
+  clickRate: z.number(),
+  conversionRate: z.number(),
+  improvement: z.string(),
+});
+
+export const ElementVariantsSchema = z.object({
+  original: ContentElementSchema,
+  variants: z.array(GeneratedVariantSchema),
+  /** Per-variant estimates from the ai-only simulation, baseline first */
+  simulationResults: z.array(VariantSimulationSchema).optional(),
+});
+
+export const RecommendationSchema = z.object({
+  type: z.string(),
+  originalContent: z.string(),
+  bestVariant: z.string(),
+  confidence: z.number(),
+  reasoning: z.string(),
+  location: z.string(),
+  /** Source file for codebase recommendations; location is then not a CSS selector */
+  file: z.string().optional(),
+  /** Position of the original string in the file, when it was found by parsing the source */
+  lineNumber: z.number().optional(),
+  column: z.number().optional(),
+  /** Translation key whose value is the original string */
+  translationKey: z.string().optional(),
+  /** Simulated improvement of the best variant, if it was simulated */
+  improvementEstimate: z.string().optional(),
+  rejectionReason: z.string().optional(),
+});
+
+/**
+ * A consent banner or modal found covering a page, reported as a finding of its own
+ */
+export const OverlaySchema = z.object({
+  url: z.string(),
+  kind: z.enum(['consent', 'modal']),
+  /** Consent framework or rule that matched, or "generic" */
+  name: z.string(),
+  selector: z.string(),
+  text: z.string(),
+  dismissal: z.enum(['clicked', 'escape', 'hidden', 'none']),
+});
+
+const artifactBase = {
+  schemaVersion: z.literal(ARTIFACT_SCHEMA_VERSION),
+  source: z.string(),
+  timestamp: z.number(),
+};
+
+export const AnalysisArtifactSchema = z.object({
+  ...artifactBase,
+  stage: z.literal('analysis'),
+  sourceType: z.enum(['website', 'codebase']),
+  /** Pages or files that were scanned */
+  scanned: z.array(z.string()),
+  elements: z.array(ContentElementSchema),
+  /** Pages or files whose analysis failed */
+  failures: z.array(z.object({ target: z.string(), error: z.string() })),
+  /** Consent banners and modals covering the scanned pages (website scans that detect them) */
+  overlays: z.array(OverlaySchema).optional(),
+});
+
+export const VariantsArtifactSchema = z.object({
+  ...artifactBase,
+  stage: z.literal('variants'),
+  /** Path of the analysis the variants were generated from */
+  input: z.string(),
+  elements: z.array(ElementVariantsSchema),
+});
+
+export const SimulationArtifactSchema = z.object({
+  ...artifactBase,
+  stage: z.literal('simulation'),
+  input: z.string(),
+  simulationOptions: z.object({
+    visitorCount: z.number(),
+    personaCount: z.number(),
+    mode: z.enum(['ai-only', 'browser']),
+  }),
+  elements: z.array(ElementVariantsSchema),
+  /** Aggregate metrics from the browser simulation */
+  trafficResults: z.record(z.unknown()).optional(),
+});
+
+export const RecommendationsArtifactSchema = z.object({
+  ...artifactBase,
+  stage: z.literal('recommendations'),
+  input: z.string(),
+  metadata: z.object({
+    totalElements: z.number(),
+    totalRecommendations: z.number(),
+    rejectedRecommendations: z.number(),
+    confidenceThreshold: z.number(),
+    averageConfidence: z.number(),
+    estimatedOverallImprovement: z.string().nullable(),
+  }),
+  recommendations: z.array(RecommendationSchema),
+  rejectedRecommendations: z.array(RecommendationSchema),
+});
+
+export const ArtifactSchema = z.discriminatedUnion('stage', [
+  AnalysisArtifactSchema,
+  VariantsArtifactSchema,
+  SimulationArtifactSchema,
+  RecommendationsArtifactSchema,
+]);
+
+export type Overlay = z.infer<typeof OverlaySchema>;
+export type GeneratedVariant = z.infer<typeof GeneratedVariantSchema>;
+export type VariantSimulation = z.infer<typeof VariantSimulationSchema>;
+export type ElementVariants = z.infer<typeof ElementVariantsSchema>;
+export type Recommendation = z.infer<typeof RecommendationSchema>;
+export type AnalysisArtifact = z.infer<typeof AnalysisArtifactSchema>;
+export type VariantsArtifact = z.infer<typeof VariantsArtifactSchema>;
+export type SimulationArtifact = z.infer<typeof SimulationArtifactSchema>;
+export type RecommendationsArtifact = z.infer<typeof RecommendationsArtifactSchema>;
+export type Artifact = z.infer<typeof ArtifactSchema>;
+export type ArtifactStage = Artifact['stage'];
+
+type ArtifactOfStage<S extends ArtifactStage> = Extract<Artifact, { stage: S }>;
+
+/**
+ * Thrown when a file is not a valid artifact for the stage reading it
+ */
+export class ArtifactError extends Error {
+  constructor(
+    public readonly filePath: string,
+    message: string
+  ) {
+    super(`${filePath}: ${message}`);
+    this.name = 'ArtifactError';
+  }
+}
+
+/**
+ * Returns the schema version of a parsed file; files predating versioning are version 0
+ */
+export function getSchemaVersion(data: any): number {
+  return typeof data?.schemaVersion === 'number' ? data.schemaVersion : 0;
+}
+
+/**
+ * Converts an advanced website scan (elements grouped by page) to an analysis artifact
+ */
+function analysisFromPages(scan: ScanResult): AnalysisArtifact {
+  const pages = scan.data.pages;
+  const overlays = pages.flatMap((page) =>
+    (page.overlays || []).map((overlay) => ({ url: page.pageUrl, ...overlay }))
+  );
+
+  return {
+    schemaVersion: ARTIFACT_SCHEMA_VERSION,
+    stage: 'analysis',
+    source: scan.source,
+    timestamp: scan.timestamp || Date.now(),
+    sourceType: 'website',
+    scanned: pages.map((page) => page.pageUrl),
+    elements: pages.flatMap((page) =>
+      (page.optimizableElements || []).map((element) => fromOptimizableElement(element, page))
+    ),
+    failures: pages
+      .filter((page) => page.analysisError)
+      .map((page) => ({ target: page.pageUrl, error: page.analysisError! })),
+    ...(overlays.length > 0 && { overlays }),
+  };
+}
+
+/**
+ * Converts a codebase scan to an analysis artifact
+ */
+function analysisFromCodebase(scan: CodebaseScanResult & { timestamp?: number }): AnalysisArtifact {
+  return {
+    schemaVersion: ARTIFACT_SCHEMA_VERSION,
+    stage: 'analysis',
+    source: scan.basePath,
+    timestamp: scan.timestamp || Date.now(),
+    sourceType: 'codebase',
+    scanned: scan.scannedFiles || [],
+    elements: scan.content.map(fromCodeContent),
+    failures: (scan.failedFiles || []).map((failure) => ({ target: failure.file, error: failure.error })),
+  };
+}
+
+/**
+ * Converts a Playwright or MCP website scan (a flat content list) to an analysis artifact
+ */
+function analysisFromWebsiteContent(scan: WebsiteScanResult, timestamp?: number): AnalysisArtifact {
+  return {
+    schemaVersion: ARTIFACT_SCHEMA_VERSION,
+    stage: 'analysis',
+    source: scan.baseUrl || '',
+    timestamp: timestamp || Date.now(),
+    sourceType: 'website',
+    scanned: scan.scannedPages || [],
+    elements: scan.content.map(fromWebsiteContent),
+    failures: [],
+  };
+}
+
+/**
+ * Creates the analysis artifact for a fresh website or codebase scan
+ *
+ * @param scan Result of scanWebsiteAdvanced, scan(), scanWebsite() or scanCodebase()
+ * @returns The analysis artifact the generate stage reads
+ */
+export function createAnalysisArtifact(
+  scan: ScanResult | UnifiedScanResult | WebsiteScanResult | CodebaseScanResult
+): AnalysisArtifact {
+  if (!('data' in scan)) {
+    return 'basePath' in scan ? analysisFromCodebase(scan) : analysisFromWebsiteContent(scan);
+  }
+
+  const { data } = scan;
+  if ('pages' in data) {
+    return analysisFromPages(scan as ScanResult);
+  }
+
+  return 'basePath' in data
+    ? analysisFromCodebase({ ...data, timestamp: scan.timestamp })
+    : { ...analysisFromWebsiteContent(data, scan.timestamp), source: scan.source };
+}
+
+/**
+ * Upgrades a file written before schemaVersion existed
+ *
+ * Recognizes the advanced scanner's pages, codebase scans, the website scanners' content
+ * list (with variants and simulationResults appended by the old scripts) and the
+ * unversioned files written by the generate, simulate and results commands. Produces the
+ * current version directly, since scans are converted with the current adapters.
+ */
+function migrateLegacy(data: any): Artifact {
+  const source = data.source || data.basePath || '';
+  const timestamp = data.timestamp || Date.now();
+  const base = { schemaVersion: ARTIFACT_SCHEMA_VERSION, source, timestamp } as const;
+
+  if (Array.isArray(data.recommendations)) {
+    return {
+      ...base,
+      stage: 'recommendations',
+      input: data.originalSimulation || '',
+      metadata: {
+        ...data.metadata,
+        averageConfidence: Number(data.metadata?.averageConfidence) || 0,
+        estimatedOverallImprovement: data.metadata?.estimatedOverallImprovement || null,
+      },
+      recommendations: data.recommendations.map(migrateRecommendation),
+      rejectedRecommendations: (data.rejectedRecommendations || []).map(migrateRecommendation),
+    };
+  }
+
+  if (Array.isArray(data.elements)) {
+    const elements = data.elements.map(upgradeElementVariantsV1);
+
+    if (data.originalVariants || data.simulationOptions) {
+      return {
+        ...base,
+        stage: 'simulation',
+        input: data.originalVariants || '',
+        simulationOptions: data.simulationOptions,
+        elements,
+        trafficResults: data.trafficResults || data.simulationResults,
+      };
+    }
+
+    return { ...base, stage: 'variants', input: data.originalAnalysis || '', elements };
+  }
+
+  if (data.type === 'website' && Array.isArray(data.data?.pages)) {
+    return analysisFromPages(data);
+  }
+
+  if (Array.isArray(data.content) && data.basePath !== undefined) {
+    return analysisFromCodebase(data);
+  }
+
+  if (Array.isArray(data.data?.content)) {
+    const items: any[] = data.data.content;
+
+    if (!items.some((item) => Array.isArray(item.variants))) {
+      return { ...analysisFromWebsiteContent(data.data, timestamp), source };
+    }
+
+    const elements = items.map(fromWebsiteContent);
+
+    const withVariants = items
+      .map((item, index) => ({
+        original: elements[index],
+        variants: (item.variants || []).map((content: string) => ({
+          content,
+          reasoning: 'Migrated from a file without variant reasoning',
+        })),
+        simulationResults: item.simulationResults,
+      }))
+      .filter((element) => element.variants.length > 0);
+
+    if (!items.some((item) => Array.isArray(item.simulationResults))) {
+      return {
+        ...base,
+        stage: 'variants',
+        input: '',
+        elements: withVariants.map(({ original, variants }) => ({ original, variants })),
+      };
+    }
+
+    return {
+      ...base,
+      stage: 'simulation',
+      input: '',
+      simulationOptions: { visitorCount: 0, personaCount: 0, mode: 'ai-only' },
+      elements: withVariants,
+    };
+  }
+
+  throw new Error('unrecognized file format');
+}
+
+function migrateRecommendation(recommendation: any): Recommendation {
+  return {
+    ...recommendation,
+    // Old results files stored a made-up improvement derived from the generator score
+    improvementEstimate: undefined,
+  };
+}
+
+/**
+ * Converts a version 1 element (free-form type, selector doubling as location) to a ContentElement
+ */
+function upgradeElementV1(element: any): ContentElement {
+  const isWebsite = Boolean(element.url);
+
+  return createContentElement({
+    type: element.type,
+    content: element.content,
+    context: element.context,
+    selector: isWebsite ? element.selector : undefined,
+    location: isWebsite ? undefined : element.selector,
+    url: element.url,
+    file: element.file,
+    importance: element.importance,
+    optimizationPotential: element.optimizationPotential,
+    issue: element.issue,
+    recommendation: element.recommendation,
+  });
+}
+
+function upgradeElementVariantsV1(element: any): any {
+  return { ...element, original: upgradeElementV1(element.original) };
+}
+
+/**
+ * Version 2 replaced the pipeline's own element shape with the canonical ContentElement
+ */
+function migrateV1(data: any): any {
+  if (data.stage === 'analysis') {
+    return { ...data, schemaVersion: 2, elements: data.elements.map(upgradeElementV1) };
+  }
+
+  if (data.stage === 'variants' || data.stage === 'simulation') {
+    return { ...data, schemaVersion: 2, elements: data.elements.map(upgradeElementVariantsV1) };
+  }
+
+  return { ...data, schemaVersion: 2 };
+}
+
+/**
+ * Migrations keyed by the version they upgrade from
+ */
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  0: migrateLegacy,
+  1: migrateV1,
+};
+
+/**
+ * Upgrades parsed file contents to the current artifact schema
+ *
+ * @param data Parsed JSON of any known artifact version
+ * @returns The validated artifact at ARTIFACT_SCHEMA_VERSION
+ * @throws Error if the file is newer than this version of Steelpush or not an artifact
+ */
+export function migrateArtifact(data: unknown): Artifact {
+  let version = getSchemaVersion(data);
+  if (version > ARTIFACT_SCHEMA_VERSION) {
+    throw new Error(
+      `schema version ${version} is newer than this version of Steelpush supports (${ARTIFACT_SCHEMA_VERSION})`
+    );
+  }
+
+  // A migration may jump more than one version, so re-read the version after each step
+  let current: any = data;
+  while (version < ARTIFACT_SCHEMA_VERSION) {
+    current = MIGRATIONS[version](current);
+    version = getSchemaVersion(current);
+  }
+
+  const result = ArtifactSchema.safeParse(current);
+  if (!result.success) {
+    throw new Error(`invalid artifact after migration: ${formatIssues(result.error)}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Reads and validates the artifact a stage takes as input
+ *
+ * @param filePath Path of the artifact file
+ * @param stage The stage (or one of the stages) that must have written it
+ * @returns The validated artifact
+ * @throws ArtifactError if the file is outdated, from another stage or invalid
+ */
+export function readArtifact<S extends ArtifactStage>(filePath: string, stage: S | S[]): ArtifactOfStage<S> {
+  const stages: ArtifactStage[] = Array.isArray(stage) ? stage : [stage];
+
+  let data: any;
+  try {
+    data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new ArtifactError(filePath, `could not read JSON: ${error.message}`);
+  }
+
+  const version = getSchemaVersion(data);
+  if (version !== ARTIFACT_SCHEMA_VERSION) {
+    throw new ArtifactError(
+      filePath,
+      version < ARTIFACT_SCHEMA_VERSION
+        ? `schema version ${version} is outdated. Run 'steelpush migrate ${filePath}' to upgrade it.`
+        : `schema version ${version} is newer than this version of Steelpush supports`
+    );
+  }
+
+  if (!stages.includes(data.stage)) {
+    const expected = stages.map((name) => `"${name}"`).join(' or ');
+    throw new ArtifactError(filePath, `expected stage ${expected} but found ${data.stage ? `"${data.stage}"` : 'no stage'}`);
+  }
+
+  const result = ArtifactSchema.safeParse(data);
+  if (!result.success) {
+    throw new ArtifactError(filePath, `invalid ${data.stage} artifact: ${formatIssues(result.error)}`);
+  }
+
+  return result.data as ArtifactOfStage<S>;
+}
+
+/**
+ * Validates an artifact and writes it as JSON
+ *
+ * @param filePath Destination path
+ * @param artifact The artifact to write
+ * @returns The path written to
+ */
+export function writeArtifact(filePath: string, artifact: Artifact): string {
+  // Validate before writing so a broken stage never produces a file the next stage rejects
+  const data = ArtifactSchema.parse(artifact);
+
+  const dir = path.dirname(filePath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
+  return filePath;
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 5)
+    .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+}
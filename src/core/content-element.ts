@@ -0,0 +1,383 @@
+/**
+ * Canonical content element model
+ *
+ * Scanners and analyzers each describe the content they find in their own shape. The
+ * adapters below turn every one of them into a ContentElement with a shared type taxonomy,
+ * so exporters, generators and simulators work the same for any scan.
+ */
+
+import crypto from 'crypto';
+import { z } from 'zod';
+import type { ScanResult as AdvancedScanResult, OptimizableElement, PageContent } from '../scanner/advanced-scanner';
+import type { ScanResult } from '../scanner';
+import type { CodeContent, CodebaseScanResult } from '../scanner/codebase-scanner';
+import type { WebsiteContent, WebsiteScanResult } from '../scanner/website-scanner';
+import type { MarketingContentItem } from '../analyzer/component-analyzer';
+import type { MarketingContent } from '../analyzer/source-code-analyzer';
+import type { ContentLocation } from '../analyzer';
+
+export const CONTENT_TYPES = [
+  'headline',
+  'subheadline',
+  'value-prop',
+  'cta',
+  'description',
+  'feature',
+  'benefit',
+  'testimonial',
+  'social-proof',
+  'pricing',
+  'form',
+  'navigation',
+  'other',
+] as const;
+
+export const ContentTypeSchema = z.enum(CONTENT_TYPES);
+
+export type ContentType = z.infer<typeof ContentTypeSchema>;
+
+const LevelSchema = z.enum(['high', 'medium', 'low']);
+
+/**
+ * Where an element renders on one device of a device matrix scan
+ */
+export const ElementPlacementSchema = z.object({
+  found: z.boolean(),
+  visible: z.boolean(),
+  aboveFold: z.boolean(),
+  top: z.number().optional(),
+  text: z.string().optional(),
+});
+
+/**
+ * Measured box, font and text contrast of an element in the crawl's viewport
+ */
+export const ElementGeometrySchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+  aboveFold: z.boolean(),
+  fontSize: z.number(),
+  fontWeight: z.number(),
+  color: z.string(),
+  backgroundColor: z.string(),
+  contrastRatio: z.number(),
+});
+
+/**
+ * Screenshots of an element found on a website
+ */
+export const ElementScreenshotsSchema = z.object({
+  /** Screenshot cropped to the element */
+  element: z.string().optional(),
+  /** Full-page screenshot with the page's elements boxed and numbered */
+  page: z.string(),
+  /** Number of this element's box on the annotated page */
+  marker: z.number(),
+});
+
+export const ContentElementSchema = z.object({
+  /** Stable id derived from where the element lives and what it says */
+  id: z.string(),
+  type: ContentTypeSchema,
+  /** The label the scanner or model used, when it differs from the canonical type */
+  rawType: z.string().optional(),
+  content: z.string(),
+  /** Surrounding text or page title that helps judge the element */
+  context: z.string(),
+  /** CSS selector on the page (website scans only) */
+  selector: z.string().optional(),
+  /** Whether the selector was checked on the live page ("repaired" when it was found by its text) */
+  selectorStatus: z.enum(['verified', 'repaired', 'unresolved']).optional(),
+  /** Human-readable place, e.g. "hero section" or a component name */
+  location: z.string().optional(),
+  url: z.string().optional(),
+  file: z.string().optional(),
+  lineNumber: z.number().optional(),
+  /** 1-based column, when the position is exact */
+  column: z.number().optional(),
+  /** Key of a translation file value (codebase scans only) */
+  translationKey: z.string().optional(),
+  /** The translation key's value per locale */
+  translations: z.record(z.string()).optional(),
+  importance: LevelSchema.optional(),
+  optimizationPotential: LevelSchema.optional(),
+  issue: z.string().optional(),
+  recommendation: z.string().optional(),
+  /** Rule-based check that reported the issue, e.g. "generic-cta"; unset when a model did */
+  rule: z.string().optional(),
+  /** Placement per device name, for device matrix scans */
+  devices: z.record(ElementPlacementSchema).optional(),
+  /** Measured geometry (website scans only) */
+  geometry: ElementGeometrySchema.optional(),
+  /** Visual prominence from 0 to 1, computed from the geometry */
+  prominence: z.number().optional(),
+  screenshots: ElementScreenshotsSchema.optional(),
+});
+
+export type ElementPlacement = z.infer<typeof ElementPlacementSchema>;
+export type ElementGeometry = z.infer<typeof ElementGeometrySchema>;
+export type ContentElement = z.infer<typeof ContentElementSchema>;
+
+export type ContentElementFields = Omit<ContentElement, 'id' | 'type' | 'rawType'> & { type: string };
+
+/**
+ * Labels used by the scanners and models, mapped to the canonical taxonomy
+ */
+const TYPE_ALIASES: Record<string, ContentType> = {
+  heading: 'headline',
+  title: 'headline',
+  h1: 'headline',
+  hero: 'headline',
+  subheading: 'subheadline',
+  subtitle: 'subheadline',
+  h2: 'subheadline',
+  tagline: 'value-prop',
+  'value-proposition': 'value-prop',
+  valueprop: 'value-prop',
+  slogan: 'value-prop',
+  button: 'cta',
+  'call-to-action': 'cta',
+  link: 'cta',
+  paragraph: 'description',
+  text: 'description',
+  copy: 'description',
+  body: 'description',
+  'product-desc': 'description',
+  'product-description': 'description',
+  review: 'testimonial',
+  quote: 'testimonial',
+  'trust-signal': 'social-proof',
+  logo: 'social-proof',
+  stat: 'social-proof',
+  statistic: 'social-proof',
+  price: 'pricing',
+  plan: 'pricing',
+  input: 'form',
+  signup: 'form',
+  'form-field': 'form',
+  nav: 'navigation',
+  menu: 'navigation',
+  footer: 'navigation',
+};
+
+/**
+ * Maps a free-form content type label onto the canonical taxonomy
+ *
+ * @param raw Label as produced by a scanner or model (e.g. "Heading", "call_to_action", "CTAs")
+ * @returns The canonical type, or "other" if the label is unknown
+ */
+export function normalizeContentType(raw: string): ContentType {
+  const label = raw.trim().toLowerCase().replace(/[\s_]+/g, '-');
+  const singular = label.endsWith('s') ? label.slice(0, -1) : label;
+
+  for (const candidate of [label, singular]) {
+    if ((CONTENT_TYPES as readonly string[]).includes(candidate)) {
+      return candidate as ContentType;
+    }
+    if (TYPE_ALIASES[candidate]) {
+      return TYPE_ALIASES[candidate];
+    }
+  }
+
+  return 'other';
+}
+
+/**
+ * Computes the stable id of an element
+ */
+export function createElementId(element: Omit<ContentElementFields, 'type' | 'context'>): string {
+  const material = JSON.stringify([
+    element.url || element.file || '',
+    element.selector || element.lineNumber || element.location || '',
+    element.content,
+  ]);
+
+  return crypto.createHash('sha1').update(material).digest('hex').substring(0, 12);
+}
+
+/**
+ * Creates a content element, normalizing its type and assigning its id
+ *
+ * @param fields Element fields with the type as labelled by the source
+ * @returns The canonical element
+ */
+export function createContentElement(fields: ContentElementFields): ContentElement {
+  const type = normalizeContentType(fields.type);
+
+  return {
+    id: createElementId(fields),
+    ...fields,
+    type,
+    ...(fields.type !== type && { rawType: fields.type }),
+  };
+}
+
+/**
+ * Adapts an element found by the advanced website scanner
+ */
+export function fromOptimizableElement(
+  element: OptimizableElement,
+  page: Pick<PageContent, 'pageUrl' | 'pageTitle'>
+): ContentElement {
+  return createContentElement({
+    type: element.type,
+    content: element.content,
+    context: page.pageTitle,
+    selector: element.selector,
+    ...(element.selectorStatus && { selectorStatus: element.selectorStatus }),
+    location: element.location,
+    url: page.pageUrl,
+    importance: element.importance,
+    optimizationPotential: element.optimizationPotential,
+    issue: element.issue,
+    recommendation: element.recommendation,
+    ...(element.rule && { rule: element.rule }),
+    ...(element.devices && { devices: element.devices }),
+    ...(element.geometry && { geometry: element.geometry, prominence: element.prominence }),
+    ...(element.screenshots && { screenshots: element.screenshots }),
+  });
+}
+
+/**
+ * Describes how an element's visibility, position and text differ between devices
+ *
+ * @returns One sentence per difference; empty when the element renders alike everywhere
+ *   or was measured on fewer than two devices
+ */
+export function findDeviceDifferences(element: ContentElement): string[] {
+  const placements = Object.entries(element.devices || {});
+  if (placements.length < 2) {
+    return [];
+  }
+
+  const differences: string[] = [];
+  const names = (filter: (placement: ElementPlacement) => boolean) =>
+    placements.filter(([, placement]) => filter(placement)).map(([device]) => device).join(', ');
+
+  const visible = placements.filter(([, placement]) => placement.visible);
+  if (visible.length > 0 && visible.length < placements.length) {
+    differences.push(
+      `Visible on ${names((placement) => placement.visible)}; ` +
+        `hidden or missing on ${names((placement) => !placement.visible)}`
+    );
+  }
+
+  const aboveFold = visible.filter(([, placement]) => placement.aboveFold);
+  if (aboveFold.length > 0 && aboveFold.length < visible.length) {
+    differences.push(
+      `Above the fold on ${names((placement) => placement.visible && placement.aboveFold)}; ` +
+        `below it on ${names((placement) => placement.visible && !placement.aboveFold)}`
+    );
+  }
+
+  const texts = new Set(
+    placements.filter(([, placement]) => placement.found).map(([, placement]) => placement.text || '')
+  );
+  if (texts.size > 1) {
+    differences.push(
+      `Text differs: ${placements
+        .filter(([, placement]) => placement.found)
+        .map(([device, placement]) => `${device}: "${placement.text || ''}"`)
+        .join('; ')}`
+    );
+  }
+
+  return differences;
+}
+
+/**
+ * Adapts content found by the website scanners (Playwright and MCP variants)
+ */
+export function fromWebsiteContent(item: WebsiteContent): ContentElement {
+  return createContentElement({
+    type: item.type,
+    content: item.content,
+    context: item.location,
+    location: item.location,
+    url: item.url,
+    importance: item.importance,
+    optimizationPotential: item.optimizationPotential,
+    issue: item.issue,
+    recommendation: item.recommendation,
+  });
+}
+
+/**
+ * Adapts content found by the codebase scanner
+ */
+export function fromCodeContent(item: CodeContent): ContentElement {
+  return createContentElement({
+    type: item.type,
+    content: item.content,
+    context: item.location,
+    location: item.location,
+    file: item.file,
+    lineNumber: item.lineNumber,
+    ...(item.column && { column: item.column }),
+    ...(item.translationKey && { translationKey: item.translationKey }),
+    ...(item.translations && { translations: item.translations }),
+    importance: item.importance,
+    optimizationPotential: item.optimizationPotential,
+    ...(item.issue && { issue: item.issue, recommendation: item.recommendation }),
+    ...(item.rule && { rule: item.rule }),
+  });
+}
+
+/**
+ * Adapts marketing content found by the component and source code analyzers
+ */
+export function fromMarketingContent(item: MarketingContentItem | MarketingContent): ContentElement {
+  return createContentElement({
+    type: item.type,
+    content: item.content,
+    context: item.context,
+    file: 'path' in item ? item.path : item.file,
+    lineNumber: item.lineNumber,
+    ...('column' in item && item.column && { column: item.column }),
+  });
+}
+
+/**
+ * Adapts a content location found by the website-to-codebase analyzer
+ */
+export function fromContentLocation(location: ContentLocation): ContentElement {
+  return createContentElement({
+    // The location type says where the text lives (component, translation, ...), not what it is
+    type: 'other',
+    content: location.content,
+    context: location.context,
+    location: location.framework ? `${location.type} (${location.framework})` : location.type,
+    file: location.file,
+    lineNumber: location.lineNumber,
+    ...(location.column && { column: location.column }),
+    ...(location.translationKey && { translationKey: location.translationKey }),
+    ...(location.url && { url: location.url }),
+    ...(location.selector && { selector: location.selector }),
+  });
+}
+
+/**
+ * Extracts the content elements of any scan result
+ *
+ * @param scan Result of scanWebsiteAdvanced, scan(), scanWebsite() or scanCodebase()
+ * @returns The elements in canonical form
+ */
+export function toContentElements(
+  scan: AdvancedScanResult | ScanResult | WebsiteScanResult | CodebaseScanResult
+): ContentElement[] {
+  const data = 'data' in scan ? scan.data : scan;
+
+  if ('pages' in data) {
+    return data.pages.flatMap(page =>
+      (page.optimizableElements || []).map(element => fromOptimizableElement(element, page))
+    );
+  }
+
+  if ('basePath' in data) {
+    return data.content.map(fromCodeContent);
+  }
+
+  return data.content.map(fromWebsiteContent);
+}
@@ -1,9 +1,9 @@
-export interface OptimizableElement {
-  type: 'headline' | 'cta' | 'value-prop' | 'product-desc' | 'form';
-  selector: string;
-  content: string;
-  context: string;
-}
+import type { ContentElement } from './content-element';
+
+/**
+ * @deprecated Use ContentElement from core/content-element
+ */
+export type OptimizableElement = ContentElement;
 
 export interface ContentVariant {
   original: string;
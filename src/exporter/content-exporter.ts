@@ -1,6 +1,7 @@
 import fs from "fs";
 import path from "path";
-import { MarketingContentItem } from "../analyzer/component-analyzer";
+import { ContentElement } from "../core/content-element";
+import { markdownTable, toCsv } from "./format";
 
 export interface ExportOptions {
   format: "json" | "csv" | "markdown";
@@ -11,12 +12,12 @@ export interface ExportOptions {
 /**
  * Exports marketing content analysis results to a file
  *
- * @param content The marketing content items to export
+ * @param content The content elements to export
  * @param options Export options including format and output path
  * @returns Promise resolving to the path of the exported file
  */
 export async function exportMarketingContent(
-  content: MarketingContentItem[],
+  content: ContentElement[],
   options: ExportOptions,
 ): Promise<string> {
   const { format, outputPath, includeContext = true } = options;
@@ -55,7 +56,7 @@ export async function exportMarketingContent(
  * Export content as JSON format
  */
 function exportAsJSON(
-  content: MarketingContentItem[],
+  content: ContentElement[],
   includeContext: boolean,
 ): string {
   if (!includeContext) {
@@ -78,69 +79,60 @@ function exportAsJSON(
  * Export content as CSV format
  */
 function exportAsCSV(
-  content: MarketingContentItem[],
+  content: ContentElement[],
   includeContext: boolean,
 ): string {
   // Define headers based on whether context is included
   const headers = includeContext
-    ? ["file", "content", "type", "context", "lineNumber"]
-    : ["file", "content", "type", "lineNumber"];
+    ? ["source", "content", "type", "context", "lineNumber"]
+    : ["source", "content", "type", "lineNumber"];
 
-  // Create header row
-  let csv = headers.join(",") + "\n";
-
-  // Add content rows
-  content.forEach((item) => {
-    const escapedContent = item.content.replace(/"/g, '""');
-
-    if (includeContext) {
-      const escapedContext = item.context.replace(/"/g, '""');
-      csv += `"${item.file}","${escapedContent}","${item.type}","${escapedContext}",${item.lineNumber}\n`;
-    } else {
-      csv += `"${item.file}","${escapedContent}","${item.type}",${item.lineNumber}\n`;
-    }
-  });
+  const rows = content.map((item) =>
+    includeContext
+      ? [getElementSource(item), item.content, item.type, item.context, item.lineNumber]
+      : [getElementSource(item), item.content, item.type, item.lineNumber],
+  );
 
-  return csv;
+  return toCsv([headers, ...rows]);
 }
 
 /**
  * Export content as Markdown format
  */
 function exportAsMarkdown(
-  content: MarketingContentItem[],
+  content: ContentElement[],
   includeContext: boolean,
 ): string {
   // Create header
   let markdown = "# Marketing Content Analysis\n\n";
 
-  // Group content by file
-  const contentByFile: Record<string, MarketingContentItem[]> = {};
+  // Group content by file or page
+  const contentByFile: Record<string, ContentElement[]> = {};
 
   content.forEach((item) => {
-    if (!contentByFile[item.file]) {
-      contentByFile[item.file] = [];
+    const source = getElementSource(item);
+    if (!contentByFile[source]) {
+      contentByFile[source] = [];
     }
-    contentByFile[item.file].push(item);
+    contentByFile[source].push(item);
   });
 
   // Generate markdown for each file
   Object.entries(contentByFile).forEach(([file, items]) => {
     markdown += `## ${file}\n\n`;
 
-    // Create table headers
-    markdown += includeContext
-      ? "| Content | Type | Context | Line |\n| --- | --- | --- | --- |\n"
-      : "| Content | Type | Line |\n| --- | --- | --- |\n";
-
-    // Add table rows
-    items.forEach((item) => {
-      if (includeContext) {
-        markdown += `| ${item.content} | ${item.type} | ${item.context} | ${item.lineNumber} |\n`;
-      } else {
-        markdown += `| ${item.content} | ${item.type} | ${item.lineNumber} |\n`;
-      }
-    });
+    const headers = includeContext
+      ? ["Content", "Type", "Context", "Line"]
+      : ["Content", "Type", "Line"];
+
+    markdown += markdownTable(
+      headers,
+      items.map((item) =>
+        includeContext
+          ? [item.content, item.type, item.context, item.lineNumber]
+          : [item.content, item.type, item.lineNumber],
+      ),
+    );
 
     markdown += "\n";
   });
@@ -148,7 +140,7 @@ function exportAsMarkdown(
   // Add summary
   markdown += `## Summary\n\n`;
   markdown += `- Total content items: ${content.length}\n`;
-  markdown += `- Files with content: ${Object.keys(contentByFile).length}\n`;
+  markdown += `- Files or pages with content: ${Object.keys(contentByFile).length}\n`;
   markdown += `- Content types: ${[...new Set(content.map((item) => item.type))].join(", ")}\n`;
 
   return markdown;
@@ -158,11 +150,11 @@ function exportAsMarkdown(
  * Creates a formatted report of marketing content optimization opportunities
  */
 export async function createOptimizationReport(
-  content: MarketingContentItem[],
+  content: ContentElement[],
   outputPath: string,
 ): Promise<string> {
   // Group by content type
-  const contentByType: Record<string, MarketingContentItem[]> = {};
+  const contentByType: Record<string, ContentElement[]> = {};
 
   content.forEach((item) => {
     if (!contentByType[item.type]) {
@@ -192,7 +184,8 @@ export async function createOptimizationReport(
     // Sample items (limit to 3)
     report += "**Examples:**\n\n";
     items.slice(0, 3).forEach((item) => {
-      report += `- **${item.content}** (${item.file}, line ${item.lineNumber})\n`;
+      const line = item.lineNumber ? `, line ${item.lineNumber}` : "";
+      report += `- **${item.content}** (${getElementSource(item)}${line})\n`;
     });
 
     report += "\n";
@@ -205,14 +198,21 @@ export async function createOptimizationReport(
   return outputPath;
 }
 
+/**
+ * Returns the file or page an element was found in
+ */
+function getElementSource(item: ContentElement): string {
+  return item.file || item.url || "unknown";
+}
+
 /**
  * Returns optimization suggestions based on content type
  */
 function getOptimizationSuggestions(type: string): string {
   const suggestions: Record<string, string> = {
-    heading:
+    headline:
       "Headings should be concise, benefit-oriented, and contain relevant keywords. Consider A/B testing variations to improve engagement.",
-    tagline:
+    "value-prop":
       "Taglines should quickly communicate your unique value proposition. They should be memorable and address customer pain points.",
     description:
       "Descriptions should be clear, focused on benefits rather than features, and include strong action words. Keep sentences short and impactful.",
@@ -0,0 +1,44 @@
+/**
+ * Field escaping shared by the exporters
+ */
+
+export type CellValue = string | number | null | undefined;
+
+/**
+ * Escapes a CSV field per RFC 4180
+ *
+ * Fields containing a comma, double quote or line break are wrapped in double quotes,
+ * with embedded double quotes doubled.
+ */
+export function escapeCsvField(value: CellValue): string {
+  const field = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/**
+ * Renders rows as an RFC 4180 CSV document (CRLF line endings, header row first)
+ */
+export function toCsv(rows: CellValue[][]): string {
+  return rows.map((row) => `${row.map(escapeCsvField).join(",")}\r\n`).join("");
+}
+
+/**
+ * Escapes a value for use inside a Markdown table cell
+ */
+export function escapeMarkdownCell(value: CellValue): string {
+  const cell = value === null || value === undefined ? "" : String(value);
+  return cell.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * Renders a Markdown table
+ */
+export function markdownTable(headers: string[], rows: CellValue[][]): string {
+  const lines = [
+    `| ${headers.join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(escapeMarkdownCell).join(" | ")} |`),
+  ];
+
+  return `${lines.join("\n")}\n`;
+}
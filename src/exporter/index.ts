@@ -2,35 +2,46 @@ import {
   exportMarketingContent,
   createOptimizationReport,
 } from "./content-exporter";
+import { exportScanResult, ExportableResult } from "./scan-exporter";
+import { ContentElement } from "../core/content-element";
+
+/**
+ * Routes element lists to the content exporter and whole scans or artifacts to the scan exporter
+ */
+function exportContent(
+  content: ContentElement[] | ExportableResult,
+  format: "json" | "csv" | "markdown",
+  outputPath: string
+): Promise<string> {
+  return Array.isArray(content)
+    ? exportMarketingContent(content, { format, outputPath })
+    : exportScanResult(content, { format, outputPath });
+}
 
 export async function exportContentToJson(
-  content: any,
+  content: ContentElement[] | ExportableResult,
   outputPath: string
 ): Promise<string> {
-  return exportMarketingContent(content, {
-    format: "json",
-    outputPath,
-  });
+  return exportContent(content, "json", outputPath);
 }
 
 export async function exportContentToMarkdown(
-  content: any,
+  content: ContentElement[] | ExportableResult,
   outputPath: string
 ): Promise<string> {
-  return exportMarketingContent(content, {
-    format: "markdown",
-    outputPath,
-  });
+  return exportContent(content, "markdown", outputPath);
 }
 
 export async function exportContentToCsv(
-  content: any,
+  content: ContentElement[] | ExportableResult,
   outputPath: string
 ): Promise<string> {
-  return exportMarketingContent(content, {
-    format: "csv",
-    outputPath,
-  });
+  return exportContent(content, "csv", outputPath);
 }
 
-export { exportMarketingContent, createOptimizationReport };
+export { exportMarketingContent, createOptimizationReport, exportScanResult };
+export type { ExportableResult, ScanExportOptions } from "./scan-exporter";
+export {
+  exportRecommendations,
+  exportImplementationCode,
+} from "./recommendation-exporter";
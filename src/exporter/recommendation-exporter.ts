@@ -0,0 +1,290 @@
+import fs from "fs";
+import path from "path";
+import { Recommendation, RecommendationsArtifact } from "../core/artifact";
+import { toCsv } from "./format";
+
+export interface RecommendationExportOptions {
+  format: "json" | "csv" | "markdown" | "html";
+  outputPath: string;
+}
+
+/**
+ * Exports optimization recommendations to a single file
+ *
+ * @param results The recommendations produced by the results command
+ * @param options Export options including format and output path
+ * @returns Promise resolving to the path of the exported file
+ */
+export async function exportRecommendations(
+  results: RecommendationsArtifact,
+  options: RecommendationExportOptions,
+): Promise<string> {
+  const { format, outputPath } = options;
+
+  // Create output directory if it doesn't exist
+  const outputDir = path.dirname(outputPath);
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  let outputContent: string;
+
+  switch (format) {
+    case "json":
+      outputContent = JSON.stringify(results, null, 2);
+      break;
+    case "csv":
+      outputContent = recommendationsAsCSV(results);
+      break;
+    case "markdown":
+      outputContent = recommendationsAsMarkdown(results);
+      break;
+    case "html":
+      outputContent = recommendationsAsHTML(results);
+      break;
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+
+  fs.writeFileSync(outputPath, outputContent, "utf-8");
+  return outputPath;
+}
+
+/**
+ * Writes a script applying the recommendations plus an implementation guide
+ *
+ * @param results The recommendations produced by the results command
+ * @param outputDir Directory to write js/, html/ and README.md into
+ * @returns Promise resolving to the list of written files
+ */
+export async function exportImplementationCode(
+  results: RecommendationsArtifact,
+  outputDir: string,
+): Promise<string[]> {
+  const jsPath = path.join(outputDir, "js", "steelpush-optimizations.js");
+  const guidePath = path.join(outputDir, "html", "implementation-guide.html");
+  const readmePath = path.join(outputDir, "README.md");
+
+  fs.mkdirSync(path.dirname(jsPath), { recursive: true });
+  fs.mkdirSync(path.dirname(guidePath), { recursive: true });
+
+  // Only website recommendations have a CSS selector; codebase ones point at source files
+  const optimizations = Object.fromEntries(
+    results.recommendations
+      .filter((rec) => !rec.file)
+      .map((rec) => [rec.location, rec.bestVariant]),
+  );
+
+  const js = `/**
+ * Steelpush - Content Optimization Implementation
+ * Generated: ${new Date().toISOString()}
+ */
+
+const optimizations = ${JSON.stringify(optimizations, null, 2)};
+
+function updateOptimizedContent() {
+  Object.entries(optimizations).forEach(([selector, content]) => {
+    const element = document.querySelector(selector);
+    if (element) {
+      element.textContent = content;
+    }
+  });
+}
+
+document.addEventListener("DOMContentLoaded", updateOptimizedContent);
+`;
+
+  const examples = results.recommendations
+    .map(
+      (rec) => `      <div class="example">
+        <h4>${escapeHtml(capitalize(rec.type))} Update</h4>
+        <p>Original: <code>${escapeHtml(rec.originalContent)}</code></p>
+        <p>Optimized: <code>${escapeHtml(rec.bestVariant)}</code></p>
+        <p>Location: <code>${escapeHtml(rec.location)}</code></p>
+      </div>`,
+    )
+    .join("\n");
+
+  const guide = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Steelpush Optimizations Implementation</title>
+</head>
+<body>
+  <h1>Steelpush Optimization Implementation</h1>
+
+  <h2>Option 1: Direct content updates</h2>
+  <p>Replace your current content with the optimized versions:</p>
+${examples}
+
+  <h2>Option 2: JavaScript implementation</h2>
+  <p>Include the generated script on the page:</p>
+  <pre><code>&lt;script src="js/steelpush-optimizations.js"&gt;&lt;/script&gt;</code></pre>
+</body>
+</html>
+`;
+
+  const skipped = results.recommendations.length - Object.keys(optimizations).length;
+  const readme = `# Steelpush Optimization Implementation
+
+This directory contains implementation files for the content optimizations suggested by Steelpush.
+
+- \`html/implementation-guide.html\` lists every recommended change
+- \`js/steelpush-optimizations.js\` applies the website changes by CSS selector
+${skipped > 0 ? `\n${skipped} recommendation(s) point at source files rather than selectors; apply them with \`steelpush apply\`.\n` : ""}`;
+
+  fs.writeFileSync(jsPath, js, "utf-8");
+  fs.writeFileSync(guidePath, guide, "utf-8");
+  fs.writeFileSync(readmePath, readme, "utf-8");
+
+  return [jsPath, guidePath, readmePath];
+}
+
+/**
+ * Export recommendations as CSV format
+ */
+function recommendationsAsCSV(results: RecommendationsArtifact): string {
+  const header = [
+    "Type",
+    "Original Content",
+    "Recommended Content",
+    "Location",
+    "Confidence",
+    "Improvement",
+    "Reasoning",
+  ];
+
+  const rows = results.recommendations.map((rec) => [
+    rec.type,
+    rec.originalContent,
+    rec.bestVariant,
+    rec.location,
+    rec.confidence.toFixed(2),
+    rec.improvementEstimate || "",
+    rec.reasoning,
+  ]);
+
+  return toCsv([header, ...rows]);
+}
+
+/**
+ * Export recommendations as a Markdown report
+ */
+function recommendationsAsMarkdown(results: RecommendationsArtifact): string {
+  const { metadata } = results;
+  let markdown = "# Steelpush Optimization Recommendations\n\n";
+
+  markdown += "## Executive Summary\n\n";
+  markdown += `- **Source**: ${results.source}\n`;
+  markdown += `- **Analyzed**: ${new Date(results.timestamp).toLocaleString()}\n`;
+  markdown += `- **Total recommendations**: ${metadata.totalRecommendations}\n`;
+  markdown += `- **Confidence threshold**: ${metadata.confidenceThreshold}\n`;
+  markdown += `- **Average confidence**: ${metadata.averageConfidence}\n`;
+  markdown += `- **Estimated overall improvement**: ${metadata.estimatedOverallImprovement ?? "not simulated"}\n\n`;
+
+  markdown += "## Top Recommendations\n\n";
+
+  if (results.recommendations.length === 0) {
+    markdown += `No recommendations met the confidence threshold of ${metadata.confidenceThreshold}.\n\n`;
+  }
+
+  for (const rec of sortByConfidence(results.recommendations)) {
+    markdown += `### ${capitalize(rec.type)} Optimization\n\n`;
+    markdown += `**Current Content:**\n\`\`\`\n${rec.originalContent}\n\`\`\`\n\n`;
+    markdown += `**Recommended Change:**\n\`\`\`\n${rec.bestVariant}\n\`\`\`\n\n`;
+    markdown += `**Location:** ${rec.location}\n`;
+    markdown += `**Confidence:** ${rec.confidence.toFixed(2)}\n`;
+    if (rec.improvementEstimate) {
+      markdown += `**Estimated Improvement:** ${rec.improvementEstimate}\n`;
+    }
+    markdown += `**Reasoning:** ${rec.reasoning}\n\n`;
+    markdown += "---\n\n";
+  }
+
+  if (results.rejectedRecommendations.length > 0) {
+    markdown += "## Rejected Recommendations\n\n";
+
+    for (const rec of results.rejectedRecommendations) {
+      markdown += `- **${rec.type}**: "${truncate(rec.originalContent)}" -> "${truncate(rec.bestVariant)}"\n`;
+      markdown += `  - Confidence: ${rec.confidence.toFixed(2)}\n`;
+      markdown += `  - Reason: ${rec.rejectionReason}\n\n`;
+    }
+  }
+
+  return markdown;
+}
+
+/**
+ * Export recommendations as a standalone HTML report
+ */
+function recommendationsAsHTML(results: RecommendationsArtifact): string {
+  const { metadata } = results;
+
+  const cards = sortByConfidence(results.recommendations)
+    .map(
+      (rec) => `    <div class="recommendation">
+      <h3>${escapeHtml(capitalize(rec.type))} Optimization <span class="confidence">${(rec.confidence * 100).toFixed(0)}% confidence</span></h3>
+      <p>Location: <code>${escapeHtml(rec.location)}</code></p>
+      ${rec.improvementEstimate ? `<p>Estimated improvement: ${escapeHtml(rec.improvementEstimate)}</p>` : ""}
+      <div class="comparison">
+        <div><h4>Current Content</h4><p>${escapeHtml(rec.originalContent)}</p></div>
+        <div><h4>Recommended Content</h4><p>${escapeHtml(rec.bestVariant)}</p></div>
+      </div>
+      <p>${escapeHtml(rec.reasoning)}</p>
+    </div>`,
+    )
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Steelpush Optimization Report</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 1200px; margin: 0 auto; padding: 20px; }
+    .summary { background: #f8f9fa; padding: 20px; border-radius: 5px; margin-bottom: 30px; }
+    .recommendation { padding: 20px; border-radius: 5px; box-shadow: 0 2px 5px rgba(0,0,0,0.1); margin-bottom: 20px; }
+    .confidence { background: #e9f7ef; padding: 2px 10px; border-radius: 15px; color: #27ae60; font-size: 0.8em; }
+    .comparison { display: grid; grid-template-columns: 1fr 1fr; gap: 20px; }
+    .comparison > div { background: #f8f9fa; padding: 15px; border-radius: 5px; }
+  </style>
+</head>
+<body>
+  <h1>Steelpush Optimization Report</h1>
+  <p>Generated on ${new Date(results.timestamp).toLocaleString()} for ${escapeHtml(results.source)}</p>
+
+  <div class="summary">
+    <p>Total recommendations: <strong>${metadata.totalRecommendations}</strong></p>
+    <p>Average confidence: <strong>${metadata.averageConfidence}</strong></p>
+    <p>Estimated improvement: <strong>${escapeHtml(metadata.estimatedOverallImprovement ?? "not simulated")}</strong></p>
+  </div>
+
+  <h2>Recommendations</h2>
+${cards}
+</body>
+</html>
+`;
+}
+
+function sortByConfidence(recommendations: Recommendation[]): Recommendation[] {
+  return [...recommendations].sort((a, b) => b.confidence - a.confidence);
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function truncate(value: string, length: number = 50): string {
+  return value.length > length ? `${value.substring(0, length)}...` : value;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
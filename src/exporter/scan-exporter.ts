@@ -0,0 +1,561 @@
+import fs from "fs";
+import path from "path";
+import type { ScanResult as AdvancedScanResult } from "../scanner/advanced-scanner";
+import type { ScanResult } from "../scanner";
+import type { WebsiteScanResult } from "../scanner/website-scanner";
+import type { CodebaseScanResult } from "../scanner/codebase-scanner";
+import {
+  AnalysisArtifact,
+  ElementVariants,
+  SimulationArtifact,
+  createAnalysisArtifact,
+  writeArtifact,
+} from "../core/artifact";
+import { ContentElement, findDeviceDifferences } from "../core/content-element";
+import { markdownTable, toCsv } from "./format";
+
+/**
+ * Anything the scan exporter can render: a raw scan from any scanner, or an analysis or
+ * simulation artifact read back from disk
+ */
+export type ExportableResult =
+  | AdvancedScanResult
+  | ScanResult
+  | WebsiteScanResult
+  | CodebaseScanResult
+  | AnalysisArtifact
+  | SimulationArtifact;
+
+export interface ScanExportOptions {
+  format: "json" | "csv" | "markdown";
+  outputPath: string;
+}
+
+/**
+ * Exports a website scan, codebase scan or simulation to a single file
+ *
+ * Raw scans are first converted to an analysis artifact, so JSON output is always a file
+ * the next pipeline stage can read. Markdown and CSV use a layout per kind of result.
+ *
+ * @param result The scan or artifact to export
+ * @param options Export options including format and output path
+ * @returns Promise resolving to the path of the exported file
+ */
+export async function exportScanResult(
+  result: ExportableResult,
+  options: ScanExportOptions,
+): Promise<string> {
+  const { format, outputPath } = options;
+  const artifact = "stage" in result ? result : createAnalysisArtifact(result);
+
+  if (format === "json") {
+    return writeArtifact(outputPath, artifact);
+  }
+
+  let outputContent: string;
+
+  if (artifact.stage === "simulation") {
+    outputContent =
+      format === "csv"
+        ? simulationAsCSV(artifact)
+        : simulationAsMarkdown(artifact);
+  } else if (artifact.sourceType === "website") {
+    outputContent =
+      format === "csv"
+        ? websiteAsCSV(artifact)
+        : websiteAsMarkdown(artifact, path.dirname(outputPath));
+  } else {
+    outputContent =
+      format === "csv" ? codebaseAsCSV(artifact) : codebaseAsMarkdown(artifact);
+  }
+
+  // Create output directory if it doesn't exist
+  const outputDir = path.dirname(outputPath);
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  fs.writeFileSync(outputPath, outputContent, "utf-8");
+  return outputPath;
+}
+
+/**
+ * Export a website scan as CSV, one row per element
+ */
+function websiteAsCSV(analysis: AnalysisArtifact): string {
+  const header = [
+    "page",
+    "type",
+    "content",
+    "selector",
+    "location",
+    "importance",
+    "optimizationPotential",
+    "issue",
+    "recommendation",
+  ];
+
+  // Device matrix scans get a column describing how each element differs between devices
+  const hasDevices = analysis.elements.some((element) => element.devices);
+  if (hasDevices) {
+    header.push("deviceDifferences");
+  }
+
+  // Measured elements get their position, font and contrast
+  const hasGeometry = analysis.elements.some((element) => element.geometry);
+  if (hasGeometry) {
+    header.push("prominence", "aboveFold", "top", "fontSize", "fontWeight", "contrastRatio");
+  }
+
+  const hasScreenshots = analysis.elements.some((element) => element.screenshots);
+  if (hasScreenshots) {
+    header.push("screenshot", "annotatedPage", "marker");
+  }
+
+  // Findings of the rule-based checks name the rule
+  const hasRules = analysis.elements.some((element) => element.rule);
+  if (hasRules) {
+    header.push("rule");
+  }
+
+  const rows = analysis.elements.map((element) => [
+    element.url,
+    element.type,
+    element.content,
+    element.selector,
+    element.location,
+    element.importance,
+    element.optimizationPotential,
+    element.issue,
+    element.recommendation,
+    ...(hasDevices ? [findDeviceDifferences(element).join("; ")] : []),
+    ...(hasGeometry
+      ? [
+          element.prominence,
+          element.geometry && String(element.geometry.aboveFold),
+          element.geometry?.y,
+          element.geometry?.fontSize,
+          element.geometry?.fontWeight,
+          element.geometry?.contrastRatio,
+        ]
+      : []),
+    ...(hasScreenshots
+      ? [
+          element.screenshots?.element,
+          element.screenshots?.page,
+          element.screenshots?.marker,
+        ]
+      : []),
+    ...(hasRules ? [element.rule] : []),
+  ]);
+
+  return toCsv([header, ...rows]);
+}
+
+/**
+ * Export a website scan as a Markdown report with a section per page
+ */
+function websiteAsMarkdown(analysis: AnalysisArtifact, reportDir: string): string {
+  // Pages without elements still get a section, in the order they were scanned
+  const pages = new Map<string, ContentElement[]>(
+    analysis.scanned.map((page) => [page, []]),
+  );
+  for (const element of analysis.elements) {
+    const page = element.url || "unknown";
+    pages.set(page, [...(pages.get(page) || []), element]);
+  }
+
+  let markdown = "# Website Content Analysis\n\n";
+
+  markdown += `- **Source**: ${analysis.source}\n`;
+  markdown += `- **Analyzed**: ${new Date(analysis.timestamp).toLocaleString()}\n`;
+  markdown += `- **Pages scanned**: ${analysis.scanned.length}\n`;
+  markdown += `- **Elements found**: ${analysis.elements.length}\n`;
+  if (analysis.failures.length > 0) {
+    markdown += `- **Pages that could not be analyzed**: ${analysis.failures.length}\n`;
+  }
+  markdown += "\n";
+
+  for (const [page, elements] of pages) {
+    markdown += `## ${page}\n\n`;
+
+    if (elements.length === 0) {
+      markdown += "No optimizable elements found.\n\n";
+      continue;
+    }
+
+    const hasGeometry = elements.some((element) => element.geometry);
+    markdown += markdownTable(
+      [
+        "Type",
+        "Content",
+        "Selector",
+        "Importance",
+        "Potential",
+        ...(hasGeometry ? ["Position"] : []),
+      ],
+      elements.map((element) => [
+        element.type,
+        element.content,
+        element.selector || element.location,
+        element.importance,
+        element.optimizationPotential,
+        ...(hasGeometry ? [describePosition(element)] : []),
+      ]),
+    );
+    markdown += "\n";
+
+    const annotated = elements.find((element) => element.screenshots)?.screenshots?.page;
+    if (annotated) {
+      markdown += `Annotated page (findings numbered): ${imageLink(annotated, reportDir)}\n\n`;
+    }
+
+    const findings = elements.filter(
+      (element) => element.issue || element.recommendation,
+    );
+    if (findings.length > 0) {
+      markdown += "### Issues and Recommendations\n\n";
+
+      for (const element of findings) {
+        const marker = element.screenshots ? ` (#${element.screenshots.marker})` : "";
+        markdown += `- **${element.type}**${marker}: "${truncate(element.content)}"\n`;
+        if (element.issue) {
+          const rule = element.rule ? ` (rule: ${element.rule})` : "";
+          markdown += `  - Issue${rule}: ${element.issue}\n`;
+        }
+        if (element.recommendation) {
+          markdown += `  - Recommendation: ${element.recommendation}\n`;
+        }
+        if (element.screenshots?.element) {
+          markdown += `  - Screenshot: ${imageLink(element.screenshots.element, reportDir)}\n`;
+        }
+      }
+      markdown += "\n";
+    }
+  }
+
+  markdown += deviceDifferencesAsMarkdown(analysis);
+  markdown += overlaysAsMarkdown(analysis);
+  markdown += failuresAsMarkdown(analysis, "Pages");
+
+  return markdown;
+}
+
+/**
+ * Export a codebase scan as CSV, one row per element
+ */
+function codebaseAsCSV(analysis: AnalysisArtifact): string {
+  const header = [
+    "file",
+    "lineNumber",
+    "type",
+    "content",
+    "location",
+    "importance",
+    "optimizationPotential",
+  ];
+
+  // Strings found by parsing the source have an exact column
+  const hasColumns = analysis.elements.some((element) => element.column);
+  if (hasColumns) {
+    header.splice(2, 0, "column");
+  }
+
+  // Elements annotated by the rule-based checks
+  const hasIssues = analysis.elements.some((element) => element.issue);
+  if (hasIssues) {
+    header.push("issue", "recommendation", "rule");
+  }
+
+  // Translation file values, with the locales that define the key
+  const hasTranslations = analysis.elements.some((element) => element.translationKey);
+  if (hasTranslations) {
+    header.push("translationKey", "locales");
+  }
+
+  const rows = analysis.elements.map((element) => [
+    element.file,
+    element.lineNumber,
+    ...(hasColumns ? [element.column] : []),
+    element.type,
+    element.content,
+    element.location,
+    element.importance,
+    element.optimizationPotential,
+    ...(hasIssues ? [element.issue, element.recommendation, element.rule] : []),
+    ...(hasTranslations
+      ? [element.translationKey, Object.keys(element.translations || {}).join(" ")]
+      : []),
+  ]);
+
+  return toCsv([header, ...rows]);
+}
+
+/**
+ * Export a codebase scan as a Markdown report with a section per file
+ */
+function codebaseAsMarkdown(analysis: AnalysisArtifact): string {
+  const files = groupBy(analysis.elements, (element) => element.file || "unknown");
+  const types = groupBy(analysis.elements, (element) => element.type);
+
+  let markdown = "# Codebase Content Analysis\n\n";
+
+  markdown += `- **Source**: ${analysis.source}\n`;
+  markdown += `- **Analyzed**: ${new Date(analysis.timestamp).toLocaleString()}\n`;
+  markdown += `- **Files scanned**: ${analysis.scanned.length}\n`;
+  markdown += `- **Files with content**: ${files.size}\n`;
+  markdown += `- **Elements found**: ${analysis.elements.length}\n`;
+  if (types.size > 0) {
+    const counts = [...types].map(([type, elements]) => `${type} (${elements.length})`);
+    markdown += `- **Content types**: ${counts.join(", ")}\n`;
+  }
+  markdown += "\n";
+
+  const hasIssues = analysis.elements.some((element) => element.issue);
+  const hasTranslations = analysis.elements.some((element) => element.translationKey);
+  for (const [file, elements] of files) {
+    markdown += `## ${file}\n\n`;
+    markdown += markdownTable(
+      [
+        "Line",
+        "Type",
+        "Content",
+        "Location",
+        "Importance",
+        "Potential",
+        ...(hasTranslations ? ["Locales"] : []),
+        ...(hasIssues ? ["Issue"] : []),
+      ],
+      elements.map((element) => [
+        element.column ? `${element.lineNumber}:${element.column}` : element.lineNumber,
+        element.type,
+        element.content,
+        element.location,
+        element.importance,
+        element.optimizationPotential,
+        ...(hasTranslations ? [Object.keys(element.translations || {}).join(", ")] : []),
+        ...(hasIssues ? [element.issue] : []),
+      ]),
+    );
+    markdown += "\n";
+  }
+
+  markdown += failuresAsMarkdown(analysis, "Files");
+
+  return markdown;
+}
+
+/**
+ * Export simulation results as CSV, one row per original or variant
+ */
+function simulationAsCSV(simulation: SimulationArtifact): string {
+  const header = [
+    "elementId",
+    "source",
+    "type",
+    "original",
+    "variant",
+    "score",
+    "clickRate",
+    "conversionRate",
+    "improvement",
+  ];
+
+  const rows = simulation.elements.flatMap((element) =>
+    variantRows(element).map((row) => [
+      element.original.id,
+      getElementSource(element.original),
+      element.original.type,
+      element.original.content,
+      row.isBaseline ? "" : row.content,
+      row.score,
+      row.clickRate,
+      row.conversionRate,
+      row.improvement,
+    ]),
+  );
+
+  return toCsv([header, ...rows]);
+}
+
+/**
+ * Export simulation results as a Markdown report with a section per element
+ */
+function simulationAsMarkdown(simulation: SimulationArtifact): string {
+  const { simulationOptions } = simulation;
+  let markdown = "# Simulation Results\n\n";
+
+  markdown += `- **Source**: ${simulation.source}\n`;
+  markdown += `- **Simulated**: ${new Date(simulation.timestamp).toLocaleString()}\n`;
+  markdown += `- **Mode**: ${simulationOptions.mode}\n`;
+  markdown += `- **Visitors**: ${simulationOptions.visitorCount}\n`;
+  markdown += `- **Personas**: ${simulationOptions.personaCount}\n`;
+  markdown += `- **Elements**: ${simulation.elements.length}\n\n`;
+
+  for (const element of simulation.elements) {
+    const { original } = element;
+
+    markdown += `## ${original.type}: "${truncate(original.content)}"\n\n`;
+    markdown += `- **Source**: ${getElementSource(original)}\n`;
+    if (original.selector || original.location) {
+      markdown += `- **Location**: ${original.selector || original.location}\n`;
+    }
+    markdown += "\n";
+
+    markdown += markdownTable(
+      ["Variant", "Score", "Click Rate", "Conversion Rate", "Improvement"],
+      variantRows(element).map((row) => [
+        row.isBaseline ? `${row.content} (original)` : row.content,
+        row.score?.toFixed(2),
+        formatRate(row.clickRate),
+        formatRate(row.conversionRate),
+        row.improvement,
+      ]),
+    );
+    markdown += "\n";
+  }
+
+  if (simulation.trafficResults) {
+    markdown += "## Traffic Results\n\n";
+    markdown += `\`\`\`json\n${JSON.stringify(simulation.trafficResults, null, 2)}\n\`\`\`\n`;
+  }
+
+  return markdown;
+}
+
+interface VariantRow {
+  content: string;
+  isBaseline: boolean;
+  score?: number;
+  clickRate?: number;
+  conversionRate?: number;
+  improvement?: string;
+}
+
+/**
+ * Lines up the generated variants with their simulation results, baseline first
+ */
+function variantRows(element: ElementVariants): VariantRow[] {
+  const [baseline, ...simulated] = element.simulationResults || [];
+  const rows: VariantRow[] = [];
+
+  if (baseline) {
+    rows.push({ ...baseline, content: element.original.content, isBaseline: true });
+  }
+
+  for (const variant of element.variants) {
+    const result = simulated.find((item) => item.variant === variant.content);
+    rows.push({ ...result, content: variant.content, score: variant.score, isBaseline: false });
+  }
+
+  return rows;
+}
+
+function deviceDifferencesAsMarkdown(analysis: AnalysisArtifact): string {
+  const devices = [
+    ...new Set(analysis.elements.flatMap((element) => Object.keys(element.devices || {}))),
+  ];
+  if (devices.length === 0) {
+    return "";
+  }
+
+  let markdown = "## Device Differences\n\n";
+  markdown += `Elements measured on ${devices.join(", ")}.\n\n`;
+
+  const differing = analysis.elements
+    .map((element) => ({ element, differences: findDeviceDifferences(element) }))
+    .filter(({ differences }) => differences.length > 0);
+
+  if (differing.length === 0) {
+    return `${markdown}Every element renders alike on all devices.\n\n`;
+  }
+
+  for (const { element, differences } of differing) {
+    markdown += `- **${element.type}**: "${truncate(element.content)}" (${element.url}, \`${element.selector}\`)\n`;
+    for (const difference of differences) {
+      markdown += `  - ${difference}\n`;
+    }
+  }
+
+  return `${markdown}\n`;
+}
+
+/**
+ * Links a screenshot relative to the report, so the link works wherever the report is written
+ */
+function imageLink(file: string, reportDir: string): string {
+  const target = path.relative(reportDir, path.resolve(file)).split(path.sep).join("/");
+  return `[${path.basename(file)}](${encodeURI(target)})`;
+}
+
+/**
+ * Where a measured element sits and how prominent it is, e.g. "above fold, 48px/700, prominence 0.82"
+ */
+function describePosition(element: ContentElement): string {
+  const geometry = element.geometry;
+  if (!geometry) {
+    return "";
+  }
+
+  const fold = geometry.aboveFold ? "above fold" : `${geometry.y}px down`;
+  return `${fold}, ${geometry.fontSize}px/${geometry.fontWeight}, prominence ${element.prominence}`;
+}
+
+function overlaysAsMarkdown(analysis: AnalysisArtifact): string {
+  if (!analysis.overlays || analysis.overlays.length === 0) {
+    return "";
+  }
+
+  let markdown = "## Overlays\n\n";
+  markdown += "Consent banners and popups covering pages on arrival, and how each was removed before analysis.\n\n";
+  markdown += markdownTable(
+    ["Page", "Kind", "Name", "Selector", "Text", "Dismissal"],
+    analysis.overlays.map((overlay) => [
+      overlay.url,
+      overlay.kind,
+      overlay.name,
+      overlay.selector,
+      truncate(overlay.text),
+      overlay.dismissal,
+    ]),
+  );
+
+  return `${markdown}
+`;
+}
+
+function failuresAsMarkdown(analysis: AnalysisArtifact, label: string): string {
+  if (analysis.failures.length === 0) {
+    return "";
+  }
+
+  let markdown = `## ${label} That Could Not Be Analyzed\n\n`;
+  for (const failure of analysis.failures) {
+    markdown += `- ${failure.target}: ${failure.error}\n`;
+  }
+
+  return `${markdown}\n`;
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+
+  for (const item of items) {
+    const group = key(item);
+    groups.set(group, [...(groups.get(group) || []), item]);
+  }
+
+  return groups;
+}
+
+function getElementSource(element: ContentElement): string {
+  return element.file || element.url || "unknown";
+}
+
+function formatRate(rate?: number): string {
+  return rate === undefined ? "" : `${rate.toFixed(1)}%`;
+}
+
+function truncate(value: string, length: number = 50): string {
+  return value.length > length ? `${value.substring(0, length)}...` : value;
+}
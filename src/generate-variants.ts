@@ -1,10 +1,9 @@
 import fs from "fs";
 import path from "path";
-import { openai } from "@ai-sdk/openai";
-import { anthropic } from "@ai-sdk/anthropic";
 import { Agent } from "@mastra/core/agent";
 import dotenv from "dotenv";
 import readline from "readline";
+import { getModel, getProviderSettings, describeModel } from "./providers";
 
 // Load environment variables
 dotenv.config();
@@ -80,25 +79,24 @@ async function generateVariants(
   content: ContentItem[],
   numVariants: number = 3
 ): Promise<ContentItem[]> {
-  // Get API key
-  const apiKey = await getOpenAIApiKey();
-  if (!apiKey) {
-    throw new Error(
-      "No API key provided. Cannot continue without an OpenAI API key."
-    );
+  // Prompt for an OpenAI key only when the configured provider needs one
+  const settings = getProviderSettings();
+  if (settings.provider === "openai" && !settings.apiKey) {
+    const apiKey = await getOpenAIApiKey();
+    if (!apiKey) {
+      throw new Error(
+        "No API key provided. Cannot continue without an OpenAI API key."
+      );
+    }
   }
 
-  // Determine the model to use
-  const modelType = process.env.OPENAI_MODEL || "gpt-4o-mini";
-  console.log(`Using model: ${modelType}`);
+  console.log(`Using model: ${describeModel()}`);
 
   // Create agent to generate variants
   const agent = new Agent({
     name: "content-variant-generator",
     instructions: `Generate creative, high-converting variants for website content.`,
-    model: process.env.OPENAI_API_KEY
-      ? openai(modelType)
-      : anthropic("claude-3-7-sonnet-20250219"),
+    model: getModel(),
   });
 
   // Generate variants for each content item
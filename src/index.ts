@@ -3,12 +3,15 @@
  * Main entry point for the package
  */
 
-import { scan, scanWebsite, scanCodebase } from './scanner/index';
+import { scan, scanWebsite, scanCodebase, registerScanner, listScanners } from './scanner/index';
 import { analyzeWebsite } from './analyzer/index';
+import { analyzePageHeuristics, applyCopyHeuristics } from './analyzer/heuristic-analyzer';
 import { generateVariants } from './generators/index';
 import { simulateTraffic } from './simulator/index';
 import { exportContentToJson, exportContentToMarkdown, createOptimizationReport } from './exporter/index';
 import { config } from './config';
+import { getModel, registerProvider } from './providers/index';
+import { toContentElements, normalizeContentType } from './core/content-element';
 
 // Version from package.json
 import fs from 'fs';
@@ -25,9 +28,13 @@ export {
   scan,
   scanWebsite,
   scanCodebase,
+  registerScanner,
+  listScanners,
   
   // Analysis functionality
   analyzeWebsite,
+  analyzePageHeuristics,
+  applyCopyHeuristics,
   
   // Content generation
   generateVariants,
@@ -43,15 +50,30 @@ export {
   // Configuration
   config,
   
+  // Model providers
+  getModel,
+  registerProvider,
+  
+  // Canonical content model
+  toContentElements,
+  normalizeContentType,
+  
   // Version
   version: packageJson.version
 };
 
+// Types for third-party scanners
+export type { Scanner, ScannerCapabilities, ScanTarget, ScanRun } from './scanner/index';
+export type { AnalysisArtifact } from './core/artifact';
+export type { ContentElement } from './core/content-element';
+
 // Default export
 export default {
   scan,
   scanWebsite,
   scanCodebase,
+  registerScanner,
+  listScanners,
   analyzeWebsite,
   generateVariants,
   simulateTraffic,
@@ -59,5 +81,9 @@ export default {
   exportContentToMarkdown,
   createOptimizationReport,
   config,
+  getModel,
+  registerProvider,
+  toContentElements,
+  normalizeContentType,
   version: packageJson.version
 };
\ No newline at end of file
@@ -0,0 +1,127 @@
+/**
+ * Record/replay cassettes for language model calls
+ *
+ * In record mode every model response is written to a cassette directory, keyed by a
+ * hash of the prompt. In replay mode those responses are served back without touching
+ * the network, so the analyze → generate → simulate pipeline can run deterministically in CI.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { wrapLanguageModel } from 'ai';
+import type { LanguageModel, LanguageModelV1Middleware } from 'ai';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteSettings {
+  mode: CassetteMode;
+  dir: string;
+}
+
+type GenerateResult = Awaited<ReturnType<LanguageModel['doGenerate']>>;
+type CallOptions = Parameters<LanguageModel['doGenerate']>[0];
+
+interface CassetteEntry {
+  key: string;
+  modelId: string;
+  recordedAt: string;
+  prompt: unknown;
+  response: Pick<GenerateResult, 'text' | 'reasoning' | 'toolCalls' | 'finishReason' | 'usage'>;
+}
+
+/**
+ * Thrown in replay mode when no recorded response exists for a prompt
+ */
+export class CassetteMissError extends Error {
+  constructor(
+    public readonly key: string,
+    public readonly cassettePath: string
+  ) {
+    super(
+      `No recorded response for prompt ${key} (expected ${cassettePath}). ` +
+        'Re-record the cassettes with --record to update them.'
+    );
+    this.name = 'CassetteMissError';
+  }
+}
+
+/**
+ * Computes the cassette key for a model call
+ *
+ * Only the parts that determine the response are hashed: the prompt messages, the
+ * generation mode (tools or object schema) and the requested response format.
+ */
+export function getCassetteKey(params: CallOptions): string {
+  const material = JSON.stringify({
+    prompt: params.prompt,
+    mode: params.mode,
+    responseFormat: params.responseFormat,
+  });
+
+  return crypto.createHash('sha256').update(material).digest('hex').substring(0, 32);
+}
+
+/**
+ * Creates a middleware that records or replays model responses
+ */
+export function createCassetteMiddleware(settings: CassetteSettings): LanguageModelV1Middleware {
+  if (settings.mode === 'record' && !fs.existsSync(settings.dir)) {
+    fs.mkdirSync(settings.dir, { recursive: true });
+  }
+
+  return {
+    wrapGenerate: async ({ doGenerate, params, model }) => {
+      const key = getCassetteKey(params);
+      const cassettePath = path.join(settings.dir, `${key}.json`);
+
+      if (settings.mode === 'replay') {
+        if (!fs.existsSync(cassettePath)) {
+          throw new CassetteMissError(key, cassettePath);
+        }
+
+        const entry: CassetteEntry = JSON.parse(fs.readFileSync(cassettePath, 'utf-8'));
+        return {
+          ...entry.response,
+          rawCall: { rawPrompt: params.prompt, rawSettings: { cassette: cassettePath } },
+        };
+      }
+
+      const result = await doGenerate();
+      const entry: CassetteEntry = {
+        key,
+        modelId: model.modelId,
+        recordedAt: new Date().toISOString(),
+        prompt: params.prompt,
+        response: {
+          text: result.text,
+          reasoning: result.reasoning,
+          toolCalls: result.toolCalls,
+          finishReason: result.finishReason,
+          usage: result.usage,
+        },
+      };
+
+      fs.writeFileSync(cassettePath, JSON.stringify(entry, null, 2));
+      return result;
+    },
+
+    wrapStream: async ({ doStream }) => {
+      // Nothing in the pipeline streams yet; fail loudly rather than hitting the network in CI
+      if (settings.mode === 'replay') {
+        throw new Error('Streaming model calls cannot be replayed from cassettes');
+      }
+      return doStream();
+    },
+  };
+}
+
+/**
+ * Wraps a model so its calls are recorded to or replayed from a cassette directory
+ */
+export function withCassette(model: LanguageModel, settings: CassetteSettings): LanguageModel {
+  return wrapLanguageModel({
+    model,
+    middleware: createCassetteMiddleware(settings),
+  });
+}
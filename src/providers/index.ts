@@ -0,0 +1,203 @@
+/**
+ * Model provider registry
+ *
+ * Resolves the language model from ~/.steelpush/config.json (or the environment) once
+ * and hands the same model to every Mastra agent and generateText call.
+ */
+
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createOpenAI } from '@ai-sdk/openai';
+import type { LanguageModel } from 'ai';
+import { loadConfig } from '../utils/config';
+import { withCassette, CassetteSettings } from './cassette';
+
+export { CassetteMissError, getCassetteKey } from './cassette';
+export type { CassetteMode, CassetteSettings } from './cassette';
+
+export interface ProviderSettings {
+  provider: string;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+export type ProviderFactory = (settings: ProviderSettings) => LanguageModel;
+
+/**
+ * Default models used when neither the config nor the environment names one
+ */
+export const DEFAULT_MODELS: Record<string, string> = {
+  anthropic: 'claude-3-7-sonnet-20250219',
+  openai: 'gpt-4-turbo',
+};
+
+const factories = new Map<string, ProviderFactory>();
+
+let cachedSettings: ProviderSettings | null = null;
+
+/**
+ * Registers a provider factory under the given name
+ *
+ * @param name Provider name as used in config.ai.provider
+ * @param factory Function creating a model from the resolved settings
+ */
+export function registerProvider(name: string, factory: ProviderFactory): void {
+  factories.set(name, factory);
+}
+
+/**
+ * Lists the names of all registered providers
+ */
+export function listProviders(): string[] {
+  return [...factories.keys()];
+}
+
+registerProvider('anthropic', (settings) => {
+  const apiKey = settings.apiKey || process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new Error('ANTHROPIC_API_KEY not found in environment or config');
+  }
+
+  return createAnthropic({ apiKey, baseURL: settings.baseUrl })(settings.model);
+});
+
+registerProvider('openai', (settings) => {
+  const apiKey = settings.apiKey || process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new Error('OPENAI_API_KEY not found in environment or config');
+  }
+
+  return createOpenAI({
+    apiKey,
+    baseURL: settings.baseUrl,
+    compatibility: 'strict',
+  })(settings.model);
+});
+
+// Any server speaking the OpenAI chat completions API (Ollama, vLLM, LM Studio, ...)
+registerProvider('openai-compatible', (settings) => {
+  if (!settings.baseUrl) {
+    throw new Error('The openai-compatible provider requires a baseUrl (e.g. http://localhost:11434/v1)');
+  }
+
+  return createOpenAI({
+    name: 'openai-compatible',
+    // Local servers usually ignore the key, but the SDK refuses to send a request without one
+    apiKey: settings.apiKey || process.env.OPENAI_API_KEY || 'not-needed',
+    baseURL: settings.baseUrl,
+    compatibility: 'compatible',
+  })(settings.model);
+});
+
+/**
+ * Resolves the provider settings from the config file and environment
+ *
+ * Environment variables (STEELPUSH_PROVIDER, STEELPUSH_MODEL, STEELPUSH_BASE_URL)
+ * take precedence over the config file so CI can point at a different endpoint.
+ * The result is cached; call resetProviderSettings() after changing the config.
+ */
+export function getProviderSettings(): ProviderSettings {
+  if (cachedSettings) {
+    return cachedSettings;
+  }
+
+  const ai = loadConfig()?.ai || {};
+
+  let provider = process.env.STEELPUSH_PROVIDER || ai.provider;
+  if (!provider) {
+    // No config: pick whichever hosted provider has a key available
+    provider = !process.env.ANTHROPIC_API_KEY && process.env.OPENAI_API_KEY ? 'openai' : 'anthropic';
+  }
+
+  const model = process.env.STEELPUSH_MODEL || ai.model || DEFAULT_MODELS[provider];
+  if (!model) {
+    throw new Error(`No model configured for provider "${provider}". Run steelpush init --model <model>.`);
+  }
+
+  cachedSettings = {
+    provider,
+    model,
+    apiKey: ai.apiKey || undefined,
+    baseUrl: process.env.STEELPUSH_BASE_URL || ai.baseUrl || undefined,
+  };
+
+  return cachedSettings;
+}
+
+/**
+ * Resolves the record/replay cassette settings, if any
+ *
+ * STEELPUSH_CASSETTE_MODE (record or replay) and STEELPUSH_CASSETTE_DIR override the
+ * "cassette" section of the config file.
+ */
+export function getCassetteSettings(): CassetteSettings | null {
+  const cassette = loadConfig()?.cassette || {};
+  const mode = process.env.STEELPUSH_CASSETTE_MODE || cassette.mode;
+
+  if (!mode || mode === 'off') {
+    return null;
+  }
+
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Invalid cassette mode "${mode}". Use record, replay or off.`);
+  }
+
+  return {
+    mode,
+    dir: process.env.STEELPUSH_CASSETTE_DIR || cassette.dir || 'cassettes',
+  };
+}
+
+/**
+ * Clears the cached provider settings so the next getModel() call re-reads the config
+ */
+export function resetProviderSettings(): void {
+  cachedSettings = null;
+}
+
+/**
+ * Returns the configured language model
+ *
+ * @param overrides Optional settings overriding the configured ones for a single call site
+ * @returns A language model usable by Mastra agents and the AI SDK
+ */
+export function getModel(overrides: Partial<ProviderSettings> = {}): LanguageModel {
+  const settings = { ...getProviderSettings(), ...overrides };
+  const factory = factories.get(settings.provider);
+
+  if (!factory) {
+    throw new Error(
+      `Unknown AI provider "${settings.provider}". Available providers: ${listProviders().join(', ')}`
+    );
+  }
+
+  const cassette = getCassetteSettings();
+  if (!cassette) {
+    return factory(settings);
+  }
+
+  // Replayed calls never reach the provider, so no real API key is needed
+  const model = cassette.mode === 'replay'
+    ? factory({ ...settings, apiKey: settings.apiKey || 'cassette-replay' })
+    : factory(settings);
+
+  return withCassette(model, cassette);
+}
+
+/**
+ * Returns a short human-readable description of the configured model
+ */
+export function describeModel(): string {
+  const settings = getProviderSettings();
+  const cassette = getCassetteSettings();
+
+  let description = `${settings.provider}:${settings.model}`;
+  if (settings.baseUrl) {
+    description += ` (${settings.baseUrl})`;
+  }
+  if (cassette) {
+    description += ` [${cassette.mode} ${cassette.dir}]`;
+  }
+
+  return description;
+}
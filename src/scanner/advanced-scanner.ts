@@ -4,25 +4,64 @@
 
 import fs from 'fs';
 import path from 'path';
-import { chromium } from 'playwright';
-import { anthropic } from '@ai-sdk/anthropic';
-import { openai } from '@ai-sdk/openai';
-import { generateText } from 'ai';
-import { loadConfig } from '../utils/config';
+import { BrowserContext, chromium, Page } from 'playwright';
+import { z } from 'zod';
+import { analyzePageHeuristics, formatHeuristicFindings, HeuristicsMode } from '../analyzer/heuristic-analyzer';
+import { config } from '../config';
+import { getModel, describeModel } from '../providers';
+import { generateStructured, StructuredOutputError } from '../utils/structured-output';
+import { createLimiter } from '../utils/concurrency';
+import { AuthOptions, authRequestHeaders, createAuthenticatedContext } from './auth';
+import { ScanRun } from './checkpoint';
+import { CrawlPolicyOptions, createCrawlFrontier, FrontierEntry, FrontierState } from './crawl-frontier';
+import { ElementPlacement, measureElements, resolveDevice } from './devices';
+import {
+  computeProminence,
+  ElementGeometry,
+  findElementFacts,
+  formatElementFacts,
+  measurePage,
+  measureSelectors,
+  PageGeometry,
+  prominenceLevel,
+} from './geometry';
+import { chunkDistilledPage, DistilledPage, distillPage } from './distiller';
+import { DetectedOverlay, handleOverlays, OverlayOptions } from './overlays';
+import { PagePool } from './page-pool';
+import { captureElementScreenshots, ElementScreenshots } from './screenshots';
+import { resolveSelectors, SelectorStatus } from './selectors';
 
 // Types
-export interface ScanOptions {
+export interface ScanOptions extends CrawlPolicyOptions, AuthOptions, OverlayOptions {
   maxPages?: number;
   maxDepth?: number;
   headless?: boolean;
   timeout?: number;
   screenshotsDir?: string;
+  /** Number of pages loaded at once (default 4) */
+  concurrency?: number;
+  /** Number of pages analyzed by the model at once (default 4) */
+  analysisConcurrency?: number;
+  /** Playwright devices (or aliases such as "mobile") to measure elements on; the first is used for the crawl */
+  devices?: string[];
+  /** Characters of page outline sent to the model per request (default config.analysis.chunkSize) */
+  chunkSize?: number;
+  /** Characters repeated from the end of one chunk at the start of the next (default config.analysis.chunkOverlap) */
+  chunkOverlap?: number;
+  /**
+   * How the rule-based checks are used (default "context"): given to the model as context,
+   * as a prefilter that only sends flagged pages to the model, on their own with no model
+   * calls ("only"), or not at all ("off")
+   */
+  heuristics?: HeuristicsMode;
 }
 
 export interface PageContent {
   pageUrl: string;
   pageTitle: string;
   optimizableElements: OptimizableElement[];
+  analysisError?: string; // Set when the page could not be analyzed; no elements are invented
+  overlays?: DetectedOverlay[]; // Consent banners and modals found (and dismissed) before analysis
 }
 
 export interface OptimizableElement {
@@ -34,6 +73,62 @@ export interface OptimizableElement {
   optimizationPotential: 'high' | 'medium' | 'low';
   issue: string;
   recommendation: string;
+  devices?: Record<string, ElementPlacement>; // Where the element renders on each device of the matrix
+  geometry?: ElementGeometry; // Measured box, font and contrast in the crawl's viewport
+  prominence?: number; // 0-1 score from the geometry; sets importance when present
+  selectorStatus?: SelectorStatus; // Whether the selector was checked against the live page, and repaired
+  screenshots?: ElementScreenshots; // Cropped screenshot and numbered box on the annotated page
+  rule?: string; // Rule-based check that reported the element, e.g. "generic-cta"; unset for model findings
+}
+
+const LevelSchema = z.enum(['high', 'medium', 'low']);
+
+export const OptimizableElementSchema = z.object({
+  type: z.string(),
+  selector: z.string(),
+  content: z.string(),
+  location: z.string(),
+  importance: LevelSchema,
+  optimizationPotential: LevelSchema,
+  issue: z.string(),
+  recommendation: z.string(),
+});
+
+const PageAnalysisSchema = z.object({
+  optimizableElements: z.array(OptimizableElementSchema),
+});
+
+/**
+ * What a crawl worker read from a loaded page
+ */
+interface VisitedPage {
+  url: string;
+  depth: number;
+  title: string;
+  canonicalUrl: string | null | undefined;
+  content: DistilledPage;
+  links: string[];
+  overlays: DetectedOverlay[];
+  geometry: PageGeometry;
+}
+
+/**
+ * Progress of an advanced scan, saved to its run's checkpoint
+ */
+export interface AdvancedScanState {
+  frontier: FrontierState;
+  /**
+   * Pages accepted for analysis, in order. Until a page's analysis is done its distilled
+   * content is kept in the run directory, so a resumed scan analyzes it without loading it
+   * again.
+   */
+  pages: Array<{
+    url: string;
+    title: string;
+    overlays?: DetectedOverlay[];
+    geometry?: PageGeometry;
+    result?: PageContent;
+  }>;
 }
 
 export interface ScanResult {
@@ -47,89 +142,134 @@ export interface ScanResult {
 
 /**
  * Scan a website using a recursive crawl approach
+ *
+ * @param url Start page
+ * @param options Crawl options
+ * @param run Run to checkpoint progress to; when it holds a saved state the scan continues
+ *   from there, and pages that were already analyzed are not sent to the model again
  */
 export async function scanWebsiteAdvanced(
   url: string,
-  options: ScanOptions = {}
+  options: ScanOptions = {},
+  run?: ScanRun<AdvancedScanState>
 ): Promise<ScanResult> {
   const maxPages = options.maxPages || 3;
   const maxDepth = options.maxDepth || 2;
   const headless = options.headless !== false; // Default to true
   const timeout = options.timeout || 60000;
-  const screenshotsDir = options.screenshotsDir || 'screenshots';
+  const screenshotsDir = options.screenshotsDir || run?.screenshotsDir || 'screenshots';
+  const concurrency = Math.max(1, options.concurrency || 4);
+  const analysisConcurrency = Math.max(1, options.analysisConcurrency || 4);
+  const chunkSize = Math.max(500, options.chunkSize || config.analysis.chunkSize);
+  const chunkOverlap = Math.max(0, options.chunkOverlap ?? config.analysis.chunkOverlap);
+  const matrix = (options.devices || []).map(resolveDevice);
+  const heuristics = options.heuristics || 'context';
   
-  console.log(`Starting scan of ${url} (max ${maxPages} pages, depth ${maxDepth})`);
+  console.log(
+    `Starting scan of ${url} (max ${maxPages} pages, depth ${maxDepth}, ${concurrency} page(s) at a time)`
+  );
   
   // Create screenshots directory if it doesn't exist
   if (!fs.existsSync(screenshotsDir)) {
     fs.mkdirSync(screenshotsDir, { recursive: true });
   }
   
-  // Get AI configuration
-  const config = loadConfig();
-  let model;
-  
-  if (!config) {
-    throw new Error('Config not found. Run steelpush init first.');
-  }
+  // Resolve the configured model once for the whole scan; rule-only scans need none
+  const model = heuristics === 'only' ? null : getModel();
+  console.log(model ? `Using model: ${describeModel()}` : 'Using rule-based checks only, without a model');
   
-  if (config.ai.provider === 'anthropic') {
-    if (!process.env.ANTHROPIC_API_KEY && !config.ai.apiKey) {
-      throw new Error('ANTHROPIC_API_KEY not found in environment or config');
-    }
-    model = anthropic(config.ai.model || 'claude-3-7-sonnet-20250219');
-    console.log('Using Anthropic model:', config.ai.model || 'claude-3-7-sonnet-20250219');
-  } else {
-    if (!process.env.OPENAI_API_KEY && !config.ai.apiKey) {
-      throw new Error('OPENAI_API_KEY not found in environment or config');
-    }
-    model = openai(config.ai.model || 'gpt-4');
-    console.log('Using OpenAI model:', config.ai.model || 'gpt-4');
+  // Read robots.txt and the sitemap before the first page is requested
+  const saved = run?.state;
+  const frontier = await createCrawlFrontier(
+    url,
+    { ...options, headers: { ...options.headers, ...authRequestHeaders(options) } },
+    saved?.frontier
+  );
+  const contentDir = run ? path.join(run.dir, 'pages') : undefined;
+  if (contentDir && !fs.existsSync(contentDir)) {
+    fs.mkdirSync(contentDir, { recursive: true });
   }
   
   // Initialize browser
   const browser = await chromium.launch({ headless });
-  const context = await browser.newContext();
-  const page = await context.newPage();
-  
-  // Keep track of visited pages
-  const visitedUrls = new Set<string>();
-  const pages: PageContent[] = [];
-  
-  /**
-   * Helper function to take screenshot
-   */
-  async function takeScreenshot(page: any, name: string): Promise<string> {
-    const screenshotPath = path.join(screenshotsDir, `${name}-${Date.now()}.png`);
-    await page.screenshot({ path: screenshotPath });
-    return screenshotPath;
-  }
+  // Logs in first when a login step is configured, so the crawl sees the logged-in site
+  const context = await createAuthenticatedContext(browser, url, options, {
+    ...matrix[0]?.contextOptions,
+    ...(options.userAgent && { userAgent: options.userAgent }),
+  }).catch(async (error) => {
+    await browser.close();
+    throw error;
+  });
   
   /**
    * Analyze a webpage using AI
+   *
+   * Long pages are analyzed in chunks of whole sections, and the findings of all chunks
+   * are merged. The rule-based checks run first: their findings are given to the model as
+   * context, and those the model does not report are added to its own.
    */
   async function analyzeWebpage(
     url: string,
-    html: string,
-    title: string
+    content: DistilledPage,
+    title: string,
+    geometry?: PageGeometry
   ): Promise<PageContent> {
-    console.log(`\nAnalyzing page: ${title}`);
+    const flagged = heuristics === 'off' ? [] : analyzePageHeuristics(content, title);
+    if (!model || (heuristics === 'prefilter' && flagged.length === 0)) {
+      console.log(`\nChecked page: ${title} (${flagged.length} rule finding(s), not sent to the model)`);
+      return {
+        pageUrl: url,
+        pageTitle: title,
+        optimizableElements: geometry ? flagged.map((element) => withGeometry(element, geometry)) : flagged,
+      };
+    }
     
-    try {
-      // Create the prompt for the AI
-      const prompt = `
+    const chunks = chunkDistilledPage(content, chunkSize, chunkOverlap);
+    console.log(`\nAnalyzing page: ${title}${chunks.length > 1 ? ` (${chunks.length} parts)` : ''}`);
+    
+    const found: OptimizableElement[] = [];
+    const failures: string[] = [];
+    
+    for (const [index, chunk] of chunks.entries()) {
+      // Only the measured elements that appear in this part of the page
+      const measured = geometry && {
+        ...geometry,
+        elements: chunks.length === 1
+          ? geometry.elements
+          : geometry.elements.filter((element) => chunk.includes(element.text.slice(0, 40))),
+      };
+      const rules = chunks.length === 1
+        ? flagged
+        : flagged.filter((element) => chunk.includes(JSON.stringify(element.content).slice(1, 40)));
+      const part = chunks.length > 1 ? ` (part ${index + 1} of ${chunks.length})` : '';
+      
+      try {
+        // Create the prompt for the AI
+        const prompt = `
         Analyze this webpage at ${url} for conversion optimization opportunities.
 
         URL: ${url}
         Title: ${title}
         
-        I'll provide you with relevant parts of the HTML content to analyze.
-        \`\`\`html
-        ${html.substring(0, 20000)} ${html.length > 20000 ? '... (truncated)' : ''}
+        Below is an outline of the page's visible content${part}: one line per heading, text block,
+        link, button, form field and image, grouped into sections ("## ...") by landmark and heading.
+        "#name" after an element type is the element's id.
         \`\`\`
-
-        You are an expert in website conversion rate optimization (CRO). Your task is to analyze this page
-        and identify 3-5 specific elements that could be improved to increase conversions. Focus on:
+        ${chunk}
+        \`\`\`
+        ${measured?.elements.length ? `
+        These elements were measured in a ${measured.viewport.width}x${measured.viewport.height} viewport
+        (position, size, computed font and text contrast). Prefer their selectors, and use the
+        measurements rather than guessing where an element sits or how prominent it is:
+        ${formatElementFacts(measured)}
+        ` : ''}${rules.length ? `
+        Rule-based checks flagged these elements. Confirm or refine them, and look for what
+        rules cannot judge, such as clarity, relevance and trust:
+        ${formatHeuristicFindings(rules)}
+        ` : ''}
+        You are an expert in website conversion rate optimization (CRO). Your task is to analyze this
+        ${part ? 'part of the page' : 'page'} and identify ${part ? '1-5' : '3-5'} specific elements that could be
+        improved to increase conversions. Focus on:
         
         1. Headlines and value propositions
         2. Call to action buttons
@@ -147,216 +287,416 @@ export async function scanWebsiteAdvanced(
         - Specific issue with the current implementation
         - Recommendation for improvement
         
-        Format your response as a JSON object like this:
-        {
-          "pageUrl": "${url}",
-          "pageTitle": "${title}",
-          "optimizableElements": [
-            {
-              "type": "headline",
-              "selector": "h1.hero-title",
-              "content": "Current headline text",
-              "location": "Hero section",
-              "importance": "high",
-              "optimizationPotential": "medium",
-              "issue": "Too technical, doesn't focus on benefits",
-              "recommendation": "Change to benefit-oriented headline that addresses customer pain points"
-            },
-            // More elements...
-          ]
-        }
+        Respond with a JSON object containing an "optimizableElements" array. Use the exact
+        text from the outline for "content", and for "selector" a measured selector or a CSS
+        selector built from the ids shown.
       `;
 
-      // Generate analysis using AI model
-      const completion = await generateText({
-        model: model,
-        messages: [
-          { role: "user", content: prompt }
-        ],
-        temperature: 0.2,
-      });
-
-      // Get the response text
-      let responseText;
-      try {
-        responseText = completion.toString();
-      } catch (error) {
-        responseText = completion.text || JSON.stringify(completion);
-      }
-      
-      // Parse the response
-      let analysisResult;
-      try {
-        // Try extracting JSON from code blocks
-        const jsonMatch = responseText.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-        if (jsonMatch && jsonMatch[1]) {
-          analysisResult = JSON.parse(jsonMatch[1].trim());
-        } else {
-          // Try parsing the whole response
-          analysisResult = JSON.parse(responseText);
-        }
-      } catch (error) {
-        console.log('Error parsing AI response as JSON, creating fallback structure');
-        // Create fallback structure
-        analysisResult = {
-          pageUrl: url,
-          pageTitle: title,
-          optimizableElements: [{
-            type: 'headline',
-            selector: 'h1',
-            content: title,
-            location: 'Header',
-            importance: 'high',
-            optimizationPotential: 'medium',
-            issue: 'Current headline may not clearly communicate unique value proposition',
-            recommendation: 'Make the headline more benefit-focused and specific to target audience'
-          }]
-        };
+        // Generate a schema-validated analysis using the AI model
+        const analysis = await generateStructured({
+          model,
+          schema: PageAnalysisSchema,
+          prompt,
+          temperature: 0.2,
+          label: `page analysis${part}`,
+        });
+        found.push(...analysis.optimizableElements);
+      } catch (error: any) {
+        const reason = error instanceof StructuredOutputError
+          ? error.message
+          : `Error analyzing page${part}: ${error.message}`;
+        console.error(reason);
+        failures.push(reason);
       }
-      
-      return analysisResult;
-    } catch (error) {
-      console.error(`Error analyzing page: ${error.message}`);
-      // Return minimal structure on error
+    }
+    
+    // Report the failure on the page instead of inventing findings; rule findings still stand
+    if (failures.length === chunks.length) {
       return {
         pageUrl: url,
         pageTitle: title,
-        optimizableElements: [{
-          type: 'error',
-          selector: 'body',
-          content: `Error analyzing: ${error.message}`,
-          location: 'N/A',
-          importance: 'medium',
-          optimizationPotential: 'medium',
-          issue: 'Failed to analyze page',
-          recommendation: 'Try again or analyze manually'
-        }]
+        optimizableElements: geometry ? flagged.map((element) => withGeometry(element, geometry)) : flagged,
+        analysisError: failures.join('; '),
       };
     }
+    
+    // Overlapping chunks can report the same element twice
+    const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+    const reported = found.filter((element, index) =>
+      found.findIndex((other) =>
+        other.selector === element.selector || normalize(other.content) === normalize(element.content)
+      ) === index
+    );
+    // Rule selectors are often bare tags, so rule findings are matched to the model's by text
+    const elements = [
+      ...reported,
+      ...flagged.filter((element) =>
+        !reported.some((other) => normalize(other.content) === normalize(element.content))
+      ),
+    ];
+    
+    return {
+      pageUrl: url,
+      pageTitle: title,
+      optimizableElements: geometry
+        ? elements.map((element) => withGeometry(element, geometry))
+        : elements,
+    };
   }
   
   /**
-   * Process a page and its links recursively
+   * Attach the measurements of an element the model reported, and rate its importance by
+   * its measured prominence; elements that were not measured keep the model's rating
    */
-  async function processPage(pageUrl: string, depth = 0): Promise<void> {
-    // Skip if already visited or max pages reached
-    if (visitedUrls.has(pageUrl) || pages.length >= maxPages) {
-      return;
+  function withGeometry(element: OptimizableElement, geometry: PageGeometry): OptimizableElement {
+    const facts = findElementFacts(geometry, element.selector, element.content);
+    if (!facts) {
+      return element;
     }
     
-    // Add to visited URLs
-    visitedUrls.add(pageUrl);
-    
-    // Navigate to the page
-    console.log(`\nNavigating to page ${pages.length + 1}: ${pageUrl} (depth: ${depth})`);
+    const { selector, tag, text, ...measured } = facts;
+    const prominence = computeProminence(measured, geometry.viewport);
+    return {
+      ...element,
+      // The measured selector was generated and verified on the page
+      selector,
+      selectorStatus: selector === element.selector ? 'verified' : 'repaired',
+      importance: prominenceLevel(prominence),
+      geometry: measured,
+      prominence,
+    };
+  }
+  
+  /**
+   * Load a page and read what the crawl needs from it
+   *
+   * Runs concurrently on pooled pages, so it only reads from the frontier; the caller
+   * applies the results in dequeue order.
+   */
+  async function visitPage(page: Page, pageUrl: string, depth: number): Promise<VisitedPage | null> {
+    console.log(`\nNavigating to ${pageUrl} (depth: ${depth})`);
     try {
+      await frontier.throttle();
       await page.goto(pageUrl, { timeout, waitUntil: 'networkidle' });
     } catch (error) {
       console.error(`Error navigating to ${pageUrl}: ${error.message}`);
-      return;
+      return null;
     }
     
-    const pageTitle = await page.title();
-    console.log(`Page loaded: ${pageTitle}`);
-    
-    // Take initial screenshot
-    const pageNumber = pages.length + 1;
-    await takeScreenshot(page, `page-${pageNumber}-initial`);
+    // A page that navigates away or breaks mid-read is skipped like one that fails to load
+    try {
+      // Consent banners and popups would otherwise cover the measured elements and dominate the analyzed content
+      const overlays = await handleOverlays(page, options);
     
-    // Scroll through the page
-    console.log('Scrolling through page...');
-    await page.evaluate(() => {
-      window.scrollTo(0, 0);
-      return new Promise((resolve) => {
-        let totalHeight = 0;
-        const distance = 300;
-        const timer = setInterval(() => {
-          const scrollHeight = document.body.scrollHeight;
-          window.scrollBy(0, distance);
-          totalHeight += distance;
-          
-          if (totalHeight >= scrollHeight) {
-            clearInterval(timer);
-            resolve(true);
-          }
-        }, 100);
+      // Measure before scrolling, while the first screen is the fold
+      const geometry = await measurePage(page).catch((error) => {
+        console.warn(`Could not measure elements on ${pageUrl}: ${error.message}`);
+        return { viewport: page.viewportSize() || { width: 1280, height: 720 }, elements: [] };
       });
-    });
     
-    // Take scrolled screenshot
-    await takeScreenshot(page, `page-${pageNumber}-scrolled`);
+      const canonicalUrl = await page.evaluate(() =>
+        document.querySelector('link[rel~="canonical" i]')?.getAttribute('href')
+      );
     
-    // Get the HTML content
-    const html = await page.content();
+      const pageTitle = await page.title();
+      console.log(`Page loaded: ${pageTitle}`);
     
-    // Analyze the page
-    const pageResult = await analyzeWebpage(pageUrl, html, pageTitle);
+      // Scroll through the page
+      await page.evaluate(() => {
+        window.scrollTo(0, 0);
+        return new Promise((resolve) => {
+          let totalHeight = 0;
+          const distance = 300;
+          const timer = setInterval(() => {
+            const scrollHeight = document.body.scrollHeight;
+            window.scrollBy(0, distance);
+            totalHeight += distance;
+          
+            if (totalHeight >= scrollHeight) {
+              clearInterval(timer);
+              resolve(true);
+            }
+          }, 100);
+        });
+      });
     
-    // Add to pages collection
-    pages.push(pageResult);
+      // Read the visible content once lazily loaded sections have rendered
+      const content = await distillPage(page);
     
-    // Take final screenshot
-    await takeScreenshot(page, `page-${pageNumber}-final`);
+      // Collect links if we're not at max depth
+      let links: string[] = [];
+      if (depth < maxDepth) {
+        const anchors = await page.evaluate(() => {
+          const anchors = Array.from(document.querySelectorAll('a[href]'));
+          return anchors.map(a => ({
+            href: (a as HTMLAnchorElement).href,
+            isNavigation: a.closest('nav, header') !== null
+          }));
+        });
+      
+        // Filter links to same domain
+        const baseHost = new URL(url).hostname;
+        const sameHostLinks = anchors.filter(link => {
+          try {
+            return new URL(link.href).hostname === baseHost;
+          } catch (e) {
+            return false;
+          }
+        });
+      
+        // Queue navigation links first; pages listed in the sitemap keep their priority
+        links = [
+          ...sameHostLinks.filter(link => link.isNavigation),
+          ...sameHostLinks.filter(link => !link.isNavigation)
+        ].map(link => link.href);
+      }
     
-    // Collect links if we're not at max depth
-    if (depth < maxDepth && pages.length < maxPages) {
-      console.log(`Collecting links from ${pageUrl}...`);
+      return { url: pageUrl, depth, title: pageTitle, canonicalUrl, content, links, overlays, geometry };
+    } catch (error) {
+      console.error(`Error reading ${pageUrl}: ${error instanceof Error ? error.message : String(error)}`);
+      return null;
+    }
+  }
+  
+  /**
+   * Reload each analyzed page to check the selectors the model reported, repairing those
+   * that match no element or several, to measure the elements the crawl did not, and to
+   * screenshot every element
+   */
+  async function reviewPages(pages: PageContent[]): Promise<void> {
+    await Promise.all(pages.map((pageContent, index) => {
+      if (pageContent.optimizableElements.length === 0) {
+        return;
+      }
       
-      // Get all links
-      const links = await page.evaluate(() => {
-        const anchors = Array.from(document.querySelectorAll('a[href]'));
-        return anchors.map(a => ({
-          href: a.href,
-          text: a.textContent.trim(),
-          isNavigation: a.closest('nav, header') !== null
-        }));
+      return pool.use(async (page) => {
+        try {
+          await frontier.throttle();
+          await page.goto(pageContent.pageUrl, { timeout, waitUntil: 'networkidle' });
+          await handleOverlays(page, options);
+        } catch (error: any) {
+          console.warn(`Could not reload ${pageContent.pageUrl} to review its elements: ${error.message}`);
+          return;
+        }
+        
+        // Elements matched to a measured element already carry a verified selector
+        const unchecked = pageContent.optimizableElements.filter((element) => !element.selectorStatus);
+        try {
+          const resolutions = await resolveSelectors(page, unchecked);
+          unchecked.forEach((element, elementIndex) => {
+            element.selector = resolutions[elementIndex].selector;
+            element.selectorStatus = resolutions[elementIndex].status;
+          });
+          
+          const repaired = resolutions.filter((resolution) => resolution.status === 'repaired').length;
+          const unresolved = resolutions.filter((resolution) => resolution.status === 'unresolved').length;
+          if (repaired > 0 || unresolved > 0) {
+            console.log(
+              `Selectors on ${pageContent.pageUrl}: ${repaired} repaired, ${unresolved} not found on the page`
+            );
+          }
+        } catch (error: any) {
+          console.warn(`Could not verify selectors on ${pageContent.pageUrl}: ${error.message}`);
+        }
+        
+        // The prompt only described the most prominent elements; the others are measured now
+        const unmeasured = pageContent.optimizableElements.filter(
+          (element) => !element.geometry && element.selectorStatus !== 'unresolved'
+        );
+        try {
+          const viewport = page.viewportSize() || { width: 1280, height: 720 };
+          const measurements = await measureSelectors(page, unmeasured.map((element) => element.selector));
+          unmeasured.forEach((element, elementIndex) => {
+            const measured = measurements[elementIndex];
+            if (measured) {
+              element.geometry = measured;
+              element.prominence = computeProminence(measured, viewport);
+              element.importance = prominenceLevel(element.prominence);
+            }
+          });
+        } catch (error: any) {
+          console.warn(`Could not measure the elements of ${pageContent.pageUrl}: ${error.message}`);
+        }
+        
+        try {
+          const elements = pageContent.optimizableElements;
+          const screenshots = await captureElementScreenshots(
+            page,
+            elements.map((element) => element.selector),
+            screenshotsDir,
+            `page-${index + 1}`
+          );
+          elements.forEach((element, elementIndex) => {
+            if (screenshots[elementIndex]) {
+              element.screenshots = screenshots[elementIndex];
+            }
+          });
+        } catch (error: any) {
+          console.warn(`Could not screenshot the elements of ${pageContent.pageUrl}: ${error.message}`);
+        }
       });
+    }));
+  }
+  
+  /**
+   * Measure every analyzed element on each device of the matrix
+   */
+  async function measureDevices(pages: PageContent[]): Promise<void> {
+    for (const device of matrix) {
+      console.log(`\nMeasuring elements on ${device.name}...`);
       
-      // Filter links to same domain
-      const sameHostLinks = links.filter(link => {
+      // The session saved by the crawl's login is reused rather than logging in again
+      let deviceContext: BrowserContext;
+      try {
+        deviceContext = await createAuthenticatedContext(browser, url, { ...options, freshLogin: false }, {
+          ...device.contextOptions,
+          ...(options.userAgent && { userAgent: options.userAgent }),
+        });
+      } catch (error) {
+        console.warn(
+          `Skipping ${device.name}: could not open a browser context (${error instanceof Error ? error.message : String(error)})`
+        );
+        continue;
+      }
+      const devicePool = new PagePool(deviceContext, concurrency);
+      
+      await Promise.all(pages.map((pageContent) => devicePool.use(async (page) => {
+        const elements = pageContent.optimizableElements;
+        if (elements.length === 0) {
+          return;
+        }
+        
         try {
-          const linkUrl = new URL(link.href);
-          const baseUrl = new URL(url);
-          return linkUrl.hostname === baseUrl.hostname;
-        } catch (e) {
-          return false;
+          await frontier.throttle();
+          await page.goto(pageContent.pageUrl, { timeout, waitUntil: 'networkidle' });
+          await handleOverlays(page, options);
+          
+          const placements = await measureElements(page, elements.map((element) => element.selector));
+          elements.forEach((element, elementIndex) => {
+            element.devices = { ...element.devices, [device.name]: placements[elementIndex] };
+          });
+        } catch (error) {
+          console.warn(
+            `Could not measure ${pageContent.pageUrl} on ${device.name}: ${error instanceof Error ? error.message : String(error)}`
+          );
         }
-      });
+      })));
       
-      // Prioritize navigation links
-      const prioritizedLinks = [
-        ...sameHostLinks.filter(link => link.isNavigation),
-        ...sameHostLinks.filter(link => !link.isNavigation)
-      ];
+      await devicePool.close();
+      await deviceContext.close();
+    }
+  }
+  
+  const pool = new PagePool(context, concurrency);
+  const limitAnalysis = createLimiter(analysisConcurrency);
+  // Analyses run in the background while the crawl continues, kept in acceptance order
+  const analyses: Promise<PageContent>[] = [];
+  
+  // Checkpoints record the frontier as of the last finished batch, when no page is in flight
+  const state: AdvancedScanState = {
+    frontier: frontier.snapshot(),
+    pages: saved?.pages.map((page) => ({ ...page })) || [],
+  };
+  
+  function contentPath(index: number): string {
+    return path.join(contentDir!, `page-${index + 1}.json`);
+  }
+  
+  /**
+   * Analyze an accepted page and checkpoint the result
+   */
+  function queueAnalysis(index: number, content: DistilledPage): Promise<PageContent> {
+    const { url: pageUrl, title, overlays, geometry } = state.pages[index];
+    
+    const analysis = limitAnalysis(() => analyzeWebpage(pageUrl, content, title, geometry)).then((analysis) => {
+      const result = overlays?.length ? { ...analysis, overlays } : analysis;
+      state.pages[index].result = result;
+      if (run) {
+        run.save(state);
+        fs.rmSync(contentPath(index), { force: true });
+      }
+      return result;
+    });
+    // The crawl awaits it later; until then a failed checkpoint write must not reject unhandled
+    analysis.catch(() => {});
+    return analysis;
+  }
+  
+  // Pages from the checkpoint keep their place; only unfinished analyses run again
+  state.pages.forEach((page, index) => {
+    if (page.result) {
+      analyses.push(Promise.resolve(page.result));
+    } else if (contentDir && fs.existsSync(contentPath(index))) {
+      analyses.push(queueAnalysis(index, JSON.parse(fs.readFileSync(contentPath(index), 'utf-8'))));
+    } else {
+      analyses.push(Promise.resolve({
+        pageUrl: page.url,
+        pageTitle: page.title,
+        optimizableElements: [],
+        analysisError: 'The page content saved by the interrupted run is missing',
+        ...(page.overlays?.length && { overlays: page.overlays }),
+      }));
+    }
+  });
+  if (saved) {
+    const done = state.pages.filter((page) => page.result).length;
+    console.log(`Restored ${state.pages.length} page(s) from the checkpoint (${done} already analyzed)`);
+  }
+  
+  try {
+    // Visit the highest priority pages in batches until the page budget is spent
+    while (analyses.length < maxPages && frontier.size > 0) {
+      const batch: FrontierEntry[] = [];
+      let next;
+      while (batch.length < Math.min(concurrency, maxPages - analyses.length) && (next = frontier.next())) {
+        batch.push(next);
+      }
       
-      // Get unique links
-      const uniqueLinks = [...new Set(prioritizedLinks.map(link => link.href))];
+      const visited = await Promise.all(
+        batch.map((entry) => pool.use((page) => visitPage(page, entry.url, entry.depth)))
+      );
       
-      // Process links recursively
-      for (const nextUrl of uniqueLinks) {
-        if (visitedUrls.has(nextUrl) || pages.length >= maxPages) {
+      // Apply results in dequeue order so the crawl does not depend on which page loaded first
+      for (const result of visited) {
+        if (!result || analyses.length >= maxPages) {
           continue;
         }
         
-        // Skip fragment links
-        if (nextUrl.includes('#')) {
+        // Pages whose canonical URL was already analyzed do not use up the page budget
+        if (!frontier.claimCanonical(result.url, result.canonicalUrl)) {
           continue;
         }
         
-        await processPage(nextUrl, depth + 1);
+        console.log(`Queued page ${analyses.length + 1} for analysis: ${result.url}`);
+        const index = state.pages.push({
+          url: result.url,
+          title: result.title,
+          ...(result.overlays.length > 0 && { overlays: result.overlays }),
+          geometry: result.geometry,
+        }) - 1;
+        if (contentDir) {
+          fs.writeFileSync(contentPath(index), JSON.stringify(result.content));
+        }
+        analyses.push(queueAnalysis(index, result.content));
         
-        if (pages.length >= maxPages) {
-          break;
+        // The frontier normalizes each URL, so variants of a known page are not queued again
+        for (const link of result.links) {
+          frontier.add(link, result.depth + 1);
         }
       }
+      
+      state.frontier = frontier.snapshot();
+      run?.save(state);
+    }
+    
+    const pages = await Promise.all(analyses);
+    await reviewPages(pages);
+    if (matrix.length > 0) {
+      await measureDevices(pages);
     }
-  }
-  
-  try {
-    // Start processing with the main URL
-    await processPage(url);
     
     // Close the browser
+    await pool.close();
     await browser.close();
     
     // Return the scan result
@@ -370,6 +710,8 @@ export async function scanWebsiteAdvanced(
     };
   } catch (error) {
     console.error(`Scan error: ${error.message}`);
+    // Let queued analyses settle so none of them reject unhandled
+    await Promise.allSettled(analyses);
     await browser.close();
     throw error;
   }
@@ -0,0 +1,342 @@
+/**
+ * Authentication for the website crawlers
+ *
+ * Pages behind a login are reached by logging in once before the crawl, either with a
+ * declarative recipe (a JSON file of form-fill steps) or with a login script, and saving
+ * the browser's storage state (cookies and local storage). Later scans reuse the saved
+ * state instead of logging in again. Staging environments can be reached with HTTP basic
+ * auth and extra request headers.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { z } from 'zod';
+import type { Browser, BrowserContext, BrowserContextOptions, Page } from 'playwright';
+
+export interface AuthOptions {
+  /** Login recipe (.json) or login script (.js, .mjs, .cjs, .ts) to run before the crawl */
+  login?: string;
+  /**
+   * Storage state file to load. With a login step it is also where the state is saved,
+   * and the login is skipped while the file exists.
+   */
+  storageState?: string;
+  /** Log in even if a saved storage state exists */
+  freshLogin?: boolean;
+  /** HTTP basic auth credentials, sent to the scanned site's origin only */
+  httpCredentials?: { username: string; password: string };
+  /** Headers sent with every request to the scanned site's origin, e.g. a staging access token */
+  extraHeaders?: Record<string, string>;
+}
+
+/**
+ * Options holding credentials; they are never written to scan checkpoints
+ */
+export const AUTH_SECRET_OPTIONS = ['httpCredentials', 'extraHeaders'];
+
+/**
+ * Arguments passed to a login script's exported function
+ */
+export interface LoginScriptContext {
+  page: Page;
+  context: BrowserContext;
+  /** URL of the site being scanned */
+  baseUrl: string;
+}
+
+export type LoginScript = (context: LoginScriptContext) => Promise<void>;
+
+const LoginStepSchema = z.union([
+  z.object({ goto: z.string() }),
+  z.object({ fill: z.string(), value: z.string() }),
+  z.object({ select: z.string(), value: z.string() }),
+  z.object({ check: z.string() }),
+  z.object({ click: z.string() }),
+  z.object({ press: z.string(), key: z.string() }),
+  z.object({ waitFor: z.string() }),
+]);
+
+/**
+ * A declarative login: open the login page, run the steps, then wait for the signs of a
+ * successful login. Strings may reference environment variables as ${NAME}, so passwords
+ * stay out of the recipe file.
+ */
+export const LoginRecipeSchema = z.object({
+  /** Login page, absolute or relative to the scanned site */
+  url: z.string(),
+  steps: z.array(LoginStepSchema).min(1),
+  /** URL (or glob such as "**\/dashboard") the browser reaches after logging in */
+  successUrl: z.string().optional(),
+  /** Selector that only appears once logged in */
+  successSelector: z.string().optional(),
+});
+
+export type LoginStep = z.infer<typeof LoginStepSchema>;
+export type LoginRecipe = z.infer<typeof LoginRecipeSchema>;
+
+const LOGIN_TIMEOUT = 30000;
+
+/** Redirects followed when fetching robots.txt and sitemaps */
+const MAX_REDIRECTS = 5;
+
+/**
+ * Thrown when the login step fails or its recipe or script cannot be used
+ */
+export class LoginError extends Error {
+  constructor(
+    public readonly source: string,
+    message: string
+  ) {
+    super(`Login (${source}): ${message}`);
+    this.name = 'LoginError';
+  }
+}
+
+/**
+ * Where the storage state of a site is loaded from and saved to
+ *
+ * @returns The configured storage state file, a per-host file under .steelpush/auth when
+ *   logging in, or undefined when the scan is not authenticated with a session
+ */
+export function resolveStorageStatePath(siteUrl: string, auth: AuthOptions): string | undefined {
+  if (auth.storageState) {
+    return path.resolve(auth.storageState);
+  }
+
+  return auth.login
+    ? path.join(process.cwd(), '.steelpush', 'auth', `${new URL(siteUrl).host.replace(/[^\w.-]/g, '_')}.json`)
+    : undefined;
+}
+
+/**
+ * Headers for requests to the scanned site made outside the browser (robots.txt and
+ * sitemaps); callers send them to the site's origin only
+ */
+export function authRequestHeaders(auth: AuthOptions): Record<string, string> {
+  const headers: Record<string, string> = { ...auth.extraHeaders };
+
+  if (auth.httpCredentials) {
+    const { username, password } = auth.httpCredentials;
+    headers['Authorization'] = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+  }
+
+  return headers;
+}
+
+/**
+ * Fetches a URL outside the browser, sending the headers only while the request goes to
+ * the site's origin; redirects are followed by hand so each hop is checked
+ *
+ * @param url URL to fetch
+ * @param origin Origin of the scanned site
+ * @param headers Request headers, such as authRequestHeaders; a User-Agent is sent everywhere
+ */
+export async function fetchWithSiteHeaders(
+  url: string,
+  origin: string,
+  headers: Record<string, string>
+): Promise<Response> {
+  const { 'User-Agent': userAgent, ...siteHeaders } = headers;
+  for (let redirects = 0; ; redirects++) {
+    const response = await fetch(url, {
+      headers: {
+        ...(new URL(url).origin === origin && siteHeaders),
+        ...(userAgent && { 'User-Agent': userAgent }),
+      },
+      redirect: 'manual',
+      signal: AbortSignal.timeout(15000),
+    });
+
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location || redirects >= MAX_REDIRECTS) {
+      return response;
+    }
+    url = new URL(location, url).href;
+  }
+}
+
+/**
+ * Creates a browser context that is logged in to the site
+ *
+ * A saved storage state is reused while it exists (unless freshLogin is set); otherwise
+ * the login step runs and its storage state is saved for the next scan. Basic auth
+ * credentials and extra headers go to the site's origin only, never to the third-party
+ * requests its pages make.
+ *
+ * @param browser Browser to create the context in
+ * @param siteUrl URL of the site being scanned
+ * @param auth Authentication options
+ * @param contextOptions Other options for the context, such as the viewport or user agent
+ * @throws LoginError if the login fails or the storage state file does not exist
+ */
+export async function createAuthenticatedContext(
+  browser: Browser,
+  siteUrl: string,
+  auth: AuthOptions,
+  contextOptions: BrowserContextOptions = {}
+): Promise<BrowserContext> {
+  const origin = new URL(siteUrl).origin;
+  const newContext = async (extra: BrowserContextOptions = {}) => {
+    const context = await browser.newContext({
+      ...contextOptions,
+      ...(auth.httpCredentials && { httpCredentials: { ...auth.httpCredentials, origin } }),
+      ...extra,
+    });
+    if (auth.extraHeaders) {
+      await sendHeadersToOrigin(context, origin, auth.extraHeaders);
+    }
+    return context;
+  };
+
+  const statePath = resolveStorageStatePath(siteUrl, auth);
+  if (statePath && fs.existsSync(statePath) && !(auth.login && auth.freshLogin)) {
+    console.log(`Using saved login state from ${statePath}`);
+    return newContext({ storageState: statePath });
+  }
+
+  if (!auth.login) {
+    if (statePath) {
+      throw new LoginError(statePath, 'storage state file does not exist');
+    }
+    return newContext();
+  }
+
+  const context = await newContext();
+  try {
+    await runLogin(context, siteUrl, auth.login);
+
+    fs.mkdirSync(path.dirname(statePath!), { recursive: true });
+    await context.storageState({ path: statePath });
+    console.log(`Logged in; saved login state to ${statePath}`);
+  } catch (error) {
+    await context.close();
+    throw error;
+  }
+
+  return context;
+}
+
+/**
+ * Adds headers to the context's requests to one origin; context-wide extraHTTPHeaders
+ * would also send them to every third-party host the pages load from
+ */
+async function sendHeadersToOrigin(
+  context: BrowserContext,
+  origin: string,
+  headers: Record<string, string>
+): Promise<void> {
+  await context.route('**/*', (route, request) =>
+    new URL(request.url()).origin === origin
+      ? route.continue({ headers: { ...request.headers(), ...headers } })
+      : route.continue()
+  );
+}
+
+/**
+ * Reads and validates a login recipe file
+ *
+ * @throws LoginError if the file is not a valid recipe
+ */
+export function readLoginRecipe(recipePath: string): LoginRecipe {
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(recipePath, 'utf-8'));
+  } catch (error: any) {
+    throw new LoginError(recipePath, `cannot read recipe (${error.message})`);
+  }
+
+  const parsed = LoginRecipeSchema.safeParse(data);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .slice(0, 5)
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new LoginError(recipePath, `invalid recipe: ${issues}`);
+  }
+
+  return parsed.data;
+}
+
+async function runLogin(context: BrowserContext, siteUrl: string, loginPath: string): Promise<void> {
+  const page = await context.newPage();
+  page.setDefaultTimeout(LOGIN_TIMEOUT);
+
+  try {
+    if (loginPath.endsWith('.json')) {
+      await runLoginRecipe(page, siteUrl, readLoginRecipe(loginPath), loginPath);
+    } else {
+      await runLoginScript({ page, context, baseUrl: siteUrl }, loginPath);
+    }
+  } finally {
+    await page.close();
+  }
+}
+
+async function runLoginRecipe(page: Page, siteUrl: string, recipe: LoginRecipe, source: string): Promise<void> {
+  const expand = (value: string) =>
+    value.replace(/\$\{(\w+)\}/g, (_, name) => {
+      const resolved = process.env[name];
+      if (resolved === undefined) {
+        throw new LoginError(source, `environment variable ${name} is not set`);
+      }
+      return resolved;
+    });
+
+  console.log(`Logging in at ${new URL(expand(recipe.url), siteUrl).href}`);
+  await page.goto(new URL(expand(recipe.url), siteUrl).href, { waitUntil: 'domcontentloaded' });
+
+  for (const [index, step] of recipe.steps.entries()) {
+    try {
+      if ('goto' in step) {
+        await page.goto(new URL(expand(step.goto), siteUrl).href, { waitUntil: 'domcontentloaded' });
+      } else if ('fill' in step) {
+        await page.fill(step.fill, expand(step.value));
+      } else if ('select' in step) {
+        await page.selectOption(step.select, expand(step.value));
+      } else if ('check' in step) {
+        await page.check(step.check);
+      } else if ('click' in step) {
+        await page.click(step.click);
+      } else if ('press' in step) {
+        await page.press(step.press, step.key);
+      } else {
+        await page.waitForSelector(step.waitFor);
+      }
+    } catch (error: any) {
+      if (error instanceof LoginError) {
+        throw error;
+      }
+      throw new LoginError(source, `step ${index + 1} (${Object.keys(step)[0]}) failed: ${error.message}`);
+    }
+  }
+
+  try {
+    if (recipe.successUrl) {
+      await page.waitForURL(recipe.successUrl);
+    }
+    if (recipe.successSelector) {
+      await page.waitForSelector(recipe.successSelector);
+    }
+    if (!recipe.successUrl && !recipe.successSelector) {
+      await page.waitForLoadState('networkidle');
+    }
+  } catch (error: any) {
+    throw new LoginError(source, `login did not succeed: ${error.message}`);
+  }
+}
+
+async function runLoginScript(context: LoginScriptContext, scriptPath: string): Promise<void> {
+  const exports = await import(pathToFileURL(path.resolve(scriptPath)).href);
+  const login: LoginScript | undefined = exports.login ?? exports.default;
+
+  if (typeof login !== 'function') {
+    throw new LoginError(scriptPath, 'script must export a login function (default export or "login")');
+  }
+
+  try {
+    await login(context);
+  } catch (error: any) {
+    throw new LoginError(scriptPath, error.message);
+  }
+}
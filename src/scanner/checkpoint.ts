@@ -0,0 +1,199 @@
+/**
+ * Resumable scan runs
+ *
+ * A scanner that supports checkpoints saves its progress (frontier, visited pages and the
+ * results so far) to a run directory after every page, and keeps its screenshots there.
+ * When a scan dies halfway, `steelpush analyze --resume <runId>` continues from the last
+ * checkpoint instead of starting over, so pages that were already analyzed are not sent
+ * to the model again.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+export const CHECKPOINT_VERSION = 1;
+
+export type ScanRunStatus = 'running' | 'complete';
+
+export interface ScanCheckpoint<State = unknown> {
+  version: number;
+  runId: string;
+  /** Registered name of the scanner that owns the run */
+  scanner: string;
+  /** URL or directory being scanned */
+  target: string;
+  /** Options the scan was started with, before validation */
+  options: Record<string, unknown>;
+  status: ScanRunStatus;
+  createdAt: string;
+  updatedAt: string;
+  /** Scanner-specific progress; absent until the scanner saves its first checkpoint */
+  state?: State;
+}
+
+/**
+ * Thrown when a run cannot be found or its checkpoint cannot be read
+ */
+export class CheckpointError extends Error {
+  constructor(
+    public readonly runId: string,
+    message: string
+  ) {
+    super(`Run ${runId}: ${message}`);
+    this.name = 'CheckpointError';
+  }
+}
+
+/**
+ * Directory holding all run directories; STEELPUSH_RUNS_DIR overrides the default
+ * .steelpush/runs in the current directory
+ */
+export function getRunsDir(): string {
+  return process.env.STEELPUSH_RUNS_DIR || path.join(process.cwd(), '.steelpush', 'runs');
+}
+
+/**
+ * A scan run and its on-disk checkpoint
+ */
+export class ScanRun<State = unknown> {
+  private constructor(
+    readonly dir: string,
+    private checkpoint: ScanCheckpoint<State>
+  ) {}
+
+  /**
+   * Creates the run directory for a new scan
+   *
+   * @param scanner Registered name of the scanner
+   * @param target URL or directory being scanned
+   * @param options Options the scan was started with
+   */
+  static create<State>(scanner: string, target: string, options: Record<string, unknown>): ScanRun<State> {
+    const runId = createRunId();
+    const now = new Date().toISOString();
+    const run = new ScanRun<State>(path.join(getRunsDir(), runId), {
+      version: CHECKPOINT_VERSION,
+      runId,
+      scanner,
+      target,
+      options,
+      status: 'running',
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    fs.mkdirSync(run.dir, { recursive: true });
+    run.write();
+    return run;
+  }
+
+  /**
+   * Opens the checkpoint of an earlier run
+   *
+   * @throws CheckpointError if the run does not exist or its checkpoint is unreadable
+   */
+  static open<State>(runId: string): ScanRun<State> {
+    if (!/^[\w.-]+$/.test(runId)) {
+      throw new CheckpointError(runId, 'not a valid run ID');
+    }
+
+    const dir = path.join(getRunsDir(), runId);
+    const checkpointPath = path.join(dir, 'checkpoint.json');
+    if (!fs.existsSync(checkpointPath)) {
+      throw new CheckpointError(runId, `no checkpoint found in ${dir}`);
+    }
+
+    let checkpoint: ScanCheckpoint<State>;
+    try {
+      checkpoint = JSON.parse(fs.readFileSync(checkpointPath, 'utf-8'));
+    } catch (error: any) {
+      throw new CheckpointError(runId, `checkpoint is not valid JSON (${error.message})`);
+    }
+
+    if (checkpoint.version !== CHECKPOINT_VERSION) {
+      throw new CheckpointError(
+        runId,
+        `checkpoint version ${checkpoint.version} is not supported (expected ${CHECKPOINT_VERSION})`
+      );
+    }
+
+    return new ScanRun(dir, checkpoint);
+  }
+
+  get runId(): string {
+    return this.checkpoint.runId;
+  }
+
+  get scanner(): string {
+    return this.checkpoint.scanner;
+  }
+
+  get target(): string {
+    return this.checkpoint.target;
+  }
+
+  get options(): Record<string, unknown> {
+    return this.checkpoint.options;
+  }
+
+  get status(): ScanRunStatus {
+    return this.checkpoint.status;
+  }
+
+  /**
+   * Progress saved by the scanner, or undefined if the run has not saved any yet
+   */
+  get state(): State | undefined {
+    return this.checkpoint.state;
+  }
+
+  /**
+   * Directory for the run's screenshots
+   */
+  get screenshotsDir(): string {
+    return path.join(this.dir, 'screenshots');
+  }
+
+  /**
+   * Replaces the options a resumed run continues with
+   */
+  updateOptions(options: Record<string, unknown>): void {
+    this.checkpoint.options = options;
+    this.write();
+  }
+
+  /**
+   * Saves the scanner's progress
+   */
+  save(state: State): void {
+    this.checkpoint.state = state;
+    this.write();
+  }
+
+  /**
+   * Marks the run as finished
+   */
+  complete(): void {
+    this.checkpoint.status = 'complete';
+    this.write();
+  }
+
+  private write(): void {
+    this.checkpoint.updatedAt = new Date().toISOString();
+
+    // Write to a temporary file first so a crash mid-write never corrupts the checkpoint
+    const checkpointPath = path.join(this.dir, 'checkpoint.json');
+    const temporaryPath = `${checkpointPath}.tmp`;
+    fs.writeFileSync(temporaryPath, JSON.stringify(this.checkpoint, null, 2));
+    fs.renameSync(temporaryPath, checkpointPath);
+  }
+}
+
+/**
+ * Creates a sortable, readable run ID such as 20261018-142530-3fa9
+ */
+function createRunId(): string {
+  const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  return `${timestamp}-${crypto.randomBytes(2).toString('hex')}`;
+}
@@ -4,8 +4,22 @@ import { glob } from "glob";
 import { Agent } from "@mastra/core/agent";
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
-import { anthropic } from "@ai-sdk/anthropic";
-import { config } from "../config";
+import { analyzeSourceHeuristics, CopyRule, HeuristicsMode } from "../analyzer/heuristic-analyzer";
+import { getModel } from "../providers";
+import {
+  generateStructuredWithAgent,
+  StructuredOutputError,
+} from "../utils/structured-output";
+import { classifyStrings } from "./copy-classifier";
+import {
+  groupTranslations,
+  isTranslationFile,
+  parseTranslationFile,
+  sourceLocale,
+  TranslationEntry,
+} from "./locale-parser";
+import { extractMarkupStrings } from "./markup-extractor";
+import { ExtractedString, extractJsxStrings } from "./source-extractor";
 
 export interface CodeContent {
   file: string;
@@ -14,12 +28,42 @@ export interface CodeContent {
   location: string; // Where in the code this appears (component name, function, etc.)
   importance: "high" | "medium" | "low";
   optimizationPotential: "high" | "medium" | "low";
+  lineNumber?: number; // Exact 1-based position, for strings found by a source extractor
+  column?: number;
+  translationKey?: string; // Key of a locale file value ("namespace:key" for split resources)
+  translations?: Record<string, string>; // The key's value in each locale
+  issue?: string; // What a rule-based check found wrong with the copy
+  recommendation?: string;
+  rule?: string; // The rule-based check that reported the issue
+}
+
+export const CodeContentSchema = z.object({
+  file: z.string(),
+  type: z.string(),
+  content: z.string(),
+  location: z.string(),
+  importance: z.enum(["high", "medium", "low"]),
+  optimizationPotential: z.enum(["high", "medium", "low"]),
+});
+
+const FileContentSchema = z.object({
+  items: z.array(CodeContentSchema.omit({ file: true })),
+});
+
+export interface CodebaseScanOptions {
+  /**
+   * How the copy rules are used: "only" reports the strings that break a rule without a
+   * model, "prefilter" only classifies files and translation keys that break one; both
+   * skip files no extractor can parse. Other modes classify everything.
+   */
+  heuristics?: HeuristicsMode;
 }
 
 export interface CodebaseScanResult {
   basePath: string;
   scannedFiles: string[];
   content: CodeContent[];
+  failedFiles?: Array<{ file: string; error: string }>; // Files whose analysis could not be parsed
   metadata: {
     scanDuration: number;
     fileCount: number;
@@ -29,10 +73,16 @@ export interface CodebaseScanResult {
 }
 
 /**
- * Scans a codebase directory to extract content using Mastra agents
+ * Scans a codebase directory to extract content
+ *
+ * Strings in JSX and TSX modules and in Vue, Svelte and Astro components are found by
+ * parsing the source, and the model only classifies them; so are the values of
+ * translation files, once per key across all locales. Other files are read by a Mastra
+ * agent.
  */
 export async function scanCodebase(
-  directoryPath: string
+  directoryPath: string,
+  options: CodebaseScanOptions = {}
 ): Promise<CodebaseScanResult> {
   console.log(`Starting codebase scan for: ${directoryPath}`);
   const startTime = Date.now();
@@ -41,48 +91,16 @@ export async function scanCodebase(
   const codeFiles = await getCodeFiles(directoryPath);
   console.log(`Found ${codeFiles.length} files to scan`);
 
-  // Create tools for the agent
-  const tools = createCodeScanningTools();
-
-  // Create content scanner agent
-  const agent = new Agent({
-    name: "codebase-content-scanner",
-    instructions: `
-      You are an expert code analyzer tasked with finding content in codebases.
-      Your goal is to identify text content in code that could be optimized to improve conversion rates.
-      
-      When analyzing code files:
-      1. Focus on user-facing content like UI text, error messages, and button labels
-      2. Identify where the content appears in the code (components, functions, etc.)
-      3. Categorize content by type (heading, CTA, description, etc.)
-      4. Assess its importance and potential for optimization
-      
-      Look for content in:
-      - React/Vue/Svelte/Angular components
-      - HTML templates
-      - Translation files and string resources
-      - Text passed to UI elements
-      - Form labels and validation messages
-      
-      For each content element, record:
-      - The file it appears in
-      - The type of content (heading, cta, description, etc.)
-      - The actual text content
-      - Where it appears within the file (component, function, etc.)
-      - Its importance level (high, medium, low)
-      - Its potential for optimization (high, medium, low)
-      
-      Be technology-agnostic and understand different frontend frameworks.
-      Focus on finding content that impacts user experience and conversion.
-    `,
-    model: anthropic(config.analysis.modelName),
-    tools,
-  });
+  // The agent, and with it the model, is only created once a file needs it
+  let agent: Agent | undefined;
+  const getAgent = () => (agent ??= createContentAgent());
 
   // Track scanned files and content
   const scannedFiles: string[] = [];
   const contentItems: CodeContent[] = [];
+  const failedFiles: Array<{ file: string; error: string }> = [];
   const fileTypes: Record<string, number> = {};
+  const translations: TranslationEntry[] = [];
 
   // Process files in batches
   const batchSize = 5;
@@ -94,7 +112,13 @@ export async function scanCodebase(
 
     // Process each file in the batch
     for (const filePath of batch) {
-      await scanFile(agent, filePath, scannedFiles, contentItems);
+      const entries = isTranslationFile(filePath) ? readTranslations(filePath) : null;
+      if (entries) {
+        translations.push(...entries);
+        scannedFiles.push(filePath);
+      } else {
+        await scanFile(getAgent, filePath, scannedFiles, contentItems, failedFiles, options.heuristics);
+      }
 
       // Track file types
       const ext = path.extname(filePath).toLowerCase();
@@ -102,6 +126,10 @@ export async function scanCodebase(
     }
   }
 
+  if (translations.length > 0) {
+    await scanTranslations(translations, contentItems, failedFiles, options.heuristics);
+  }
+
   // Calculate metadata
   const scanDuration = Date.now() - startTime;
 
@@ -110,6 +138,7 @@ export async function scanCodebase(
     basePath: directoryPath,
     scannedFiles,
     content: contentItems,
+    failedFiles,
     metadata: {
       scanDuration,
       fileCount: scannedFiles.length,
@@ -129,9 +158,8 @@ async function getCodeFiles(directory: string): Promise<string[]> {
     "**/*.{html,htm}",
 
     // Translation files
-    "**/locales/**/*.{json,js,ts}",
-    "**/translations/**/*.{json,js,ts}",
-    "**/i18n/**/*.{json,js,ts}",
+    "**/{locales,locale,i18n,translations,lang,messages}/**/*.{json,js,ts,yaml,yml}",
+    "**/*.{po,xlf,xliff}",
 
     // Content files
     "**/*.{md,mdx}",
@@ -161,7 +189,146 @@ async function getCodeFiles(directory: string): Promise<string[]> {
     files = files.concat(matches);
   }
 
-  return files;
+  // Locale modules match both the source and the translation patterns
+  return [...new Set(files)];
+}
+
+/**
+ * Parses a translation file
+ *
+ * @returns Its records, or null when it could not be parsed and is left to the agent
+ */
+function readTranslations(filePath: string): TranslationEntry[] | null {
+  try {
+    return parseTranslationFile(filePath, fs.readFileSync(filePath, "utf-8"));
+  } catch (error: any) {
+    console.warn(`Could not parse ${filePath} as a translation file: ${error.message}`);
+    return null;
+  }
+}
+
+/**
+ * Classifies translation values once per key, by their text in the source locale, and
+ * records each key with its value in every locale
+ */
+async function scanTranslations(
+  entries: TranslationEntry[],
+  contentItems: CodeContent[],
+  failedFiles: Array<{ file: string; error: string }>,
+  heuristics?: HeuristicsMode
+): Promise<void> {
+  const groups = groupTranslations(entries);
+  const locale = sourceLocale(entries);
+  const primary = new Map(
+    groups.map((group) => [
+      group.id,
+      group.entries.find((entry) => entry.locale === locale) || group.entries[0],
+    ]),
+  );
+  const byId = new Map(groups.map((group) => [group.id, group]));
+  const keyContent = (id: string) => ({
+    location: id,
+    translationKey: id,
+    translations: Object.fromEntries(
+      byId.get(id)!.entries.map((entry) => [entry.locale || "default", entry.value]),
+    ),
+  });
+
+  let strings: ExtractedString[] = groups.map((group) => {
+    const entry = primary.get(group.id)!;
+    return {
+      text: entry.value,
+      file: entry.file,
+      line: entry.line,
+      column: entry.column,
+      start: entry.start,
+      end: entry.end,
+      kind: "translation" as const,
+      key: group.id,
+    };
+  });
+
+  if (heuristics === "only" || heuristics === "prefilter") {
+    const flagged = analyzeSourceHeuristics(strings);
+    if (heuristics === "only") {
+      for (const { string, finding } of flagged) {
+        contentItems.push({
+          ...flaggedContent(string, finding),
+          ...keyContent(string.key!),
+        });
+      }
+      return;
+    }
+    strings = flagged.map(({ string }) => string);
+    if (strings.length === 0) {
+      return;
+    }
+  }
+
+  console.log(
+    `Classifying ${strings.length} translation keys${locale ? ` (source locale ${locale})` : ""}`,
+  );
+
+  try {
+    const classified = await classifyStrings(strings);
+
+    for (const item of classified) {
+      contentItems.push({
+        file: item.file,
+        type: item.type,
+        content: item.text,
+        importance: item.importance,
+        optimizationPotential: item.optimizationPotential,
+        ...keyContent(item.key!),
+      });
+    }
+  } catch (error: any) {
+    const reason =
+      error instanceof StructuredOutputError ? error.message : String(error.message || error);
+    console.error(`Error classifying translations: ${reason}`);
+    for (const file of new Set(entries.map((entry) => entry.file))) {
+      failedFiles.push({ file, error: reason });
+    }
+  }
+}
+
+/**
+ * Creates the agent that reads files no source extractor can parse
+ */
+function createContentAgent(): Agent {
+  return new Agent({
+    name: "codebase-content-scanner",
+    instructions: `
+      You are an expert code analyzer tasked with finding content in codebases.
+      Your goal is to identify text content in code that could be optimized to improve conversion rates.
+      
+      When analyzing code files:
+      1. Focus on user-facing content like UI text, error messages, and button labels
+      2. Identify where the content appears in the code (components, functions, etc.)
+      3. Categorize content by type (heading, CTA, description, etc.)
+      4. Assess its importance and potential for optimization
+      
+      Look for content in:
+      - React/Vue/Svelte/Angular components
+      - HTML templates
+      - Translation files and string resources
+      - Text passed to UI elements
+      - Form labels and validation messages
+      
+      For each content element, record:
+      - The file it appears in
+      - The type of content (heading, cta, description, etc.)
+      - The actual text content
+      - Where it appears within the file (component, function, etc.)
+      - Its importance level (high, medium, low)
+      - Its potential for optimization (high, medium, low)
+      
+      Be technology-agnostic and understand different frontend frameworks.
+      Focus on finding content that impacts user experience and conversion.
+    `,
+    model: getModel(),
+    tools: createCodeScanningTools(),
+  });
 }
 
 /**
@@ -193,16 +360,7 @@ function createCodeScanningTools() {
       filePath: z.string().describe("Path to the file being analyzed"),
       fileContent: z.string().describe("Content of the file to analyze"),
     }),
-    outputSchema: z.array(
-      z.object({
-        file: z.string(),
-        type: z.string(),
-        content: z.string(),
-        location: z.string(),
-        importance: z.enum(["high", "medium", "low"]),
-        optimizationPotential: z.enum(["high", "medium", "low"]),
-      })
-    ),
+    outputSchema: z.array(CodeContentSchema),
     execute: async ({ context }) => {
       try {
         // The agent will perform the analysis and return structured data
@@ -222,12 +380,17 @@ function createCodeScanningTools() {
 
 /**
  * Scans a single file for content
+ *
+ * Files with JSX and component markup are parsed; the model is only called when they
+ * contain strings, or with heuristics "prefilter", strings that break a copy rule.
  */
 async function scanFile(
-  agent: Agent,
+  getAgent: () => Agent,
   filePath: string,
   scannedFiles: string[],
-  contentItems: CodeContent[]
+  contentItems: CodeContent[],
+  failedFiles: Array<{ file: string; error: string }>,
+  heuristics?: HeuristicsMode
 ): Promise<void> {
   console.log(`Scanning file: ${filePath}`);
 
@@ -241,11 +404,48 @@ async function scanFile(
       return;
     }
 
-    // Let the agent analyze the file
-    const result = await agent.generate([
-      {
-        role: "user",
-        content: `
+    const strings =
+      extractJsxStrings(filePath, fileContent) ?? extractMarkupStrings(filePath, fileContent);
+    if (strings) {
+      const flagged =
+        heuristics === "only" || heuristics === "prefilter" ? analyzeSourceHeuristics(strings) : [];
+      if (heuristics === "only") {
+        scannedFiles.push(filePath);
+        flagged.forEach(({ string, finding }) => contentItems.push(flaggedContent(string, finding)));
+        return;
+      }
+      if (heuristics === "prefilter" && flagged.length === 0) {
+        scannedFiles.push(filePath);
+        return;
+      }
+
+      const classified = await classifyStrings(strings);
+      scannedFiles.push(filePath);
+      classified.forEach((item) =>
+        contentItems.push({
+          file: filePath,
+          type: item.type,
+          content: item.text,
+          location: stringLocation(item),
+          importance: item.importance,
+          optimizationPotential: item.optimizationPotential,
+          lineNumber: item.line,
+          column: item.column,
+        }),
+      );
+      return;
+    }
+
+    // The rules cannot read what no extractor parsed
+    if (heuristics === "only" || heuristics === "prefilter") {
+      console.log(`Skipping ${filePath}: no source extractor for this file`);
+      return;
+    }
+
+    // Let the agent analyze the file and return schema-validated items
+    const result = await generateStructuredWithAgent(
+      getAgent(),
+      `
           Analyze this file for user-facing content that could be optimized for conversion:
           
           File: ${filePath}
@@ -261,70 +461,53 @@ async function scanFile(
           If it does, identify and categorize each piece of content.
           For each content element, assess its importance and optimization potential.
           
-          Provide your findings in a structured format, focusing only on actual content that users would see.
+          Respond with a JSON object whose "items" array lists each content element,
+          focusing only on actual content that users would see (an empty array if there is none).
           Ignore variable names, function names, and other technical code elements.
         `,
-      },
-    ]);
+      FileContentSchema,
+      { label: `content items for ${filePath}` }
+    );
 
     // Mark file as scanned
     scannedFiles.push(filePath);
 
-    // Process the agent's response to extract content items
-    try {
-      // Get tool calls from the response
-      const toolCalls = result.toolCalls || [];
-
-      // Find analyze_content tool calls
-      const analyzeContentCalls = toolCalls.filter(
-        (call) => call.toolName === "analyze_content"
-      );
-
-      // Extract content items
-      for (const call of analyzeContentCalls) {
-        // Since the outputSchema of the tool is an array, we just need to add the items to our list
-        // Check if result is available and is an array
-        const callResult = (call as any).result;
-        if (callResult && Array.isArray(callResult)) {
-          callResult.forEach((item: CodeContent) => contentItems.push(item));
-        }
-      }
-
-      // If no tool calls or no content found, try to parse from the response text
-      if (contentItems.length === 0) {
-        // Try to extract JSON from the response text
-        const jsonMatches = result.text.match(
-          /```(?:json)?\s*([\s\S]*?)\s*```/
-        ) || [null, result.text];
-        const jsonText = jsonMatches[1].trim();
-
-        try {
-          const parsedItems = JSON.parse(jsonText);
-          if (Array.isArray(parsedItems)) {
-            parsedItems.forEach((item: CodeContent) => contentItems.push(item));
-          }
-        } catch (error) {
-          // If JSON parsing fails, try regexp-based extraction
-          const contentRegex =
-            /Content:\s*"([^"]+)"\s*Type:\s*(\w+)\s*Location:\s*([^\n]+)\s*Importance:\s*(\w+)\s*Optimization Potential:\s*(\w+)/g;
-
-          let match;
-          while ((match = contentRegex.exec(result.text)) !== null) {
-            contentItems.push({
-              file: filePath,
-              content: match[1],
-              type: match[2],
-              location: match[3],
-              importance: match[4] as "high" | "medium" | "low",
-              optimizationPotential: match[5] as "high" | "medium" | "low",
-            });
-          }
-        }
-      }
-    } catch (error) {
-      console.error(`Error processing response for ${filePath}:`, error);
-    }
-  } catch (error) {
+    result.items.forEach((item) => contentItems.push({ file: filePath, ...item }));
+  } catch (error: any) {
     console.error(`Error scanning file ${filePath}:`, error);
+    failedFiles.push({
+      file: filePath,
+      error: error instanceof StructuredOutputError ? error.message : String(error.message || error),
+    });
   }
 }
+
+/**
+ * Where in its file an extracted string appears: component, element and slot
+ */
+function stringLocation(item: ExtractedString): string {
+  return (
+    [item.component, item.element && `<${item.element}>`, item.slot && `slot "${item.slot}"`]
+      .filter(Boolean)
+      .join(" ") || path.basename(item.file)
+  );
+}
+
+/**
+ * Content for a string that breaks a copy rule, described by the rule
+ */
+function flaggedContent(item: ExtractedString, finding: CopyRule): CodeContent {
+  return {
+    file: item.file,
+    type: finding.type,
+    content: item.text,
+    location: stringLocation(item),
+    importance: finding.importance || (/^h1$/i.test(item.element || "") ? "high" : "medium"),
+    optimizationPotential: finding.optimizationPotential,
+    lineNumber: item.line,
+    column: item.column,
+    issue: finding.issue,
+    recommendation: finding.recommendation,
+    rule: finding.rule,
+  };
+}
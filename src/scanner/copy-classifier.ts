@@ -0,0 +1,102 @@
+/**
+ * Classification of extracted strings
+ *
+ * Strings found by the source extractors are sent to the model in numbered batches. The
+ * model only decides which ones are user-facing copy, what kind, and how much they matter;
+ * text and positions stay as extracted.
+ */
+
+import path from 'path';
+import type { LanguageModel } from 'ai';
+import { z } from 'zod';
+import { generateStructured } from '../utils/structured-output';
+import type { ExtractedString } from './source-extractor';
+
+export interface ClassifiedString extends ExtractedString {
+  /** heading, cta, description, label, error, ... */
+  type: string;
+  importance: 'high' | 'medium' | 'low';
+  optimizationPotential: 'high' | 'medium' | 'low';
+}
+
+const LevelSchema = z.enum(['high', 'medium', 'low']);
+
+const ClassificationSchema = z.object({
+  items: z.array(
+    z.object({
+      id: z.number().int(),
+      type: z.string(),
+      importance: LevelSchema,
+      optimizationPotential: LevelSchema,
+    })
+  ),
+});
+
+/**
+ * Maximum number of strings classified in one request
+ */
+const BATCH_SIZE = 150;
+
+/**
+ * Classifies extracted strings, dropping those that are not user-facing copy
+ *
+ * @param strings Strings to classify, from any number of files
+ * @param model Model to use (default: the configured model)
+ * @returns The user-facing strings, in input order
+ * @throws StructuredOutputError if a batch could not be classified
+ */
+export async function classifyStrings(
+  strings: ExtractedString[],
+  model?: LanguageModel
+): Promise<ClassifiedString[]> {
+  const classified: ClassifiedString[] = [];
+
+  for (let offset = 0; offset < strings.length; offset += BATCH_SIZE) {
+    const batch = strings.slice(offset, offset + BATCH_SIZE);
+    const lines = batch.map((item, index) => {
+      const place = [
+        item.key ? `${path.basename(item.file)} key ${item.key}` : `${path.basename(item.file)}:${item.line}`,
+        item.component,
+        item.element && `<${item.element}${item.prop ? ` ${item.prop}=` : ''}>`,
+        item.slot && `slot ${item.slot}`,
+      ].filter(Boolean);
+      return `${index + 1}. [${place.join(' ')}] ${JSON.stringify(item.text)}`;
+    });
+
+    const result = await generateStructured({
+      model,
+      schema: ClassificationSchema,
+      label: 'string classification',
+      temperature: 0.1,
+      prompt: `
+        These strings were extracted from a site's source code, each with its file and line
+        (or translation key), component and the element or prop it belongs to. "{name}" marks a value filled in
+        at runtime.
+
+        ${lines.join('\n        ')}
+
+        You are an expert in website conversion rate optimization. Decide which strings are
+        copy a visitor reads (headlines, calls to action, descriptions, labels, messages) and
+        skip the rest, such as developer notes, test data and technical identifiers.
+
+        Respond with a JSON object whose "items" array has one entry per user-facing string:
+        - id: the string's number
+        - type: heading, subheading, cta, description, feature, benefit, testimonial, label,
+          placeholder, error, navigation or other
+        - importance: how much the string affects conversion (high, medium, low)
+        - optimizationPotential: how much it could improve (high, medium, low)
+      `,
+    });
+
+    const byId = new Map(result.items.map((item) => [item.id, item]));
+    batch.forEach((item, index) => {
+      const classification = byId.get(index + 1);
+      if (classification) {
+        const { id, ...fields } = classification;
+        classified.push({ ...item, ...fields });
+      }
+    });
+  }
+
+  return classified;
+}
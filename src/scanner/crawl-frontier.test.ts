@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CrawlFrontier } from './crawl-frontier';
+import { parseRobotsTxt } from './robots';
+
+function drain(frontier: CrawlFrontier): string[] {
+  const urls: string[] = [];
+  for (let entry = frontier.next(); entry; entry = frontier.next()) {
+    urls.push(entry.url);
+  }
+  return urls;
+}
+
+describe('CrawlFrontier', () => {
+  it('returns the highest priority first and keeps discovery order within a priority', () => {
+    const frontier = new CrawlFrontier();
+    frontier.add('https://example.com/a', 1);
+    frontier.add('https://example.com/b', 1, 0.5);
+    frontier.add('https://example.com/', 0, 2);
+    frontier.add('https://example.com/c', 1);
+    frontier.add('https://example.com/d', 1, 0.5);
+
+    assert.equal(frontier.size, 5);
+    assert.deepEqual(drain(frontier), [
+      'https://example.com/',
+      'https://example.com/b',
+      'https://example.com/d',
+      'https://example.com/a',
+      'https://example.com/c',
+    ]);
+    assert.equal(frontier.size, 0);
+  });
+
+  it('queues each normalized URL once and never URLs robots.txt disallows', () => {
+    const frontier = new CrawlFrontier(parseRobotsTxt('User-agent: *\nDisallow: /admin'));
+
+    assert.equal(frontier.add('https://example.com/pricing', 1), true);
+    assert.equal(frontier.add('https://example.com/pricing/?utm_source=x#plans', 1), false);
+    assert.equal(frontier.add('https://example.com/admin', 1), false);
+    assert.equal(frontier.add('mailto:hi@example.com', 1), false);
+    assert.deepEqual(drain(frontier), ['https://example.com/pricing']);
+  });
+
+  it('drops a queued canonical URL and reports pages whose canonical was visited', () => {
+    const frontier = new CrawlFrontier();
+    frontier.add('https://example.com/pricing?plan=pro', 1);
+    frontier.add('https://example.com/pricing', 1);
+    frontier.add('https://example.com/about', 1);
+
+    const page = frontier.next()!;
+    assert.equal(frontier.claimCanonical(page.url, '/pricing'), true);
+    assert.equal(frontier.size, 1);
+    assert.deepEqual(drain(frontier), ['https://example.com/about']);
+
+    frontier.add('https://example.com/pricing?plan=team', 1);
+    const duplicate = frontier.next()!;
+    assert.equal(frontier.claimCanonical(duplicate.url, 'https://example.com/pricing'), false);
+    assert.equal(frontier.claimCanonical(duplicate.url, 'https://other.example/pricing'), true);
+  });
+
+  it('restores a snapshot in the same order', () => {
+    const frontier = new CrawlFrontier();
+    frontier.add('https://example.com/', 0, 2);
+    frontier.add('https://example.com/a', 1);
+    frontier.add('https://example.com/b', 1, 0.8);
+    frontier.next();
+
+    const restored = new CrawlFrontier();
+    restored.restore(JSON.parse(JSON.stringify(frontier.snapshot())));
+
+    assert.equal(restored.add('https://example.com/', 0), false);
+    assert.deepEqual(drain(restored), ['https://example.com/b', 'https://example.com/a']);
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * Crawl frontier shared by the website crawlers
+ *
+ * Holds the pages still to visit, highest priority first: the start page, then the
+ * site's sitemap in priority order, then links discovered while crawling. URLs are
+ * normalized before they are compared, so each page is visited once. URLs that
+ * robots.txt disallows never enter the frontier, and Crawl-delay is honored between
+ * requests.
+ */
+
+import { ALLOW_ALL, DEFAULT_ROBOTS_USER_AGENT, fetchRobotsTxt, RobotsPolicy } from './robots';
+import { fetchSitemapEntries } from './sitemap';
+import { normalizeUrl, UrlNormalizerOptions } from './url-normalizer';
+
+export interface CrawlPolicyOptions extends UrlNormalizerOptions {
+  /** User agent matched against robots.txt and sent when fetching it and the sitemaps */
+  userAgent?: string;
+  /** Honor robots.txt Disallow and Crawl-delay (default true) */
+  respectRobots?: boolean;
+  /** Seed the frontier from sitemap.xml (default true) */
+  useSitemap?: boolean;
+  /** Extra headers sent when fetching robots.txt and the sitemaps on the site's origin */
+  headers?: Record<string, string>;
+}
+
+export interface FrontierEntry {
+  url: string;
+  depth: number;
+  priority: number;
+}
+
+/**
+ * Serializable frontier contents, saved in scan checkpoints
+ */
+export interface FrontierState {
+  queue: FrontierEntry[];
+  seen: string[];
+  visited: string[];
+}
+
+/**
+ * Priority of the start page, above any sitemap priority (which range from 0 to 1)
+ */
+const START_PRIORITY = 2;
+
+/**
+ * Priority of links discovered on crawled pages, below pages the sitemap lists
+ */
+const DISCOVERED_PRIORITY = 0;
+
+export class CrawlFrontier {
+  /** Queued entries by priority, each bucket in discovery order from its head */
+  private readonly buckets = new Map<number, { entries: FrontierEntry[]; head: number }>();
+  /** Priorities that have a bucket, highest first */
+  private readonly priorities: number[] = [];
+  /** URLs still queued; entries whose URL was dropped from here are skipped */
+  private readonly queued = new Set<string>();
+  /** Normalized URLs that were queued or visited */
+  private readonly seen = new Set<string>();
+  /** Normalized URLs that were visited, including the canonical URLs of visited pages */
+  private readonly visited = new Set<string>();
+  /** Earliest time the next request may start */
+  private nextRequest = 0;
+
+  constructor(
+    private readonly robots: RobotsPolicy = ALLOW_ALL,
+    private readonly normalizerOptions: UrlNormalizerOptions = {}
+  ) {}
+
+  /**
+   * Queues a URL unless it was seen before or robots.txt disallows it
+   *
+   * @param url Absolute URL; it is normalized before queueing
+   * @returns Whether the URL was queued
+   */
+  add(url: string, depth: number, priority: number = DISCOVERED_PRIORITY): boolean {
+    const normalized = this.normalize(url);
+    if (!normalized || this.seen.has(normalized)) {
+      return false;
+    }
+    this.seen.add(normalized);
+
+    if (!this.robots.isAllowed(normalized)) {
+      console.log(`Skipping ${normalized} (disallowed by robots.txt)`);
+      return false;
+    }
+
+    this.enqueue({ url: normalized, depth, priority });
+    return true;
+  }
+
+  /**
+   * Removes and returns the highest priority entry, marking it visited
+   */
+  next(): FrontierEntry | undefined {
+    while (this.priorities.length > 0) {
+      const priority = this.priorities[0];
+      const bucket = this.buckets.get(priority)!;
+      while (bucket.head < bucket.entries.length) {
+        const entry = bucket.entries[bucket.head++];
+        if (this.queued.delete(entry.url)) {
+          this.visited.add(entry.url);
+          return entry;
+        }
+      }
+      this.buckets.delete(priority);
+      this.priorities.shift();
+    }
+
+    return undefined;
+  }
+
+  get size(): number {
+    return this.queued.size;
+  }
+
+  /**
+   * Copies the queue and the seen and visited URLs for a checkpoint
+   */
+  snapshot(): FrontierState {
+    return {
+      queue: this.entries().map((entry) => ({ ...entry })),
+      seen: [...this.seen],
+      visited: [...this.visited],
+    };
+  }
+
+  /**
+   * Replaces the frontier's contents with a snapshot
+   */
+  restore(state: FrontierState): void {
+    this.buckets.clear();
+    this.priorities.length = 0;
+    this.queued.clear();
+    state.queue.forEach((entry) => this.enqueue({ ...entry }));
+    this.seen.clear();
+    state.seen.forEach((url) => this.seen.add(url));
+    this.visited.clear();
+    state.visited.forEach((url) => this.visited.add(url));
+  }
+
+  /**
+   * Records the rel=canonical URL of a page that was just loaded
+   *
+   * Canonicals on other hosts are ignored. A page whose canonical was already visited is a
+   * duplicate; otherwise the canonical counts as visited and is dropped from the queue.
+   *
+   * @param pageUrl URL the page was loaded from (as returned by next())
+   * @param canonicalUrl href of the page's <link rel="canonical">, possibly relative
+   * @returns false if the page duplicates one that was already visited
+   */
+  claimCanonical(pageUrl: string, canonicalUrl: string | null | undefined): boolean {
+    if (!canonicalUrl) {
+      return true;
+    }
+
+    const canonical = normalizeUrl(canonicalUrl, this.normalizerOptions, pageUrl);
+    if (!canonical || canonical === pageUrl || new URL(canonical).host !== new URL(pageUrl).host) {
+      return true;
+    }
+
+    if (this.visited.has(canonical)) {
+      console.log(`Skipping ${pageUrl} (duplicate of ${canonical})`);
+      return false;
+    }
+
+    this.visited.add(canonical);
+    this.seen.add(canonical);
+    this.queued.delete(canonical);
+
+    return true;
+  }
+
+  /**
+   * Appends an entry to the bucket of its priority, so ties keep discovery order
+   */
+  private enqueue(entry: FrontierEntry): void {
+    let bucket = this.buckets.get(entry.priority);
+    if (!bucket) {
+      bucket = { entries: [], head: 0 };
+      this.buckets.set(entry.priority, bucket);
+      const index = this.priorities.findIndex((priority) => priority < entry.priority);
+      this.priorities.splice(index === -1 ? this.priorities.length : index, 0, entry.priority);
+    }
+    bucket.entries.push(entry);
+    this.queued.add(entry.url);
+  }
+
+  /**
+   * The queued entries, highest priority first
+   */
+  private entries(): FrontierEntry[] {
+    return this.priorities.flatMap((priority) => {
+      const bucket = this.buckets.get(priority)!;
+      return bucket.entries.slice(bucket.head).filter((entry) => this.queued.has(entry.url));
+    });
+  }
+
+  /**
+   * Normalizes a URL with this crawl's settings
+   */
+  normalize(url: string, base?: string): string | null {
+    return normalizeUrl(url, this.normalizerOptions, base);
+  }
+
+  /**
+   * Waits until the robots.txt Crawl-delay has passed since the previous request
+   *
+   * Safe to call from concurrent workers: each caller reserves the next free slot, so
+   * requests stay at least Crawl-delay apart however many pages are open.
+   */
+  async throttle(): Promise<void> {
+    const delay = (this.robots.crawlDelay || 0) * 1000;
+    const now = Date.now();
+    const slot = Math.max(now, this.nextRequest);
+    this.nextRequest = slot + delay;
+
+    if (slot > now) {
+      await new Promise((resolve) => setTimeout(resolve, slot - now));
+    }
+  }
+}
+
+/**
+ * Reads robots.txt and the sitemaps of a site and builds the initial frontier
+ *
+ * robots.txt is read again when a crawl resumes, but the sitemaps are not: the restored
+ * frontier already holds their pages.
+ *
+ * @param startUrl Page the crawl starts from
+ * @param options Robots and sitemap settings
+ * @param state Frontier saved by an interrupted crawl, to continue from
+ * @returns A frontier holding the start page and the sitemap's pages, or the restored state
+ */
+export async function createCrawlFrontier(
+  startUrl: string,
+  options: CrawlPolicyOptions = {},
+  state?: FrontierState
+): Promise<CrawlFrontier> {
+  const userAgent = options.userAgent || DEFAULT_ROBOTS_USER_AGENT;
+  const robots = options.respectRobots === false ? ALLOW_ALL : await fetchRobotsTxt(startUrl, userAgent, options.headers);
+
+  if (robots.crawlDelay) {
+    console.log(`robots.txt asks for ${robots.crawlDelay}s between requests`);
+  }
+
+  const frontier = new CrawlFrontier(robots, options);
+  if (state) {
+    frontier.restore(state);
+    console.log(`Restored the crawl frontier (${state.visited.length} visited, ${state.queue.length} queued)`);
+    return frontier;
+  }
+
+  if (!frontier.add(startUrl, 0, START_PRIORITY)) {
+    console.warn(`Start page ${startUrl} cannot be crawled`);
+  }
+
+  if (options.useSitemap !== false) {
+    const entries = await fetchSitemapEntries(startUrl, robots.sitemaps, { userAgent, headers: options.headers });
+    const queued = entries.filter((entry) => frontier.add(entry.url, 1, entry.priority)).length;
+
+    if (entries.length > 0) {
+      console.log(`Seeded ${queued} page(s) from the sitemap (${entries.length} listed)`);
+    }
+  }
+
+  return frontier;
+}
@@ -0,0 +1,104 @@
+/**
+ * Device matrix support for the website crawlers
+ *
+ * A scan can run across several Playwright device descriptors. Pages are crawled and
+ * analyzed with the first device; each element found is then measured on every device
+ * (is it rendered, is it above the fold, what does it say), so a CTA that sits below the
+ * fold or disappears into a hamburger menu on phones shows up in the report.
+ */
+
+import { devices } from 'playwright';
+import type { BrowserContextOptions, Page } from 'playwright';
+
+/**
+ * Short names accepted in place of Playwright device names
+ */
+export const DEVICE_ALIASES: Record<string, string> = {
+  desktop: 'Desktop Chrome',
+  mobile: 'iPhone 13',
+  iphone: 'iPhone 13',
+  android: 'Pixel 7',
+  pixel: 'Pixel 7',
+  tablet: 'iPad (gen 7)',
+  ipad: 'iPad (gen 7)',
+};
+
+export interface ElementPlacement {
+  /** The element's selector matched on this device */
+  found: boolean;
+  /** Rendered with a non-zero size and not hidden */
+  visible: boolean;
+  /** Visible within the first screen, without scrolling */
+  aboveFold: boolean;
+  /** Distance from the top of the page in CSS pixels */
+  top?: number;
+  /** Rendered text, whitespace collapsed */
+  text?: string;
+}
+
+/**
+ * Resolves a device name or alias to its Playwright name and context options
+ *
+ * @throws Error if Playwright has no such device
+ */
+export function resolveDevice(name: string): { name: string; contextOptions: BrowserContextOptions } {
+  const resolved = DEVICE_ALIASES[name.toLowerCase()] || name;
+  const descriptor = devices[resolved];
+
+  if (!descriptor) {
+    const family = name.toLowerCase().split(/\s+/)[0];
+    const suggestions = Object.keys(devices)
+      .filter((device) => !device.endsWith('landscape') && device.toLowerCase().includes(family))
+      .slice(0, 5);
+    throw new Error(
+      `Unknown device "${name}".` +
+        (suggestions.length > 0 ? ` Did you mean: ${suggestions.join(', ')}?` : '') +
+        ` Aliases: ${Object.keys(DEVICE_ALIASES).join(', ')}`
+    );
+  }
+
+  // The crawl always runs in Chromium, whichever engine the device normally uses
+  const { defaultBrowserType, ...contextOptions } = descriptor;
+  return { name: resolved, contextOptions };
+}
+
+/**
+ * Measures where elements render on a freshly loaded page
+ *
+ * @param page Page scrolled to the top
+ * @param selectors CSS selectors to measure
+ * @returns One placement per selector, in order
+ */
+export async function measureElements(page: Page, selectors: string[]): Promise<ElementPlacement[]> {
+  return page.evaluate((selectors: string[]) => {
+    return selectors.map((selector) => {
+      let element: Element | null = null;
+      try {
+        element = document.querySelector(selector);
+      } catch {
+        // Selectors from the model are not always valid CSS
+      }
+      if (!element) {
+        return { found: false, visible: false, aboveFold: false };
+      }
+
+      const style = window.getComputedStyle(element);
+      const box = element.getBoundingClientRect();
+      const visible =
+        box.width > 0 &&
+        box.height > 0 &&
+        style.visibility !== 'hidden' &&
+        style.display !== 'none' &&
+        Number(style.opacity) > 0;
+      const top = Math.round(box.top + window.scrollY);
+
+      return {
+        found: true,
+        visible,
+        aboveFold: visible && top < window.innerHeight,
+        top,
+        text: ((element as HTMLElement).innerText || element.textContent || '').replace(/\s+/g, ' ').trim().slice(0, 200),
+      };
+    });
+  }, selectors);
+}
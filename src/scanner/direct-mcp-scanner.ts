@@ -1,9 +1,8 @@
 import { chromium } from "playwright";
 import { Agent } from "@mastra/core/agent";
-import { openai } from "@ai-sdk/openai";
-import { anthropic } from "@ai-sdk/anthropic";
-import { config } from "../config";
+import { getModel, describeModel } from "../providers";
 import { WebsiteContent, WebsiteScanResult } from "./website-scanner";
+import { resolveDevice } from "./devices";
 import { MCPClient } from "@mastra/mcp";
 import fs from "fs";
 import path from "path";
@@ -13,7 +12,8 @@ import path from "path";
  * This reduces the complexity and potential points of failure
  */
 export async function scanWebsiteWithDirectMcp(
-  url: string
+  url: string,
+  options: { device?: string } = {}
 ): Promise<WebsiteScanResult> {
   console.log(`Starting direct MCP website scan for: ${url}`);
   const startTime = Date.now();
@@ -29,11 +29,15 @@ export async function scanWebsiteWithDirectMcp(
     headless: false, // Make browser visible so you can see the actions
     slowMo: 500, // Slow down actions to make them visible
   });
-  const context = await browser.newContext({
-    viewport: { width: 1280, height: 900 },
-    userAgent:
-      "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/115.0.0.0 Safari/537.36",
-  });
+  const context = await browser.newContext(
+    options.device
+      ? resolveDevice(options.device).contextOptions
+      : {
+          viewport: { width: 1280, height: 900 },
+          userAgent:
+            "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/115.0.0.0 Safari/537.36",
+        },
+  );
   const page = await context.newPage();
 
   // Track visited pages
@@ -96,16 +100,7 @@ export async function scanWebsiteWithDirectMcp(
     await page.screenshot({ path: initialScreenshot });
     console.log(`Initial screenshot saved to ${initialScreenshot}`);
 
-    // Check if OPENAI_API_KEY is available
-    if (!process.env.OPENAI_API_KEY) {
-      console.log("No OpenAI API key found, using Anthropic as fallback");
-    } else {
-      console.log("Using OpenAI for website analysis");
-    }
-
-    // Determine which model to use
-    const modelType = process.env.OPENAI_MODEL || "gpt-4o-mini"; // Default to o-mini
-    console.log(`Using model: ${modelType}`);
+    console.log(`Using model: ${describeModel()}`);
 
     // Create agent with access to MCP tools
     const agent = new Agent({
@@ -129,9 +124,7 @@ export async function scanWebsiteWithDirectMcp(
         - issue: Problem description
         - recommendation: Suggested improvement
       `,
-      model: process.env.OPENAI_API_KEY
-        ? openai(modelType) // Use the selected OpenAI model
-        : anthropic("claude-3-7-sonnet-20250219"), // Fallback to Anthropic
+      model: getModel(),
       tools: mcpTools,
     });
 
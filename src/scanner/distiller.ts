@@ -0,0 +1,271 @@
+/**
+ * Page distillation for the analysis prompt
+ *
+ * Raw HTML is mostly head, inline scripts and utility classes, and truncating it hides
+ * whatever comes late on the page. The distiller reads the rendered DOM instead and keeps
+ * only what a visitor can see or use: headings, text, links, buttons, form fields and
+ * images (flagging those without alt text), each with its element id, grouped into
+ * sections by landmark (header, nav, main, section, footer, forms) and top-level
+ * headings. Long pages are split into chunks along section boundaries and analyzed chunk
+ * by chunk.
+ */
+
+import type { Page } from 'playwright';
+
+export interface DistilledItem {
+  kind: 'heading' | 'text' | 'link' | 'button' | 'field' | 'image';
+  /** Visible text; a field's label, an image's alt text */
+  text: string;
+  id?: string;
+  /** Heading level, 1 to 6 */
+  level?: number;
+  /** Link target */
+  href?: string;
+  /** Field element and type, e.g. "input[email]" or "select" */
+  field?: string;
+  required?: boolean;
+  /** Image source, for images without alt text */
+  src?: string;
+  /** The image has no alt attribute; alt="" marks a decorative image and is not reported */
+  missingAlt?: boolean;
+}
+
+export interface DistilledSection {
+  /** Landmark or heading the section starts at, e.g. "footer#site-footer" or "h2 \"Pricing\"" */
+  label: string;
+  /** The section is a form */
+  form?: boolean;
+  /** Headings, text blocks, links, buttons, fields and images, in document order */
+  items: DistilledItem[];
+}
+
+export interface DistilledPage {
+  sections: DistilledSection[];
+}
+
+const MAX_LINE_TEXT = 300;
+
+/**
+ * Reads the visible content of a rendered page as a sectioned outline
+ *
+ * @param page Loaded page; scroll it first so lazily loaded sections are rendered
+ */
+export async function distillPage(page: Page): Promise<DistilledPage> {
+  // No named helper functions in here: the callback runs in the page as-is
+  const sections = await page.evaluate((maxText: number) => {
+    const sections: DistilledSection[] = [{ label: 'page', items: [] }];
+    const landmarks = ['header', 'nav', 'main', 'section', 'article', 'aside', 'footer', 'form', 'dialog'];
+    const landmarkRoles = ['banner', 'navigation', 'main', 'region', 'complementary', 'contentinfo', 'form', 'search'];
+    const textBlocks = ['p', 'li', 'blockquote', 'figcaption', 'label', 'td', 'th', 'dt', 'dd', 'summary', 'caption'];
+    const interactive = 'a[href], button, [role="button"], input, select, textarea, img';
+    // Strings on the stack resume the enclosing section once a landmark's content is done
+    const stack: Array<Element | string> = [document.body];
+
+    while (stack.length > 0) {
+      const item = stack.pop()!;
+      if (typeof item === 'string') {
+        sections.push({ label: item, items: [] });
+        continue;
+      }
+
+      const element = item;
+      const tag = element.tagName.toLowerCase();
+      if (['script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'head'].includes(tag)) {
+        continue;
+      }
+      if ((element as HTMLElement).hidden || element.getAttribute('aria-hidden') === 'true') {
+        continue;
+      }
+      const style = window.getComputedStyle(element);
+      if (style.display === 'none' || style.visibility === 'hidden') {
+        continue;
+      }
+
+      const id = element.id || undefined;
+      const role = element.getAttribute('role') || '';
+      const items = sections[sections.length - 1].items;
+      const children = Array.from(element.children);
+      const hasBlocks = children.some((child) => !window.getComputedStyle(child).display.startsWith('inline'));
+      const isLandmark = landmarks.includes(tag) || landmarkRoles.includes(role);
+
+      const isControl = tag === 'a' || tag === 'button' || role === 'button';
+      // Containers are only read as a whole when they hold a single block of text
+      const isLeaf = !isLandmark && (textBlocks.includes(tag) || !hasBlocks);
+      const fullText = isLeaf || isControl || /^h[1-6]$/.test(tag)
+        ? ((element as HTMLElement).innerText || '').replace(/\s+/g, ' ').trim()
+        : '';
+      const text = fullText.length > maxText ? `${fullText.slice(0, maxText)}...` : fullText;
+
+      if (/^h[1-6]$/.test(tag)) {
+        if (text) {
+          // Top-level headings start a section of their own
+          if ((tag === 'h1' || tag === 'h2') && items.length > 0) {
+            sections.push({ label: `${tag}${id ? `#${id}` : ''} ${JSON.stringify(text)}`, items: [] });
+          }
+          sections[sections.length - 1].items.push({ kind: 'heading', text, id, level: Number(tag[1]) });
+        }
+        continue;
+      }
+
+      if (tag === 'a' && element.hasAttribute('href')) {
+        const label = text || element.getAttribute('aria-label') || element.getAttribute('title') || '';
+        items.push({ kind: 'link', text: label, id, href: element.getAttribute('href') || '' });
+        continue;
+      }
+
+      if (tag === 'button' || role === 'button' || (tag === 'input' && ['submit', 'button'].includes((element as HTMLInputElement).type))) {
+        const label = text || (element as HTMLInputElement).value || element.getAttribute('aria-label') || '';
+        items.push({ kind: 'button', text: label, id });
+        continue;
+      }
+
+      if (tag === 'input' || tag === 'select' || tag === 'textarea') {
+        const field = element as HTMLInputElement;
+        if (field.type === 'hidden') {
+          continue;
+        }
+        const labelElement = field.labels && field.labels[0];
+        const label =
+          (labelElement && labelElement.innerText.trim()) ||
+          element.getAttribute('aria-label') ||
+          element.getAttribute('placeholder') ||
+          element.getAttribute('name') ||
+          '';
+        items.push({
+          kind: 'field',
+          text: label,
+          id,
+          field: `${tag}${tag === 'input' ? `[${field.type}]` : ''}`,
+          ...(field.required && { required: true }),
+        });
+        continue;
+      }
+
+      if (tag === 'img') {
+        const alt = element.getAttribute('alt');
+        if (alt) {
+          items.push({ kind: 'image', text: alt, id });
+        } else if (alt === null) {
+          items.push({ kind: 'image', text: '', id, src: element.getAttribute('src') || '', missingAlt: true });
+        }
+        continue;
+      }
+
+      if (isLandmark) {
+        const name = element.getAttribute('aria-label');
+        const action = tag === 'form' ? element.getAttribute('action') : null;
+        stack.push(sections[sections.length - 1].label);
+        sections.push({
+          label:
+            `${tag}${id ? `#${id}` : ''}${role ? `[role=${role}]` : ''}` +
+            `${name ? ` ${JSON.stringify(name)}` : ''}${action ? ` -> ${action}` : ''}`,
+          ...((tag === 'form' || role === 'form') && { form: true }),
+          items: [],
+        });
+        stack.push(...children.reverse());
+        continue;
+      }
+
+      // Text with only inline markup inside is one line; links and buttons in it still get their own
+      if (text) {
+        const controls = Array.from(element.querySelectorAll(interactive));
+        const controlText = controls
+          .map((control) => (control as HTMLElement).innerText || '')
+          .join(' ')
+          .replace(/\s+/g, ' ')
+          .trim();
+        if (controlText !== fullText) {
+          items.push({ kind: 'text', text, id });
+        }
+        stack.push(...controls.reverse());
+        continue;
+      }
+
+      stack.push(...children.reverse());
+    }
+
+    return sections.filter((section) => section.items.length > 0);
+  }, MAX_LINE_TEXT);
+
+  return { sections };
+}
+
+/**
+ * Renders an item as one line of the outline, e.g. `button#signup "Start free trial"`
+ */
+export function formatDistilledItem(item: DistilledItem): string {
+  const id = item.id ? `#${item.id}` : '';
+  const text = JSON.stringify(item.text);
+
+  switch (item.kind) {
+    case 'heading':
+      return `h${item.level}${id} ${text}`;
+    case 'link':
+      return `link${id} ${text} -> ${item.href}`;
+    case 'field':
+      return `field${id} ${item.field} ${text}${item.required ? ' required' : ''}`;
+    case 'image':
+      return item.missingAlt ? `img${id} (no alt text) ${item.src}` : `img${id} ${text}`;
+    default:
+      return `${item.kind}${id} ${text}`;
+  }
+}
+
+/**
+ * Splits a distilled page into chunks for the model, along section boundaries
+ *
+ * Sections are packed into chunks of up to chunkSize characters; a section longer than
+ * that is split between lines. Each chunk after the first starts with up to chunkOverlap
+ * characters from the end of the previous one, so content cut at a boundary keeps its
+ * context.
+ *
+ * @returns The chunks as text; one chunk when the page fits
+ */
+export function chunkDistilledPage(page: DistilledPage, chunkSize: number, chunkOverlap: number): string[] {
+  const chunks: string[] = [];
+  let chunk = '';
+  for (const section of page.sections) {
+    const lines = section.items.map(formatDistilledItem);
+    const block = `## ${section.label}\n${lines.join('\n')}`;
+    if (chunk && chunk.length + block.length + 2 > chunkSize && block.length <= chunkSize) {
+      chunks.push(chunk);
+      chunk = '';
+    }
+    if ((chunk ? chunk.length + 2 : 0) + block.length <= chunkSize) {
+      chunk = chunk ? `${chunk}\n\n${block}` : block;
+      continue;
+    }
+
+    // Longer than a chunk: split between lines, filling the current chunk first
+    let heading = `## ${section.label}`;
+    chunk = chunk ? `${chunk}\n\n${heading}` : heading;
+    for (const line of lines) {
+      if (chunk.length + line.length + 1 > chunkSize && !chunk.endsWith(heading)) {
+        chunks.push(chunk);
+        heading = `## ${section.label} (continued)`;
+        chunk = heading;
+      }
+      chunk += `\n${line}`;
+    }
+  }
+  if (chunk) {
+    chunks.push(chunk);
+  }
+
+  return chunks.map((text, index) => {
+    if (index === 0 || chunkOverlap <= 0) {
+      return text;
+    }
+
+    const lines = chunks[index - 1].split('\n');
+    const tail: string[] = [];
+    let length = 0;
+    while (lines.length > 0 && length + lines[lines.length - 1].length + 1 <= chunkOverlap) {
+      const line = lines.pop()!;
+      tail.unshift(line);
+      length += line.length + 1;
+    }
+
+    return tail.length > 0 ? `(end of the previous part)\n${tail.join('\n')}\n\n${text}` : text;
+  });
+}
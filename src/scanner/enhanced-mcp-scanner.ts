@@ -1,13 +1,25 @@
 import { chromium, Browser, BrowserContext, Page } from "playwright";
 import { Agent } from "@mastra/core/agent";
-import { openai } from "@ai-sdk/openai";
-import { anthropic } from "@ai-sdk/anthropic";
-import { config } from "../config";
+import { getModel, describeModel } from "../providers";
 import { WebsiteContent, WebsiteScanResult } from "./website-scanner";
+import { normalizeUrl } from "./url-normalizer";
+import { ScanRun } from "./checkpoint";
+import { AuthOptions, createAuthenticatedContext, resolveStorageStatePath } from "./auth";
+import { resolveDevice } from "./devices";
 import { MCPClient } from "@mastra/mcp";
 import fs from "fs";
 import path from "path";
 
+/**
+ * Progress of an enhanced MCP scan, saved to its run's checkpoint
+ */
+export interface EnhancedMcpScanState {
+  visitedPages: string[];
+  pagesToVisit: { url: string; depth: number }[];
+  contentItems: WebsiteContent[];
+  pagesAnalyzed: number;
+}
+
 /**
  * Enhanced MCP website scanner with improved interactivity and navigation
  * 
@@ -18,6 +30,7 @@ import path from "path";
  * - Click-based exploration
  * - Element extraction
  * - Structured data processing
+ * - Checkpoints after every page when given a run, so an interrupted scan can resume
  */
 export async function scanWebsiteWithEnhancedMcp(
   url: string,
@@ -28,7 +41,10 @@ export async function scanWebsiteWithEnhancedMcp(
     headless?: boolean;
     timeout?: number;
     maxTurns?: number;
-  } = {}
+    /** Playwright device (or alias) to emulate instead of the default desktop browser */
+    device?: string;
+  } & AuthOptions = {},
+  run?: ScanRun<EnhancedMcpScanState>
 ): Promise<WebsiteScanResult> {
   console.log(`Starting enhanced MCP website scan for: ${url}`);
   const startTime = Date.now();
@@ -37,7 +53,7 @@ export async function scanWebsiteWithEnhancedMcp(
   const {
     maxPages = 5,
     maxDepth = 2,
-    screenshotDir = path.join(process.cwd(), "screenshots"),
+    screenshotDir = run?.screenshotsDir || path.join(process.cwd(), "screenshots"),
     headless = true,
     timeout = 180000, // 3 minutes
     maxTurns = 5      // Maximum conversation turns
@@ -55,25 +71,37 @@ export async function scanWebsiteWithEnhancedMcp(
     args: ['--disable-web-security', '--disable-features=IsolateOrigins', '--disable-site-isolation-trials']
   });
   
-  const context = await browser.newContext({
-    viewport: { width: 1366, height: 900 },
-    userAgent:
-      "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/116.0.0.0 Safari/537.36",
+  // Logs in first when a login step is configured; the MCP browser reuses the saved state
+  const context = await createAuthenticatedContext(browser, url, options, {
+    ...(options.device
+      ? resolveDevice(options.device).contextOptions
+      : {
+          viewport: { width: 1366, height: 900 },
+          userAgent:
+            "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/116.0.0.0 Safari/537.36",
+        }),
     ignoreHTTPSErrors: true,
     bypassCSP: true,
     // Add additional context options (like geolocation, permissions, etc. if needed)
+  }).catch(async (error) => {
+    await browser.close();
+    throw error;
   });
+  const storageStatePath = resolveStorageStatePath(url, options);
   
   const page = await context.newPage();
   
-  // State tracking
-  const visitedPages: string[] = [];
-  const contentItems: WebsiteContent[] = [];
-  const pagesToVisit: {url: string; depth: number}[] = [{url, depth: 0}];
+  // State tracking, restored from the checkpoint when resuming
+  const saved = run?.state;
+  const visitedPages: string[] = saved ? [...saved.visitedPages] : [];
+  const contentItems: WebsiteContent[] = saved ? [...saved.contentItems] : [];
+  const pagesToVisit: {url: string; depth: number}[] = saved ? [...saved.pagesToVisit] : [{url, depth: 0}];
   
   // Logs and progress tracking
   const logFile = path.join(screenshotDir, "enhanced-scan.log");
-  let progressLog = `Enhanced MCP scan started at ${new Date().toISOString()}\n`;
+  // Append to the log of a resumed run rather than replacing it
+  let progressLog = (saved && fs.existsSync(logFile) ? fs.readFileSync(logFile, "utf-8") : "") +
+    `Enhanced MCP scan ${saved ? "resumed" : "started"} at ${new Date().toISOString()}\n`;
   
   const logProgress = (message: string) => {
     const timestamp = new Date().toISOString();
@@ -113,7 +141,11 @@ export async function scanWebsiteWithEnhancedMcp(
         },
         playwright: {
           command: "npx",
-          args: ["-y", "@playwright/mcp@latest"],
+          args: [
+            "-y",
+            "@playwright/mcp@latest",
+            ...(storageStatePath ? ["--isolated", "--storage-state", storageStatePath] : []),
+          ],
         },
       },
     });
@@ -123,13 +155,10 @@ export async function scanWebsiteWithEnhancedMcp(
     const mcpTools = await mcpClient.getTools();
     logProgress("MCP tools retrieved successfully");
     
-    // Determine which AI model to use based on available API keys
-    const useOpenAI = process.env.OPENAI_API_KEY && process.env.OPENAI_API_KEY.length > 0;
-    const modelProvider = useOpenAI 
-      ? openai(process.env.OPENAI_MODEL || "gpt-4o")
-      : anthropic(config.analysis.modelName || "claude-3-7-sonnet-20240229");
+    // Use the configured model from the provider registry
+    const modelProvider = getModel();
     
-    logProgress(`Using model: ${useOpenAI ? (process.env.OPENAI_MODEL || "gpt-4o") : config.analysis.modelName}`);
+    logProgress(`Using model: ${describeModel()}`);
     
     // Create enhanced agent with improved instructions
     const agent = new Agent({
@@ -193,20 +222,33 @@ export async function scanWebsiteWithEnhancedMcp(
     });
     
     // Website exploration and analysis
-    let pagesAnalyzed = 0;
+    let pagesAnalyzed = saved?.pagesAnalyzed || 0;
     let currentDepth = 0;
     
+    if (saved) {
+      logProgress(`Resuming after ${pagesAnalyzed} analyzed page(s), ${pagesToVisit.length} queued`);
+    }
+    
+    // Saved before each page, so the checkpoint holds every page finished so far
+    const checkpoint = () => {
+      run?.save({ visitedPages, pagesToVisit, contentItems, pagesAnalyzed });
+    };
+    
     // While we have pages to visit and haven't exceeded our limit
     while (
       pagesToVisit.length > 0 && 
       pagesAnalyzed < maxPages && 
       (Date.now() - startTime) < timeout
     ) {
+      checkpoint();
+      
       // Get next page to visit (breadth-first)
       const nextPage = pagesToVisit.shift();
       if (!nextPage) break;
       
-      const { url: pageUrl, depth } = nextPage;
+      // Compare normalized URLs so variants of a visited page are skipped
+      const { depth } = nextPage;
+      const pageUrl = normalizeUrl(nextPage.url) ?? nextPage.url;
       
       // Skip if we've already visited this page or exceeded max depth
       if (visitedPages.includes(pageUrl) || depth > maxDepth) {
@@ -275,7 +317,7 @@ export async function scanWebsiteWithEnhancedMcp(
         const maxPageAnalysisTime = 60000; // 60 seconds max per page
         
         // Create a promise that resolves with the agent response or rejects after timeout
-        let result;
+        let result: any;
         try {
           result = await Promise.race([
             agent.generate([  // First promise is the agent generation
@@ -343,47 +385,6 @@ export async function scanWebsiteWithEnhancedMcp(
           continue;
         }
         
-        // Generate content with the agent
-        const result = await agent.generate([
-          {
-            role: "user",
-            content: `
-              Analyze this webpage at ${pageUrl} for conversion optimization opportunities.
-              
-              Follow these steps:
-              1. Take a screenshot to capture the initial view
-              2. Scroll through the ENTIRE page to see all content
-              3. Identify 3-5 specific elements that could be improved
-              4. Extract the text content from these elements
-              5. For each element, describe:
-                 - What it is (heading, button, form, etc.)
-                 - Where it appears on the page
-                 - The current content
-                 - The specific issue
-                 - Your recommended improvement
-              
-              If you find forms, check for:
-              - Clear labels
-              - Required field indicators
-              - Error handling
-              - Submit button clarity
-              
-              If you find CTAs, check for:
-              - Clear action words
-              - Value proposition
-              - Placement
-              - Design/contrast
-              
-              IMPORTANT: After analysis, if you find interesting links to other key pages 
-              (like Features, Pricing, About), click on one of them to continue exploration.
-              
-              Return your findings as a structured JSON array.
-            `,
-          }
-        ]);
-        
-        logProgress(`Received agent response for page ${pagesAnalyzed}`);
-        
         // Handle navigation actions from tool calls
         if (result.toolCalls && result.toolCalls.length > 0) {
           logProgress(`Processing ${result.toolCalls.length} tool calls`);
@@ -420,7 +421,7 @@ export async function scanWebsiteWithEnhancedMcp(
             for (const event of navigationEvents) {
               if (event.toolName === "browser_navigate") {
                 const navParams = (event as any).parameters;
-                if (navParams && navParams.url && !visitedPages.includes(navParams.url)) {
+                if (navParams && navParams.url && !visitedPages.includes(normalizeUrl(navParams.url) ?? navParams.url)) {
                   pagesToVisit.push({ url: navParams.url, depth: depth + 1 });
                   logProgress(`Added to queue: ${navParams.url}`);
                 }
@@ -429,7 +430,7 @@ export async function scanWebsiteWithEnhancedMcp(
             }
             
             // Get current URL after all navigation actions
-            const currentUrl = page.url();
+            const currentUrl = normalizeUrl(page.url()) ?? page.url();
             if (currentUrl !== pageUrl && !visitedPages.includes(currentUrl)) {
               visitedPages.push(currentUrl);
               // Add back to queue for analysis if we haven't exceeded depth
@@ -596,6 +597,8 @@ export async function scanWebsiteWithEnhancedMcp(
       await new Promise(resolve => setTimeout(resolve, 1000));
     }
     
+    checkpoint();
+    
     // Cleanup
     await mcpClient.disconnect();
     
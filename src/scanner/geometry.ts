@@ -0,0 +1,286 @@
+/**
+ * Element geometry and visual prominence
+ *
+ * Where an element sits and how loud it is are measured in the browser rather than
+ * guessed by the model: its bounding box, whether it is above the fold, its computed font
+ * size and weight, and the contrast of its text against the background. The measurements
+ * go into the analysis prompt, and the prominence score derived from them sets each
+ * element's importance. Reported elements the prompt did not describe are measured by
+ * selector once the analysis is done.
+ */
+
+import type { Page } from 'playwright';
+import { installSelectorEngine } from './selectors';
+
+declare global {
+  interface Window {
+    /** Elements of the last measurement, for generating their selectors */
+    steelpushMeasured?: Array<Element | null>;
+  }
+}
+
+export interface ElementGeometry {
+  /** Bounding box in CSS pixels, relative to the top left of the page */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Fully or partly visible on the first screen of the crawl's viewport */
+  aboveFold: boolean;
+  /** Computed font size in CSS pixels */
+  fontSize: number;
+  /** Computed font weight (400 normal, 700 bold) */
+  fontWeight: number;
+  color: string;
+  /** First opaque background behind the element; white when none is set */
+  backgroundColor: string;
+  /** WCAG contrast ratio of the text against the background, from 1 to 21 */
+  contrastRatio: number;
+}
+
+/**
+ * A visible element measured on a page, offered to the model as a candidate
+ */
+export interface ElementFacts extends ElementGeometry {
+  selector: string;
+  tag: string;
+  text: string;
+}
+
+export interface PageGeometry {
+  viewport: { width: number; height: number };
+  elements: ElementFacts[];
+}
+
+const CANDIDATES = [
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'p',
+  'a',
+  'button',
+  '[role="button"]',
+  'input[type="submit"]',
+  'input[type="button"]',
+  'label',
+  'li',
+  'blockquote',
+  'figcaption',
+].join(', ');
+
+/**
+ * Maximum number of measured elements described in the analysis prompt
+ */
+const MAX_PROMPT_ELEMENTS = 60;
+
+/**
+ * Measures the visible text elements of a page
+ *
+ * Call it before scrolling: the fold is the first screen of the page.
+ *
+ * @param page Loaded page, scrolled to the top
+ * @returns The viewport and the most prominent elements, in document order
+ */
+export async function measurePage(page: Page): Promise<PageGeometry> {
+  const viewport = page.viewportSize() || { width: 1280, height: 720 };
+  await installSelectorEngine(page);
+
+  const measured = await page.evaluate(measureInPage, { candidates: CANDIDATES });
+
+  // Keep the most prominent elements, then restore document order for the prompt
+  const selected = measured
+    .flatMap((element, index) => (element ? [{ ...element, index }] : []))
+    .map((element) => ({ element, score: computeProminence(element, viewport) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_PROMPT_ELEMENTS)
+    .map(({ element }) => element)
+    .sort((a, b) => a.index - b.index);
+
+  // Selectors are only generated for the elements kept, as each one queries the whole page.
+  // They come from the elements measured above, not a new query whose order may have changed.
+  const selectors = await page.evaluate(
+    (indexes: number[]) => indexes.map((index) => window.steelpushSelector!(window.steelpushMeasured![index]!)),
+    selected.map((element) => element.index)
+  );
+
+  return {
+    viewport,
+    elements: selected.map(({ index, ...element }, position) => ({ selector: selectors[position], ...element })),
+  };
+}
+
+/**
+ * Measures the elements matched by selectors, such as those the model reported beyond the
+ * ones described in the prompt
+ *
+ * @param page Loaded page, scrolled to the top
+ * @param selectors CSS selectors to measure
+ * @returns One measurement per selector, in order; null where no visible element matches
+ */
+export async function measureSelectors(page: Page, selectors: string[]): Promise<Array<ElementGeometry | null>> {
+  const measured = await page.evaluate(measureInPage, { candidates: CANDIDATES, selectors });
+  return measured.map((element) => {
+    if (!element) {
+      return null;
+    }
+    const { tag, text, ...geometry } = element;
+    return geometry;
+  });
+}
+
+/**
+ * Measures the candidate elements of the page or, when selectors are given, the first
+ * element each one matches; null for elements that are not visible or are skipped
+ *
+ * Runs in the page as-is, so it defines no named helper functions. The elements are left
+ * in window.steelpushMeasured, in the order of the results.
+ */
+function measureInPage({
+  candidates,
+  selectors,
+}: {
+  candidates: string;
+  selectors?: string[];
+}): Array<Omit<ElementFacts, 'selector'> | null> {
+  const targets = selectors
+    ? selectors.map((selector) => {
+        try {
+          return document.querySelector(selector);
+        } catch {
+          // Selectors from the model are not always valid CSS
+          return null;
+        }
+      })
+    : Array.from(document.querySelectorAll(candidates)).slice(0, 2000);
+  window.steelpushMeasured = targets;
+
+  return targets.map((element) => {
+    if (!element) {
+      return null;
+    }
+
+    const style = window.getComputedStyle(element);
+    const box = element.getBoundingClientRect();
+    const text = ((element as HTMLElement).innerText || (element as HTMLInputElement).value || '')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    if (box.width === 0 || box.height === 0 || style.visibility === 'hidden' || Number(style.opacity) === 0) {
+      return null;
+    }
+
+    if (!selectors) {
+      if (text.length < 2) {
+        return null;
+      }
+
+      // Nested candidates (a link inside a list item) are measured once, as the innermost
+      const inner = element.querySelector(candidates) as HTMLElement | null;
+      if (inner && (inner.innerText || '').replace(/\s+/g, ' ').trim() === text) {
+        return null;
+      }
+    }
+
+    let background = 'rgb(255, 255, 255)';
+    for (let node: Element | null = element; node; node = node.parentElement) {
+      const color = window.getComputedStyle(node).backgroundColor;
+      if (color && color !== 'transparent' && !/^rgba\(.*,\s*0\)$/.test(color)) {
+        background = color;
+        break;
+      }
+    }
+
+    const [foreground, behind] = [style.color, background].map((color) => {
+      const [red, green, blue] = (color.match(/[\d.]+/g) || ['0', '0', '0']).slice(0, 3).map(Number);
+      return [red, green, blue]
+        .map((channel) => channel / 255)
+        .map((channel) => (channel <= 0.03928 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4)))
+        .reduce((sum, channel, index) => sum + channel * [0.2126, 0.7152, 0.0722][index], 0);
+    });
+
+    return {
+      tag: element.tagName.toLowerCase(),
+      text: text.length > 160 ? `${text.slice(0, 160)}...` : text,
+      x: Math.round(box.left + window.scrollX),
+      y: Math.round(box.top + window.scrollY),
+      width: Math.round(box.width),
+      height: Math.round(box.height),
+      aboveFold: box.top + window.scrollY < window.innerHeight,
+      fontSize: parseFloat(style.fontSize) || 16,
+      fontWeight: parseInt(style.fontWeight, 10) || 400,
+      color: style.color,
+      backgroundColor: background,
+      contrastRatio:
+        Math.round(((Math.max(foreground, behind) + 0.05) / (Math.min(foreground, behind) + 0.05)) * 100) / 100,
+    };
+  });
+}
+
+/**
+ * Scores how prominent an element is, from 0 (easy to miss) to 1 (impossible to miss)
+ *
+ * Position counts most: anything above the fold scores full marks for it, and the score
+ * falls off over the next two screens. Font size, weight, area and contrast make up the rest.
+ */
+export function computeProminence(
+  geometry: ElementGeometry,
+  viewport: { width: number; height: number }
+): number {
+  const position = geometry.aboveFold
+    ? 1
+    : Math.max(0, 1 - (geometry.y - viewport.height) / (viewport.height * 2));
+  const fontSize = Math.min(1, Math.max(0, (geometry.fontSize - 12) / (40 - 12)));
+  const fontWeight = geometry.fontWeight >= 600 ? 1 : geometry.fontWeight >= 500 ? 0.5 : 0;
+  const area = Math.min(1, (geometry.width * geometry.height) / (viewport.width * viewport.height * 0.1));
+  // 7:1 is the WCAG AAA threshold for body text
+  const contrast = Math.min(1, Math.max(0, (geometry.contrastRatio - 1) / 6));
+
+  const score = 0.35 * position + 0.25 * fontSize + 0.1 * fontWeight + 0.15 * area + 0.15 * contrast;
+  return Math.round(score * 100) / 100;
+}
+
+/**
+ * Maps a prominence score to an importance level
+ */
+export function prominenceLevel(score: number): 'high' | 'medium' | 'low' {
+  return score >= 0.6 ? 'high' : score >= 0.35 ? 'medium' : 'low';
+}
+
+/**
+ * Finds the measurements for an element the model reported
+ *
+ * @param geometry Measurements of the page
+ * @param selector Selector the model gave
+ * @param content Text the model gave
+ * @returns The measured element matching the selector, or else the text
+ */
+export function findElementFacts(
+  geometry: PageGeometry,
+  selector: string,
+  content: string
+): ElementFacts | undefined {
+  const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+  const wanted = normalize(content);
+
+  return (
+    geometry.elements.find((element) => element.selector === selector) ||
+    geometry.elements.find((element) => normalize(element.text) === wanted) ||
+    (wanted.length >= 8 ? geometry.elements.find((element) => normalize(element.text).includes(wanted)) : undefined)
+  );
+}
+
+/**
+ * Describes the measured elements for the analysis prompt, one line each
+ */
+export function formatElementFacts(geometry: PageGeometry): string {
+  return geometry.elements
+    .map(
+      (element) =>
+        `- ${element.tag} "${element.text}" | selector: ${element.selector} | ` +
+        `${element.aboveFold ? 'above the fold' : `below the fold (${element.y}px from top)`} | ` +
+        `${element.width}x${element.height}px | font ${element.fontSize}px/${element.fontWeight} | ` +
+        `contrast ${element.contrastRatio}:1`
+    )
+    .join('\n');
+}
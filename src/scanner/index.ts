@@ -1,30 +1,42 @@
 import type { WebsiteContent, WebsiteScanResult } from "./website-scanner";
 import type { CodeContent, CodebaseScanResult } from "./codebase-scanner";
-import { scanWebsite as scanWebsiteInternal } from "./website-scanner";
-import { scanCodebase as scanCodebaseInternal } from "./codebase-scanner";
-import { scanWebsiteWithMcp } from "./mcp-website-scanner";
-import { scanWebsiteWithDirectMcp } from "./direct-mcp-scanner";
-import { scanWebsiteWithEnhancedMcp } from "./enhanced-mcp-scanner";
+import type { AnalysisArtifact } from "../core/artifact";
+import { runScanner } from "./registry";
 
 export { WebsiteContent, WebsiteScanResult, CodeContent, CodebaseScanResult };
+export {
+  registerScanner,
+  getScanner,
+  listScanners,
+  runScanner,
+  resumeScan,
+  loadScannerPlugins,
+  loadConfiguredScannerPlugins,
+  DEFAULT_SCANNERS,
+} from "./registry";
+export type { Scanner, ScannerCapabilities, ScanTarget } from "./registry";
+export { ScanRun, CheckpointError } from "./checkpoint";
 
 /**
  * Main interface for the scanner module
  */
 export interface ScannerOptions {
+  scanner?: string; // Registered scanner to use; defaults to DEFAULT_SCANNERS
   maxPages?: number;
-  maxFiles?: number;
-  includeHiddenContent?: boolean;
-  useMcp?: boolean; // Option to use MCP for website scanning
-  useDirectMcp?: boolean; // Option to use the simplified direct MCP scanner
-  useEnhancedMcp?: boolean; // Option to use the enhanced MCP scanner with improved navigation
   maxDepth?: number; // Maximum depth for website crawling
   headless?: boolean; // Whether to run browser in headless mode
   timeout?: number; // Timeout for scanning operations in milliseconds
+  screenshotsDir?: string;
+  /** @deprecated Use scanner: "mcp" */
+  useMcp?: boolean;
+  /** @deprecated Use scanner: "direct-mcp" */
+  useDirectMcp?: boolean;
+  /** @deprecated Use scanner: "enhanced-mcp" */
+  useEnhancedMcp?: boolean;
 }
 
 /**
- * Combined scan result format
+ * Result format of the Playwright and MCP website scanners in earlier versions
  */
 export interface ScanResult {
   type: "website" | "codebase";
@@ -38,44 +50,13 @@ export interface ScanResult {
  *
  * @param url The URL to scan
  * @param options Scanning options
- * @returns A promise resolving to the scan results
+ * @returns A promise resolving to the analysis artifact
  */
 export async function scanWebsite(
   url: string,
   options?: ScannerOptions
-): Promise<ScanResult> {
-  // Choose the appropriate scanner implementation
-  let result: WebsiteScanResult;
-
-  if (options?.useEnhancedMcp) {
-    // Use the enhanced MCP implementation with improved interaction capabilities
-    console.log("Using enhanced MCP scanner with improved interactions");
-    result = await scanWebsiteWithEnhancedMcp(url, {
-      maxPages: options.maxPages,
-      maxDepth: options.maxDepth,
-      headless: options.headless !== false, // Default to true if not specified
-      timeout: options.timeout,
-    });
-  } else if (options?.useDirectMcp) {
-    // Use the direct MCP implementation (recommended for stability)
-    console.log("Using direct MCP scanner");
-    result = await scanWebsiteWithDirectMcp(url);
-  } else if (options?.useMcp) {
-    // Use the multi-turn MCP implementation
-    console.log("Using multi-turn MCP scanner");
-    result = await scanWebsiteWithMcp(url);
-  } else {
-    // Use the standard website scanner
-    console.log("Using standard website scanner");
-    result = await scanWebsiteInternal(url);
-  }
-
-  return {
-    type: "website",
-    source: url,
-    timestamp: Date.now(),
-    data: result,
-  };
+): Promise<AnalysisArtifact> {
+  return scan(url, options);
 }
 
 /**
@@ -83,39 +64,35 @@ export async function scanWebsite(
  *
  * @param directoryPath The path to the codebase directory
  * @param options Scanning options
- * @returns A promise resolving to the scan results
+ * @returns A promise resolving to the analysis artifact
  */
 export async function scanCodebase(
   directoryPath: string,
   options?: ScannerOptions
-): Promise<ScanResult> {
-  const result = await scanCodebaseInternal(directoryPath);
-
-  return {
-    type: "codebase",
-    source: directoryPath,
-    timestamp: Date.now(),
-    data: result,
-  };
+): Promise<AnalysisArtifact> {
+  return scan(directoryPath, options);
 }
 
 /**
- * Determines the best scanning method based on the input
+ * Scans a URL or directory with the requested (or default) scanner
  *
  * @param input A URL or directory path to scan
  * @param options Scanning options
- * @returns A promise resolving to the scan results
+ * @returns A promise resolving to the analysis artifact
  */
 export async function scan(
   input: string,
-  options?: ScannerOptions
-): Promise<ScanResult> {
-  // Determine if input is a URL or file path
-  const isUrl = input.startsWith("http://") || input.startsWith("https://");
+  options: ScannerOptions = {}
+): Promise<AnalysisArtifact> {
+  const { scanner, useMcp, useDirectMcp, useEnhancedMcp, ...scannerOptions } = options;
+
+  // Map the boolean flags of earlier versions onto scanner names
+  const name =
+    scanner ||
+    (useEnhancedMcp && "enhanced-mcp") ||
+    (useDirectMcp && "direct-mcp") ||
+    (useMcp && "mcp") ||
+    undefined;
 
-  if (isUrl) {
-    return scanWebsite(input, options);
-  } else {
-    return scanCodebase(input, options);
-  }
+  return runScanner(input, name, scannerOptions);
 }
@@ -0,0 +1,202 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  groupTranslations,
+  isTranslationFile,
+  parseTranslationFile,
+  sourceLocale,
+  TranslationEntry,
+  TranslationFileError,
+} from './locale-parser';
+
+function records(file: string, source: string) {
+  return parseTranslationFile(file, source).map(({ key, value, locale, namespace, line, column }) => ({
+    key,
+    value,
+    ...(locale && { locale }),
+    ...(namespace && { namespace }),
+    line,
+    column,
+  }));
+}
+
+describe('isTranslationFile', () => {
+  it('accepts locale directories and catalog formats', () => {
+    assert.equal(isTranslationFile('src/locales/en.json'), true);
+    assert.equal(isTranslationFile('app/i18n/index.ts'), true);
+    assert.equal(isTranslationFile('po/fr.po'), true);
+    assert.equal(isTranslationFile('src/App.tsx'), false);
+    assert.equal(isTranslationFile('package.json'), false);
+  });
+});
+
+describe('parseTranslationFile', () => {
+  it('flattens JSON into key paths, skipping non-string values', () => {
+    const source = '{\n  "home": { "hero": { "cta": "Start \\"free\\" trial" }, "items": ["One"] },\n  "count": 3\n}\n';
+    assert.deepEqual(records('locales/en.json', source), [
+      { key: 'home.hero.cta', value: 'Start "free" trial', locale: 'en', line: 2, column: 31 },
+      { key: 'home.items.0', value: 'One', locale: 'en', line: 2, column: 67 },
+    ]);
+  });
+
+  it('takes the locale and namespace of split JSON resources from the path', () => {
+    assert.deepEqual(records('locales/de/common.json', '{ "title": "Schneller liefern" }'), [
+      { key: 'title', value: 'Schneller liefern', locale: 'de', namespace: 'common', line: 1, column: 13 },
+    ]);
+  });
+
+  it('rejects invalid JSON', () => {
+    assert.throws(() => parseTranslationFile('locales/en.json', '{ "title": "Hi", }'), TranslationFileError);
+    assert.throws(() => parseTranslationFile('locales/en.json', '{ "title": '), /invalid JSON/);
+  });
+
+  it('reads a byte order mark in JSON as whitespace', () => {
+    assert.deepEqual(
+      parseTranslationFile('locales/en.json', '\uFEFF{"title": "Hi"}').map((entry) => entry.value),
+      ['Hi']
+    );
+  });
+
+  it('reads nested YAML with quoted, plain, block and folded scalars under a locale key', () => {
+    const source = [
+      '# comment',
+      'en:',
+      '  hero:',
+      '    title: "Ship \\"faster\\""',
+      "    subtitle: It's simple: really   # trailing",
+      '    enabled: true',
+      '    features:',
+      '      - Fast',
+      "      - 'Don''t worry'",
+      '    about: |',
+      '      Line one',
+      '      Line two',
+      '    folded: >',
+      '      Folded one',
+      '      folded two',
+      '',
+    ].join('\n');
+
+    assert.deepEqual(
+      parseTranslationFile('config/locales/en.yml', source).map((entry) => [entry.key, entry.value, entry.locale]),
+      [
+        ['hero.title', 'Ship "faster"', 'en'],
+        ['hero.subtitle', "It's simple: really", 'en'],
+        ['hero.features.0', 'Fast', 'en'],
+        ['hero.features.1', "Don't worry", 'en'],
+        ['hero.about', 'Line one\nLine two', 'en'],
+        ['hero.folded', 'Folded one folded two', 'en'],
+      ]
+    );
+  });
+
+  it('reads gettext catalogs with contexts, continued strings and plurals, skipping the header and untranslated entries', () => {
+    const source = [
+      'msgid ""',
+      'msgstr ""',
+      '"Language: fr\\n"',
+      '',
+      'msgid "Sign up"',
+      'msgstr "S\'inscrire"',
+      '',
+      'msgctxt "menu"',
+      'msgid "Home"',
+      'msgstr ""',
+      '"Accueil "',
+      '"principal"',
+      '',
+      'msgid "One item"',
+      'msgid_plural "%d items"',
+      'msgstr[0] "Un article"',
+      'msgstr[1] "%d articles"',
+      '',
+      'msgid "Untranslated"',
+      'msgstr ""',
+      '',
+    ].join('\n');
+
+    assert.deepEqual(
+      parseTranslationFile('i18n/fr.po', source).map((entry) => [entry.key, entry.value, entry.locale]),
+      [
+        ['Sign up', "S'inscrire", 'fr'],
+        ['menu.Home', 'Accueil principal', 'fr'],
+        ['One item', 'Un article', 'fr'],
+        ['One item[1]', '%d articles', 'fr'],
+      ]
+    );
+  });
+
+  it('reads XLIFF sources and targets with their languages', () => {
+    const source = [
+      '<xliff version="1.2"><file source-language="en" target-language="es"><body>',
+      '<trans-unit id="hero.title"><source>Ship &amp; grow</source><target>Envía y <b>crece</b></target></trans-unit>',
+      '<trans-unit id="x" resname="cta"><source>Buy</source><target><![CDATA[Comprar]]></target></trans-unit>',
+      '</body></file></xliff>',
+    ].join('\n');
+
+    assert.deepEqual(
+      parseTranslationFile('i18n/messages.xlf', source).map((entry) => [entry.key, entry.value, entry.locale]),
+      [
+        ['hero.title', 'Ship & grow', 'en'],
+        ['hero.title', 'Envía y crece', 'es'],
+        ['cta', 'Buy', 'en'],
+        ['cta', 'Comprar', 'es'],
+      ]
+    );
+  });
+
+  it('reads exported object literals of i18next-style modules, named constants as locales', () => {
+    const source = [
+      "const en = { nav: { home: 'Home', pricing: `Pricing` } } as const;",
+      "export const de = { nav: { home: 'Startseite' } };",
+      'export default en;',
+    ].join('\n');
+
+    assert.deepEqual(
+      parseTranslationFile('locales/index.ts', source).map((entry) => [entry.key, entry.value, entry.locale]),
+      [
+        ['nav.home', 'Startseite', 'de'],
+        ['nav.home', 'Home', undefined],
+        ['nav.pricing', 'Pricing', undefined],
+      ]
+    );
+  });
+});
+
+describe('groupTranslations', () => {
+  const entry = (key: string, locale: string, value: string, namespace?: string): TranslationEntry => ({
+    key,
+    value,
+    locale,
+    ...(namespace && { namespace }),
+    file: `locales/${locale}.json`,
+    format: 'json',
+    line: 1,
+    column: 1,
+    start: 0,
+    end: 0,
+  });
+
+  it('groups a key across locales, keeping namespaces apart', () => {
+    const groups = groupTranslations([
+      entry('title', 'en', 'Ship faster'),
+      entry('title', 'de', 'Schneller liefern'),
+      entry('title', 'en', 'Ship faster'),
+      entry('title', 'en', 'Common title', 'common'),
+    ]);
+
+    assert.deepEqual(
+      groups.map((group) => [group.id, group.entries.map((member) => member.locale)]),
+      [
+        ['title', ['en', 'de']],
+        ['common:title', ['en']],
+      ]
+    );
+  });
+
+  it('prefers English as the source locale, then the most complete', () => {
+    assert.equal(sourceLocale([entry('a', 'de', 'A'), entry('a', 'en-GB', 'A')]), 'en-GB');
+    assert.equal(sourceLocale([entry('a', 'de', 'A'), entry('a', 'fr', 'A'), entry('b', 'fr', 'B')]), 'fr');
+    assert.equal(sourceLocale([]), undefined);
+  });
+});
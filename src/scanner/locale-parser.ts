@@ -0,0 +1,618 @@
+/**
+ * Translation resource parsing
+ *
+ * Locale files are parsed into flat records (key path, value, locale) rather than read by
+ * the model: JSON, nested YAML, gettext .po, XLIFF 1.2 and 2.0, and i18next-style JS/TS
+ * modules that export an object literal. The locale comes from the file itself where the
+ * format records it (the .po Language header, XLIFF language attributes, top-level locale
+ * keys such as Rails' `en:`), and otherwise from the path (`locales/de.json`,
+ * `locales/de/common.json`, `messages.de.yml`). Records of the same key are grouped across
+ * locales, so a finding refers to a translation key rather than a line.
+ */
+
+import path from 'path';
+import ts from 'typescript';
+import { decodeEntities } from './source-extractor';
+
+export type TranslationFormat = 'json' | 'yaml' | 'po' | 'xliff' | 'module';
+
+export interface TranslationEntry {
+  /** Key path, e.g. "home.hero.title"; the msgid for gettext catalogs */
+  key: string;
+  value: string;
+  /** Locale as written, with "_" normalized to "-", e.g. "en" or "pt-BR"; unset when unknown */
+  locale?: string;
+  /** Namespace of split resources, e.g. "common" for locales/en/common.json */
+  namespace?: string;
+  file: string;
+  format: TranslationFormat;
+  /** 1-based line and column of the value */
+  line: number;
+  column: number;
+  /** Source offsets of the value as written, without quotes */
+  start: number;
+  end: number;
+}
+
+export interface TranslationGroup {
+  /** Key, prefixed with the namespace as "namespace:key" when there is one */
+  id: string;
+  key: string;
+  namespace?: string;
+  /** The key's record in each locale, at most one per locale */
+  entries: TranslationEntry[];
+}
+
+/**
+ * Thrown when a translation file cannot be parsed
+ */
+export class TranslationFileError extends Error {
+  constructor(
+    public readonly file: string,
+    message: string
+  ) {
+    super(`${file}: ${message}`);
+    this.name = 'TranslationFileError';
+  }
+}
+
+const FORMATS: Record<string, TranslationFormat> = {
+  '.json': 'json',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.po': 'po',
+  '.pot': 'po',
+  '.xlf': 'xliff',
+  '.xliff': 'xliff',
+  '.js': 'module',
+  '.mjs': 'module',
+  '.cjs': 'module',
+  '.ts': 'module',
+};
+
+/** Directories whose files are translation resources */
+const TRANSLATION_DIRS = ['locales', 'locale', 'i18n', 'translations', 'lang', 'messages'];
+
+/** Two-letter language, optionally with a script and region: "en", "pt-BR", "zh_Hant_TW" */
+const LOCALE = /^[a-z]{2}(?:[-_](?:[A-Za-z]{4}|[A-Za-z]{2}|\d{3}))*$/;
+
+/**
+ * Whether a file is a translation resource: a .po or XLIFF catalog anywhere, or a JSON,
+ * YAML or script file in a locales, i18n or translations directory
+ */
+export function isTranslationFile(file: string): boolean {
+  const format = FORMATS[path.extname(file).toLowerCase()];
+  if (format === 'po' || format === 'xliff') {
+    return true;
+  }
+
+  return !!format && path.dirname(file).split(/[\\/]/).some((part) => TRANSLATION_DIRS.includes(part.toLowerCase()));
+}
+
+/**
+ * Parses a translation file into one record per string
+ *
+ * @param file Path of the file; its extension picks the format and its path the locale
+ * @param source Contents of the file
+ * @returns The records in file order
+ * @throws TranslationFileError if the file is not valid in its format
+ */
+export function parseTranslationFile(file: string, source: string): TranslationEntry[] {
+  const format = FORMATS[path.extname(file).toLowerCase()];
+  if (!format) {
+    throw new TranslationFileError(file, 'not a translation format');
+  }
+
+  const fromPath = localeFromPath(file);
+  const locate = lineLocator(source);
+  const records = {
+    json: parseJson,
+    module: parseModule,
+    yaml: parseYaml,
+    po: parsePo,
+    xliff: parseXliff,
+  }[format](file, source);
+
+  // Several locales in one file, e.g. { "en": {...}, "de": {...} } or Rails' en.yml
+  const roots = new Set(records.filter((record) => !record.locale).map((record) => record.path[0]));
+  const localeRoots = roots.size > 0 && [...roots].every((root) => LOCALE.test(root) && records.every(
+    (record) => record.locale || record.path[0] !== root || record.path.length > 1
+  ));
+
+  return records.map((record) => {
+    const rooted = !record.locale && localeRoots;
+    return {
+      key: (rooted ? record.path.slice(1) : record.path).join('.'),
+      value: record.value,
+      ...((record.locale || rooted || fromPath.locale) && {
+        locale: (record.locale || (rooted ? record.path[0] : fromPath.locale))!.replace(/_/g, '-'),
+      }),
+      ...(fromPath.namespace && { namespace: fromPath.namespace }),
+      file,
+      format,
+      ...locate(record.start),
+      start: record.start,
+      end: record.end,
+    };
+  });
+}
+
+/**
+ * Groups records of the same key (and namespace) across locales
+ *
+ * @returns Groups in the order their keys first appear
+ */
+export function groupTranslations(entries: TranslationEntry[]): TranslationGroup[] {
+  const groups = new Map<string, TranslationGroup>();
+  for (const entry of entries) {
+    const id = entry.namespace ? `${entry.namespace}:${entry.key}` : entry.key;
+    const group = groups.get(id) || {
+      id,
+      key: entry.key,
+      ...(entry.namespace && { namespace: entry.namespace }),
+      entries: [],
+    };
+    // A catalog's source text can repeat in every file translated from it
+    if (!group.entries.some((other) => other.locale === entry.locale)) {
+      group.entries.push(entry);
+    }
+    groups.set(id, group);
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * The locale copy is written in first: English if there is one, else the most complete
+ */
+export function sourceLocale(entries: TranslationEntry[]): string | undefined {
+  const counts = new Map<string | undefined, number>();
+  for (const entry of entries) {
+    counts.set(entry.locale, (counts.get(entry.locale) || 0) + 1);
+  }
+
+  const locales = [...counts.keys()].filter((locale): locale is string => !!locale);
+  return (
+    locales.find((locale) => locale === 'en') ||
+    locales.find((locale) => locale.startsWith('en-')) ||
+    [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0]
+  );
+}
+
+/**
+ * A string read from a file, before the locale and key are resolved
+ */
+interface RawRecord {
+  path: string[];
+  value: string;
+  /** Set by formats that name the locale themselves */
+  locale?: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Locale and namespace from the file name or its directories
+ */
+function localeFromPath(file: string): { locale?: string; namespace?: string } {
+  const base = path.basename(file, path.extname(file));
+  if (LOCALE.test(base)) {
+    return { locale: base };
+  }
+
+  // messages.de.json
+  const parts = base.split('.');
+  const dotted = parts.findIndex((part) => LOCALE.test(part));
+  if (dotted !== -1) {
+    const namespace = parts.filter((_, index) => index !== dotted).join('.');
+    return { locale: parts[dotted], ...(namespace && { namespace }) };
+  }
+
+  // locales/de/common.json, locales/de/admin/users.json; only directories below the
+  // translations directory (or the parent) are considered, so unrelated paths do not match
+  const directories = path.dirname(file).split(/[\\/]/);
+  let root = directories.length - 2;
+  directories.forEach((part, index) => {
+    if (TRANSLATION_DIRS.includes(part.toLowerCase())) {
+      root = index;
+    }
+  });
+  for (let index = directories.length - 1; index > root; index--) {
+    if (LOCALE.test(directories[index])) {
+      return { locale: directories[index], namespace: [...directories.slice(index + 1), base].join('/') };
+    }
+  }
+
+  return {};
+}
+
+function lineLocator(source: string): (offset: number) => { line: number; column: number } {
+  const lineStarts = [0];
+  for (let index = source.indexOf('\n'); index !== -1; index = source.indexOf('\n', index + 1)) {
+    lineStarts.push(index + 1);
+  }
+
+  return (offset) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+}
+
+function parseJson(file: string, source: string): RawRecord[] {
+  // The TypeScript parser recovers from syntax errors, so they are found by JSON.parse
+  try {
+    JSON.parse(source.replace(/^\uFEFF/, ''));
+  } catch (error) {
+    throw new TranslationFileError(file, `invalid JSON (${error instanceof Error ? error.message : error})`);
+  }
+
+  const json = ts.parseJsonText(file, source);
+
+  const root = json.statements[0]?.expression;
+  return root && ts.isObjectLiteralExpression(root) ? objectRecords(root, [], json) : [];
+}
+
+/**
+ * Reads an i18next-style module: `export default {...}`, `module.exports = {...}` or
+ * exported constants, which are taken as locales when named like one (`export const de = {...}`)
+ */
+function parseModule(file: string, source: string): RawRecord[] {
+  const sourceFile = ts.createSourceFile(file, source, ts.ScriptTarget.Latest, true);
+  const constants = new Map<string, ts.Expression>();
+  const roots: Array<{ expression: ts.Expression; name?: string }> = [];
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isVariableStatement(statement)) {
+      const exported = statement.modifiers?.some((modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword);
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name) && declaration.initializer) {
+          constants.set(declaration.name.text, declaration.initializer);
+          if (exported) {
+            roots.push({ expression: declaration.initializer, name: declaration.name.text });
+          }
+        }
+      }
+    } else if (ts.isExportAssignment(statement)) {
+      roots.push({ expression: statement.expression });
+    } else if (
+      ts.isExpressionStatement(statement) &&
+      ts.isBinaryExpression(statement.expression) &&
+      statement.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+      statement.expression.left.getText() === 'module.exports'
+    ) {
+      roots.push({ expression: statement.expression.right });
+    }
+  }
+
+  return roots.flatMap(({ expression, name }) => {
+    let value = unwrap(expression);
+    if (ts.isIdentifier(value) && constants.has(value.text)) {
+      value = unwrap(constants.get(value.text)!);
+    }
+    if (!ts.isObjectLiteralExpression(value)) {
+      return [];
+    }
+
+    const records = objectRecords(value, name && !LOCALE.test(name) ? [name] : [], sourceFile);
+    return name && LOCALE.test(name) ? records.map((record) => ({ ...record, locale: name })) : records;
+  });
+}
+
+function unwrap(expression: ts.Expression): ts.Expression {
+  while (
+    ts.isParenthesizedExpression(expression) ||
+    ts.isAsExpression(expression) ||
+    ts.isSatisfiesExpression(expression)
+  ) {
+    expression = expression.expression;
+  }
+
+  return expression;
+}
+
+/**
+ * String values of an object literal, with their key paths
+ */
+function objectRecords(
+  node: ts.ObjectLiteralExpression | ts.ArrayLiteralExpression,
+  prefix: string[],
+  sourceFile: ts.SourceFile
+): RawRecord[] {
+  const records: RawRecord[] = [];
+  const entries: Array<[string, ts.Expression]> = ts.isArrayLiteralExpression(node)
+    ? node.elements.map((element, index) => [String(index), element])
+    : node.properties.flatMap((property): Array<[string, ts.Expression]> =>
+        ts.isPropertyAssignment(property) &&
+        (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name) || ts.isNumericLiteral(property.name))
+          ? [[property.name.text, property.initializer]]
+          : []
+      );
+
+  for (const [key, initializer] of entries) {
+    const value = unwrap(initializer);
+    if (ts.isObjectLiteralExpression(value) || ts.isArrayLiteralExpression(value)) {
+      records.push(...objectRecords(value, [...prefix, key], sourceFile));
+    } else if (ts.isStringLiteral(value) || ts.isNoSubstitutionTemplateLiteral(value)) {
+      records.push({
+        path: [...prefix, key],
+        value: value.text,
+        start: value.getStart(sourceFile) + 1,
+        end: value.getEnd() - 1,
+      });
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Reads the block-style YAML translation files use: nested mappings, lists, quoted and
+ * plain scalars and block scalars (`|`, `>`). Flow collections and aliases are skipped.
+ */
+function parseYaml(file: string, source: string): RawRecord[] {
+  const records: RawRecord[] = [];
+  const lines = source.split('\n');
+  const offsets: number[] = [];
+  for (let index = 0, offset = 0; index < lines.length; offset += lines[index].length + 1, index++) {
+    offsets.push(offset);
+  }
+
+  // Open mappings and list items; the root has indent -1
+  const stack: Array<{ indent: number; key?: string; item?: boolean; next: number }> = [{ indent: -1, next: 0 }];
+  const keyPath = () => stack.filter((frame) => frame.key !== undefined).map((frame) => frame.key!);
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].replace(/\r$/, '');
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#') || trimmed === '---' || trimmed === '...' || trimmed.startsWith('%')) {
+      continue;
+    }
+    if (line.startsWith('\t')) {
+      throw new TranslationFileError(file, `tab indentation on line ${index + 1}`);
+    }
+
+    let indent = line.length - line.trimStart().length;
+    let content = line.slice(indent);
+
+    if (content === '-' || content.startsWith('- ')) {
+      while (stack.length > 1 && (stack[stack.length - 1].indent > indent || (stack[stack.length - 1].indent === indent && stack[stack.length - 1].item))) {
+        stack.pop();
+      }
+      const owner = stack[stack.length - 1];
+      const item = String(owner.next++);
+      const rest = content.slice(1).trimStart();
+      if (!rest) {
+        stack.push({ indent, key: item, item: true, next: 0 });
+        continue;
+      }
+      if (!/^[^'"[{][^:]*:(\s|$)|^("[^"]*"|'[^']*'):(\s|$)/.test(rest)) {
+        const scalar = readScalar(rest, offsets[index] + line.length - rest.length);
+        if (scalar) {
+          records.push({ path: [...keyPath(), item], ...scalar });
+        }
+        continue;
+      }
+      // A mapping inside a list item continues at the indent of its first key
+      stack.push({ indent, key: item, item: true, next: 0 });
+      indent = line.length - rest.length;
+      content = rest;
+    }
+
+    const mapping = /^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^'"#][^#]*?)\s*:(?:\s+(.*))?$/.exec(content);
+    if (!mapping) {
+      continue;
+    }
+    while (stack.length > 1 && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+
+    const key = /^["']/.test(mapping[1]) ? mapping[1].slice(1, -1).replace(/''/g, "'") : mapping[1];
+    const value = (mapping[2] || '').replace(/^&\S+\s*/, '');
+    if (!value || value.startsWith('#')) {
+      stack.push({ indent, key, next: 0 });
+      continue;
+    }
+
+    if (/^[|>][-+0-9]*\s*(#.*)?$/.test(value)) {
+      // Block scalar: the more indented lines that follow
+      const block: number[] = [];
+      while (index + 1 < lines.length && (!lines[index + 1].trim() || lines[index + 1].length - lines[index + 1].trimStart().length > indent)) {
+        block.push(++index);
+      }
+      while (block.length > 0 && !lines[block[block.length - 1]].trim()) {
+        block.pop();
+      }
+      if (block.length === 0) {
+        continue;
+      }
+
+      const blockIndent = Math.min(...block.filter((line) => lines[line].trim()).map((line) => lines[line].length - lines[line].trimStart().length));
+      const texts = block.map((line) => lines[line].replace(/\r$/, '').slice(blockIndent));
+      const last = block[block.length - 1];
+      records.push({
+        path: [...keyPath(), key],
+        value: value.startsWith('|') ? texts.join('\n') : texts.join('\n').replace(/([^\n])\n(?=[^\n])/g, '$1 '),
+        start: offsets[block[0]] + blockIndent,
+        end: offsets[last] + lines[last].replace(/\r$/, '').length,
+      });
+      continue;
+    }
+
+    const scalar = readScalar(value, offsets[index] + line.replace(/\r$/, '').length - value.length);
+    if (scalar) {
+      records.push({ path: [...keyPath(), key], ...scalar });
+    }
+  }
+
+  return records;
+}
+
+/**
+ * A YAML scalar on one line; null for non-strings (numbers, booleans, null), aliases,
+ * flow collections and quoted strings that continue on the next line
+ */
+function readScalar(text: string, offset: number): { value: string; start: number; end: number } | null {
+  if (text.startsWith('"')) {
+    const match = /^"((?:[^"\\]|\\.)*)"/.exec(text);
+    if (!match) {
+      return null;
+    }
+    const value = match[1].replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, escape: string) =>
+      escape.length > 1
+        ? String.fromCharCode(parseInt(escape.slice(1), 16))
+        : ({ n: '\n', t: '\t', r: '\r', '0': '\0' } as Record<string, string>)[escape] ?? escape
+    );
+    return { value, start: offset + 1, end: offset + 1 + match[1].length };
+  }
+
+  if (text.startsWith("'")) {
+    const match = /^'((?:[^']|'')*)'/.exec(text);
+    return match ? { value: match[1].replace(/''/g, "'"), start: offset + 1, end: offset + 1 + match[1].length } : null;
+  }
+
+  const value = text.replace(/\s+#.*$/, '').trim();
+  if (!value || /^[*[{!|>]/.test(value) || /^(true|false|yes|no|on|off|null|~|[-+]?\d+(\.\d+)?)$/i.test(value)) {
+    return null;
+  }
+  return { value, start: offset, end: offset + value.length };
+}
+
+/**
+ * Reads a gettext catalog; each translated msgid (prefixed with its msgctxt) is a key
+ */
+function parsePo(file: string, source: string): RawRecord[] {
+  const records: RawRecord[] = [];
+  let locale: string | undefined;
+  let entry: { context?: string; id?: string; strings: Map<string, RawRecord>; field?: string } = { strings: new Map() };
+  let offset = 0;
+
+  const flush = () => {
+    if (entry.id === '') {
+      locale = /^Language:\s*(\S+)/m.exec(entry.strings.get('msgstr')?.value || '')?.[1] || locale;
+    } else if (entry.id !== undefined) {
+      const key = entry.context ? `${entry.context}.${entry.id}` : entry.id;
+      // Untranslated entries have an empty msgstr; plural forms after the first get their index
+      for (const [field, record] of entry.strings) {
+        const form = /\[(\d+)\]$/.exec(field)?.[1];
+        if (record.value) {
+          records.push({ ...record, path: [form && form !== '0' ? `${key}[${form}]` : key] });
+        }
+      }
+    }
+    entry = { strings: new Map() };
+  };
+
+  for (const rawLine of source.split('\n')) {
+    const lineOffset = offset;
+    offset += rawLine.length + 1;
+    const line = rawLine.replace(/\r$/, '');
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      flush();
+      continue;
+    }
+    // Comments, including obsolete (#~) entries
+    if (trimmed.startsWith('#')) {
+      continue;
+    }
+
+    const field = /^(msgctxt|msgid_plural|msgid|msgstr(?:\[\d+\])?)\s+"/.exec(trimmed);
+    const quote = line.indexOf('"');
+    const string = /^"((?:[^"\\]|\\.)*)"\s*$/.exec(line.slice(quote));
+    if (!string) {
+      throw new TranslationFileError(file, `unexpected line ${JSON.stringify(trimmed)}`);
+    }
+    const text = string[1].replace(/\\(.)/g, (_, escape: string) =>
+      ({ n: '\n', t: '\t', r: '\r' } as Record<string, string>)[escape] ?? escape
+    );
+    const start = lineOffset + quote + 1;
+    const end = start + string[1].length;
+
+    if (field) {
+      // A new msgctxt or msgid after a msgstr starts the next entry
+      if ((field[1] === 'msgctxt' || field[1] === 'msgid') && entry.strings.size > 0) {
+        flush();
+      }
+      entry.field = field[1];
+      if (field[1] === 'msgctxt') {
+        entry.context = text;
+      } else if (field[1] === 'msgid') {
+        entry.id = text;
+      } else if (field[1].startsWith('msgstr')) {
+        entry.strings.set(field[1], { path: [], value: text, start, end });
+      }
+    } else if (entry.field?.startsWith('msgstr')) {
+      // Continuation of a multi-line string
+      const record = entry.strings.get(entry.field)!;
+      // `msgstr ""` followed by the text on the next lines
+      entry.strings.set(entry.field, { ...record, value: record.value + text, ...(!record.value && { start }), end });
+    } else if (entry.field === 'msgid') {
+      entry.id = (entry.id || '') + text;
+    } else if (entry.field === 'msgctxt') {
+      entry.context = (entry.context || '') + text;
+    }
+  }
+  flush();
+
+  return locale ? records.map((record) => ({ ...record, locale })) : records;
+}
+
+/**
+ * Reads an XLIFF 1.2 or 2.0 file; each unit's source is recorded in the source language
+ * and its target in the target language, keyed by the unit's resname or id
+ */
+function parseXliff(file: string, source: string): RawRecord[] {
+  const sourceLanguage = /\b(?:source-language|srcLang)="([^"]+)"/.exec(source)?.[1];
+  const targetLanguage = /\b(?:target-language|trgLang)="([^"]+)"/.exec(source)?.[1];
+  if (!/<(xliff|trans-unit|unit)\b/.test(source)) {
+    throw new TranslationFileError(file, 'no XLIFF units found');
+  }
+
+  const records: RawRecord[] = [];
+  const units = /<(trans-unit|unit)\b([^>]*)>([\s\S]*?)<\/\1>/g;
+  for (let unit = units.exec(source); unit; unit = units.exec(source)) {
+    const key = /\b(?:resname|name)="([^"]*)"/.exec(unit[2])?.[1] || /\bid="([^"]*)"/.exec(unit[2])?.[1];
+    if (!key) {
+      continue;
+    }
+
+    const bodyStart = unit.index + unit[0].indexOf('>') + 1;
+    const bodyEnd = unit.index + unit[0].length;
+    for (const [element, locale] of [['source', sourceLanguage], ['target', targetLanguage]] as const) {
+      const pattern = new RegExp(`<${element}\\b[^>]*>([\\s\\S]*?)</${element}>`, 'g');
+      pattern.lastIndex = bodyStart;
+      const matches: RegExpExecArray[] = [];
+      for (let match = pattern.exec(source); match && match.index < bodyEnd; match = pattern.exec(source)) {
+        matches.push(match);
+      }
+
+      // XLIFF 2.0 units can hold several segments
+      matches.forEach((match, index) => {
+        const start = match.index + match[0].indexOf('>') + 1;
+        const inner = match[1].replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, '$1');
+        const value = decodeEntities(inner.replace(/<[^>]+>/g, '')).trim();
+        if (value) {
+          records.push({
+            path: [matches.length > 1 ? `${key}.${index}` : key],
+            value,
+            ...(locale && { locale }),
+            start,
+            end: start + match[1].length,
+          });
+        }
+      });
+    }
+  }
+
+  return records;
+}
@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { extractMarkupStrings } from './markup-extractor';
+
+describe('extractMarkupStrings', () => {
+  it('returns null for other file types and templates in another language', () => {
+    assert.equal(extractMarkupStrings('Hero.tsx', '<p>Hi</p>'), null);
+    assert.equal(extractMarkupStrings('Hero.vue', '<template lang="pug">\nh1 Hello\n</template>'), null);
+    assert.deepEqual(extractMarkupStrings('Store.vue', '<script>export default { name: "Store" }</script>'), []);
+  });
+
+  describe('Vue', () => {
+    const source = `<script setup>const label = 'Not copy';</script>
+<template>
+  <h1 :title="'Bound &amp; title'">Hello &amp; welcome</h1>
+  <p>{{ ok ? 'Yes' : 'No' }}</p>
+  <Card>
+    <template #footer>Footer text</template>
+    Default text
+  </Card>
+  <!-- <p>Commented out</p> -->
+  <pre>code here</pre>
+  <input placeholder="Your email" type="email">
+</template>
+<style>.title { color: red }</style>
+`;
+    const strings = extractMarkupStrings('Hero.vue', source)!;
+    const byText = (text: string) => strings.find((string) => string.text === text);
+
+    it('reads only the template block, without comments or code elements', () => {
+      assert.deepEqual(
+        strings.map((string) => string.text),
+        ['Bound & title', 'Hello & welcome', 'Yes', 'No', 'Footer text', 'Default text', 'Your email']
+      );
+    });
+
+    it('extracts literals of bound attributes and interpolations, decoded like Vue does', () => {
+      const bound = byText('Bound & title')!;
+      assert.equal(bound.kind, 'prop');
+      assert.equal(bound.prop, 'title');
+      assert.equal(source.slice(bound.start, bound.end), 'Bound &amp; title');
+
+      assert.equal(byText('Yes')?.kind, 'expression');
+      assert.deepEqual([byText('No')?.line, byText('No')?.column], [4, 23]);
+    });
+
+    it('records the slot that text fills', () => {
+      assert.equal(byText('Footer text')?.slot, 'footer');
+      assert.equal(byText('Default text')?.slot, 'default');
+      assert.equal(byText('Default text')?.element, 'Card');
+    });
+
+    it('extracts static user-facing attributes', () => {
+      const placeholder = byText('Your email')!;
+      assert.equal(placeholder.prop, 'placeholder');
+      assert.equal(placeholder.element, 'input');
+    });
+  });
+
+  describe('Svelte', () => {
+    const source = `<script>let name = 'x';</script>
+<nav>
+  <a href="/" title="Home {name}">Start {name}</a>
+  {#if open}<button alt={'Close menu'}>Close</button>{/if}
+  {@html raw}
+</nav>
+<style>nav { display: flex }</style>
+`;
+    const strings = extractMarkupStrings('Nav.svelte', source)!;
+
+    it('reads the markup outside scripts and styles, skipping blocks', () => {
+      assert.deepEqual(
+        strings.map((string) => [string.text, string.kind]),
+        [
+          ['Home {name}', 'prop'],
+          ['Start', 'text'],
+          ['Close menu', 'prop'],
+          ['Close', 'text'],
+        ]
+      );
+    });
+
+    it('marks quoted attributes with braces as templates', () => {
+      assert.equal(strings[0].template, true);
+      assert.equal(strings[0].component, 'Nav');
+    });
+  });
+
+  describe('Astro', () => {
+    it('reads the markup after the frontmatter', () => {
+      const strings = extractMarkupStrings('index.astro', `---\nconst title = 'Frontmatter';\n---\n<h1>{title}</h1>\n<p>Astro text</p>\n`)!;
+      assert.deepEqual(
+        strings.map((string) => [string.text, string.element, string.line, string.column]),
+        [['Astro text', 'p', 5, 4]]
+      );
+    });
+  });
+});
@@ -0,0 +1,383 @@
+/**
+ * Copy extraction from Vue, Svelte and Astro components
+ *
+ * The markup of a single-file component is tokenized rather than sent to the model: the
+ * `<template>` block of a Vue file, everything but the scripts and styles of a Svelte
+ * file, and everything after the frontmatter of an Astro file. Text nodes, static and
+ * bound values of user-facing attributes, string literals in `{{ }}` and `{ }`
+ * expressions, and the text passed into component slots come back as ExtractedStrings
+ * with exact positions, like the JSX extractor's.
+ */
+
+import path from 'path';
+import { decodeEntities, expressionLiterals, ExtractedString, USER_FACING_PROPS } from './source-extractor';
+
+type MarkupFormat = 'vue' | 'svelte' | 'astro';
+
+const FORMATS: Record<string, MarkupFormat> = {
+  '.vue': 'vue',
+  '.svelte': 'svelte',
+  '.astro': 'astro',
+};
+
+/** Elements whose content is not markup */
+const RAW_TEXT = ['script', 'style', 'textarea'];
+
+/** Elements whose text is not copy */
+const SKIPPED = ['code', 'pre', 'svg'];
+
+const VOID_ELEMENTS = [
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'param',
+  'source',
+  'track',
+  'wbr',
+];
+
+interface OpenElement {
+  tag: string;
+  /** Named slot the element fills, from `slot="name"`, `#name` or `v-slot:name` */
+  slot?: string;
+  skip: boolean;
+}
+
+interface Attribute {
+  name: string;
+  /** Raw value without quotes or braces; undefined for boolean attributes */
+  value?: string;
+  /** Offset of the value in the source */
+  start: number;
+  /** The value was written as `{expression}` */
+  braced: boolean;
+}
+
+/**
+ * Whether extractMarkupStrings can read a file, judging by its extension
+ */
+export function isMarkupSource(file: string): boolean {
+  return path.extname(file).toLowerCase() in FORMATS;
+}
+
+/**
+ * Extracts the user-facing strings of a Vue, Svelte or Astro component
+ *
+ * @param file Path of the file, reported on each string; its extension picks the format
+ * @param source Contents of the file
+ * @returns The strings in source order, or null for other file types and for Vue templates
+ *   written in another language (such as Pug)
+ */
+export function extractMarkupStrings(file: string, source: string): ExtractedString[] | null {
+  const format = FORMATS[path.extname(file).toLowerCase()];
+  if (!format) {
+    return null;
+  }
+
+  const region = markupRegion(format, source);
+  if (!region) {
+    return null;
+  }
+
+  const component = path.basename(file, path.extname(file));
+  const lineStarts = [0];
+  for (let index = source.indexOf('\n'); index !== -1; index = source.indexOf('\n', index + 1)) {
+    lineStarts.push(index + 1);
+  }
+
+  const strings: ExtractedString[] = [];
+  const stack: OpenElement[] = [];
+
+  const add = (
+    text: string,
+    start: number,
+    end: number,
+    details: Pick<ExtractedString, 'kind' | 'prop' | 'template' | 'element' | 'slot'>
+  ) => {
+    const normalized = text.replace(/\s+/g, ' ').trim();
+    if (!/\p{L}/u.test(normalized) || stack.some((element) => element.skip)) {
+      return;
+    }
+
+    let line = 0;
+    while (line + 1 < lineStarts.length && lineStarts[line + 1] <= start) {
+      line++;
+    }
+    strings.push({
+      text: normalized,
+      file,
+      line: line + 1,
+      column: start - lineStarts[line] + 1,
+      start,
+      end,
+      ...details,
+      component,
+    });
+  };
+
+  // The element text belongs to; a Vue <template #slot> passes it to the component around it
+  const placement = (): Pick<ExtractedString, 'element' | 'slot'> => {
+    const owner = [...stack].reverse().find((element) => element.tag !== 'template');
+    const slot = [...stack].reverse().find((element) => element.slot)?.slot;
+    const isComponent = owner && (/^[A-Z]/.test(owner.tag) || (format === 'vue' && owner.tag.includes('-')));
+    return {
+      ...(owner && { element: owner.tag }),
+      ...((slot || isComponent) && { slot: slot || 'default' }),
+    };
+  };
+
+  const addExpression = (
+    code: string,
+    offset: number,
+    details: Pick<ExtractedString, 'kind' | 'prop' | 'element' | 'slot'>
+  ) => {
+    for (const literal of expressionLiterals(code)) {
+      // Vue decodes entities in {{ }} and bound attributes before evaluating them
+      add(format === 'vue' ? decodeEntities(literal.text) : literal.text, offset + literal.start, offset + literal.end, {
+        ...details,
+        ...(literal.template && { template: true }),
+      });
+    }
+  };
+
+  const addText = (start: number, end: number) => {
+    const raw = source.slice(start, end);
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    add(decodeEntities(trimmed), start + leading, start + leading + trimmed.length, { kind: 'text', ...placement() });
+  };
+
+  const open = format === 'vue' ? '{{' : '{';
+  let position = region.start;
+  let textStart = position;
+
+  while (position < region.end) {
+    if (source.startsWith('<!--', position)) {
+      addText(textStart, position);
+      const close = source.indexOf('-->', position + 4);
+      position = textStart = close === -1 ? region.end : close + 3;
+      continue;
+    }
+
+    if (source.startsWith(open, position)) {
+      addText(textStart, position);
+      const close = format === 'vue' ? source.indexOf('}}', position + 2) : matchBrace(source, position);
+      const end = close === -1 ? region.end : close;
+      const codeStart = position + open.length;
+      const code = source.slice(codeStart, end);
+      // Svelte blocks ({#if}, {:else}, {/each}) and raw HTML ({@html}) are not text
+      if (format === 'vue' || !/^\s*[#:/@]/.test(code)) {
+        addExpression(code, codeStart, { kind: 'expression', ...placement() });
+      }
+      position = textStart = Math.min(region.end, end + (format === 'vue' ? 2 : 1));
+      continue;
+    }
+
+    const tag = source[position] === '<' ? /^<(\/?)([A-Za-z][\w:.-]*)/.exec(source.slice(position, position + 200)) : null;
+    if (!tag) {
+      position++;
+      continue;
+    }
+
+    addText(textStart, position);
+    const [, closing, name] = tag;
+
+    if (closing) {
+      const index = stack.map((element) => element.tag).lastIndexOf(name);
+      if (index !== -1) {
+        stack.length = index;
+      }
+      const close = source.indexOf('>', position);
+      position = textStart = close === -1 ? region.end : close + 1;
+      continue;
+    }
+
+    const { attributes, end, selfClosing } = readAttributes(source, position + tag[0].length, format);
+    position = textStart = Math.min(end, region.end);
+
+    stack.push({ tag: name, skip: SKIPPED.includes(name), slot: slotName(attributes, name, format) });
+    const slot = [...stack].reverse().find((element) => element.slot)?.slot;
+    const element = { element: name, ...(slot && { slot }) };
+    for (const attribute of attributes) {
+      const bound = format === 'vue' && /^(:|v-bind:)/.test(attribute.name);
+      const prop = attribute.name.replace(/^(:|v-bind:)/, '');
+      if (!USER_FACING_PROPS.includes(prop) || attribute.value === undefined) {
+        continue;
+      }
+
+      if (bound || attribute.braced) {
+        addExpression(attribute.value, attribute.start, { kind: 'prop', prop, ...element });
+      } else {
+        // Svelte and Astro interpolate {expressions} in quoted attribute values
+        const template = format !== 'vue' && attribute.value.includes('{');
+        add(decodeEntities(attribute.value), attribute.start, attribute.start + attribute.value.length, {
+          kind: 'prop',
+          prop,
+          ...(template && { template: true }),
+          ...element,
+        });
+      }
+    }
+    if (selfClosing || VOID_ELEMENTS.includes(name.toLowerCase())) {
+      stack.pop();
+      continue;
+    }
+
+    if (RAW_TEXT.includes(name.toLowerCase())) {
+      stack.pop();
+      const close = source.toLowerCase().indexOf(`</${name.toLowerCase()}`, position);
+      const after = close === -1 ? -1 : source.indexOf('>', close);
+      position = textStart = after === -1 ? region.end : Math.min(after + 1, region.end);
+    }
+  }
+  addText(textStart, region.end);
+
+  return strings;
+}
+
+/**
+ * The part of a component file that holds its markup
+ */
+function markupRegion(format: MarkupFormat, source: string): { start: number; end: number } | null {
+  if (format === 'vue') {
+    const open = /<template(\s[^>]*)?>/.exec(source);
+    if (!open) {
+      return { start: 0, end: 0 };
+    }
+    const lang = /\slang=["']?([\w-]+)/.exec(open[1] || '');
+    if (lang && lang[1] !== 'html') {
+      return null;
+    }
+    // Nested <template> tags are inside the block, so the last closing tag ends it
+    const close = source.lastIndexOf('</template>');
+    return { start: open.index + open[0].length, end: close > open.index ? close : source.length };
+  }
+
+  if (format === 'astro') {
+    const frontmatter = /^\s*---\r?\n[\s\S]*?\r?\n---[ \t]*(\r?\n|$)/.exec(source);
+    return { start: frontmatter ? frontmatter[0].length : 0, end: source.length };
+  }
+
+  return { start: 0, end: source.length };
+}
+
+/**
+ * Reads the attributes of an opening tag
+ *
+ * @param position Offset just after the tag name
+ * @returns The attributes, the offset after the tag and whether it closes itself
+ */
+function readAttributes(
+  source: string,
+  position: number,
+  format: MarkupFormat
+): { attributes: Attribute[]; end: number; selfClosing: boolean } {
+  const attributes: Attribute[] = [];
+
+  while (position < source.length) {
+    while (/\s/.test(source[position] || '')) {
+      position++;
+    }
+    if (source[position] === '>') {
+      return { attributes, end: position + 1, selfClosing: false };
+    }
+    if (source.startsWith('/>', position)) {
+      return { attributes, end: position + 2, selfClosing: true };
+    }
+
+    // Svelte and Astro shorthands ({name}, {...props}) have no name
+    if (source[position] === '{' && format !== 'vue') {
+      const close = matchBrace(source, position);
+      position = close === -1 ? source.length : close + 1;
+      continue;
+    }
+
+    const name = /^[^\s=>/]+/.exec(source.slice(position, position + 200))?.[0];
+    if (!name) {
+      position++;
+      continue;
+    }
+    position += name.length;
+    while (/\s/.test(source[position] || '')) {
+      position++;
+    }
+    if (source[position] !== '=') {
+      attributes.push({ name, start: position, braced: false });
+      continue;
+    }
+
+    position++;
+    while (/\s/.test(source[position] || '')) {
+      position++;
+    }
+    const quote = source[position];
+    if (quote === '"' || quote === "'") {
+      const close = source.indexOf(quote, position + 1);
+      const end = close === -1 ? source.length : close;
+      attributes.push({ name, value: source.slice(position + 1, end), start: position + 1, braced: false });
+      position = end + 1;
+    } else if (quote === '{' && format !== 'vue') {
+      const close = matchBrace(source, position);
+      const end = close === -1 ? source.length : close;
+      attributes.push({ name, value: source.slice(position + 1, end), start: position + 1, braced: true });
+      position = end + 1;
+    } else {
+      const value = /^[^\s>]+/.exec(source.slice(position, position + 200))?.[0] || '';
+      attributes.push({ name, value, start: position, braced: false });
+      position += value.length;
+    }
+  }
+
+  return { attributes, end: source.length, selfClosing: false };
+}
+
+/**
+ * The named slot an element fills, if any
+ */
+function slotName(attributes: Attribute[], tag: string, format: MarkupFormat): string | undefined {
+  for (const attribute of attributes) {
+    if (attribute.name === 'slot' && attribute.value) {
+      return attribute.value;
+    }
+    if (format === 'vue' && tag === 'template') {
+      const directive = /^(?:#|v-slot:?)(.*)$/.exec(attribute.name);
+      if (directive) {
+        return directive[1] || 'default';
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Finds the brace closing the one at an offset, skipping strings
+ *
+ * @returns Offset of the closing brace, or -1 when it is missing
+ */
+function matchBrace(source: string, position: number): number {
+  let depth = 0;
+  for (let index = position; index < source.length; index++) {
+    const char = source[index];
+    if (char === '"' || char === "'" || char === '`') {
+      for (index++; index < source.length && source[index] !== char; index++) {
+        if (source[index] === '\\') {
+          index++;
+        }
+      }
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return index;
+    }
+  }
+
+  return -1;
+}
@@ -1,9 +1,10 @@
 import { chromium } from "playwright";
 import { Agent } from "@mastra/core/agent";
 import { z } from "zod";
-import { anthropic } from "@ai-sdk/anthropic";
-import { config } from "../config";
+import { getModel } from "../providers";
 import { WebsiteContent, WebsiteScanResult } from "./website-scanner";
+import { normalizeUrl } from "./url-normalizer";
+import { resolveDevice } from "./devices";
 import { MCPClient } from "@mastra/mcp";
 import fs from "fs";
 import path from "path";
@@ -126,7 +127,8 @@ function extractJsonFromResponse(response: string): WebsiteContent[] {
  * of the browser for more autonomous navigation and analysis
  */
 export async function scanWebsiteWithMcp(
-  url: string
+  url: string,
+  options: { device?: string } = {}
 ): Promise<WebsiteScanResult> {
   console.log(`Starting MCP website scan for: ${url}`);
   const startTime = Date.now();
@@ -139,11 +141,15 @@ export async function scanWebsiteWithMcp(
 
   // Launch a browser instance with a larger viewport to see more content
   const browser = await chromium.launch({ headless: true });
-  const context = await browser.newContext({
-    viewport: { width: 1280, height: 900 },
-    userAgent:
-      "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/115.0.0.0 Safari/537.36",
-  });
+  const context = await browser.newContext(
+    options.device
+      ? resolveDevice(options.device).contextOptions
+      : {
+          viewport: { width: 1280, height: 900 },
+          userAgent:
+            "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/115.0.0.0 Safari/537.36",
+        },
+  );
   const page = await context.newPage();
 
   // State variables to track the exploration
@@ -274,7 +280,7 @@ export async function scanWebsiteWithMcp(
         ]
         
         Always include the JSON response inside code blocks with proper formatting.`,
-      model: anthropic(config.analysis.modelName),
+      model: getModel(),
       tools: mcpTools,
     });
 
@@ -286,7 +292,7 @@ export async function scanWebsiteWithMcp(
         waitUntil: "domcontentloaded",
         timeout: 60000, // 60 seconds
       });
-      visitedPages.push(url);
+      visitedPages.push(normalizeUrl(url) ?? url);
       currentUrl = url;
       console.log("Initial page loaded successfully");
 
@@ -399,7 +405,8 @@ export async function scanWebsiteWithMcp(
             const lastNavCall = navigationCalls[navigationCalls.length - 1];
             const navParams = (lastNavCall as any).parameters;
             if (navParams && navParams.url) {
-              currentUrl = navParams.url;
+              // Compare normalized URLs so variants of a visited page count once
+              currentUrl = normalizeUrl(navParams.url) ?? navParams.url;
               if (!visitedPages.includes(currentUrl)) {
                 visitedPages.push(currentUrl);
                 logProgress(`New page visited: ${currentUrl}`);
@@ -0,0 +1,282 @@
+/**
+ * Consent banner and modal handling for the website crawlers
+ *
+ * Cookie banners and newsletter popups cover the content the crawl is meant to analyze,
+ * so they are dismissed before screenshots are taken and the HTML is read. Known consent
+ * frameworks are handled by their own buttons, anything else that looks like a consent
+ * dialog or a modal by its accept or close button, then Escape, then by hiding it. Every
+ * overlay found is reported: an interruptive popup is a conversion finding of its own.
+ */
+
+import fs from 'fs';
+import type { Locator, Page } from 'playwright';
+
+export interface OverlayRule {
+  name: string;
+  kind: 'consent' | 'modal';
+  /** Selector of the overlay's container */
+  selector: string;
+  /** Buttons that accept (consent) or close (modal) the overlay, tried in order */
+  dismiss: string[];
+  /** Buttons that refuse optional cookies, used when consentChoice is "reject" */
+  reject?: string[];
+}
+
+export interface OverlayOptions {
+  /** Dismiss overlays before analysis; when false they are only reported (default true) */
+  dismissOverlays?: boolean;
+  /** Which consent button to press (default "accept") */
+  consentChoice?: 'accept' | 'reject';
+  /** Site-specific overlays, tried before the built-in frameworks */
+  overlayRules?: OverlayRule[];
+  /** Fixed elements that are never treated as overlays, such as a sticky chat widget */
+  ignoreOverlays?: string[];
+}
+
+export interface DetectedOverlay {
+  kind: 'consent' | 'modal';
+  /** Rule or consent framework that matched, or "generic" */
+  name: string;
+  selector: string;
+  /** Start of the overlay's text */
+  text: string;
+  /** How the overlay was removed; "none" when overlays are only reported */
+  dismissal: 'clicked' | 'escape' | 'hidden' | 'none';
+}
+
+/**
+ * Consent management platforms recognized by their markup
+ */
+export const CONSENT_FRAMEWORKS: OverlayRule[] = [
+  {
+    name: 'OneTrust',
+    kind: 'consent',
+    selector: '#onetrust-banner-sdk, #onetrust-consent-sdk .otPcCenter',
+    dismiss: ['#onetrust-accept-btn-handler', '#accept-recommended-btn-handler'],
+    reject: ['#onetrust-reject-all-handler', '.ot-pc-refuse-all-handler'],
+  },
+  {
+    name: 'Cookiebot',
+    kind: 'consent',
+    selector: '#CybotCookiebotDialog',
+    dismiss: [
+      '#CybotCookiebotDialogBodyLevelButtonLevelOptinAllowAll',
+      '#CybotCookiebotDialogBodyButtonAccept',
+    ],
+    reject: ['#CybotCookiebotDialogBodyButtonDecline'],
+  },
+  {
+    name: 'Didomi',
+    kind: 'consent',
+    selector: '#didomi-notice, #didomi-popup',
+    dismiss: ['#didomi-notice-agree-button', '#didomi-popup .didomi-button-highlight'],
+    reject: ['#didomi-notice-disagree-button', '.didomi-continue-without-agreeing'],
+  },
+  {
+    name: 'Quantcast Choice',
+    kind: 'consent',
+    selector: '.qc-cmp2-container',
+    dismiss: ['.qc-cmp2-summary-buttons button[mode="primary"]'],
+    reject: ['.qc-cmp2-summary-buttons button[mode="secondary"]'],
+  },
+  {
+    name: 'TrustArc',
+    kind: 'consent',
+    selector: '#truste-consent-track',
+    dismiss: ['#truste-consent-button'],
+    reject: ['#truste-consent-required'],
+  },
+  {
+    name: 'Osano',
+    kind: 'consent',
+    selector: '.osano-cm-dialog',
+    dismiss: ['.osano-cm-accept-all', '.osano-cm-accept'],
+    reject: ['.osano-cm-denyAll'],
+  },
+];
+
+// Labels end at a word boundary, so "ok" does not match "Okta sign-in"
+const ACCEPT_LABEL = /^\s*(accept|agree|allow|ok|okay|got it|i understand|i agree|continue|alle akzeptieren|akzeptieren|zustimmen|tout accepter|accepter|aceptar|accetta|accepteren)\b/i;
+const REJECT_LABEL = /^\s*(reject|decline|deny|refuse|only necessary|necessary only|use necessary|essential only|ablehnen|tout refuser|refuser|rechazar|rifiuta|weigeren)\b/i;
+const CLOSE_LABEL = /^\s*(close|dismiss|no,? thanks|not now|maybe later|skip|×|✕|✖|x)\s*$/i;
+
+const CLICKABLE = 'button, [role="button"], a, input[type="button"], input[type="submit"]';
+
+/**
+ * Reads --overlays files: an object with any of the OverlayOptions fields
+ */
+export function readOverlayOptions(filePath: string): OverlayOptions {
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  return {
+    ...(typeof data.dismissOverlays === 'boolean' && { dismissOverlays: data.dismissOverlays }),
+    ...(data.consentChoice && { consentChoice: data.consentChoice }),
+    ...(Array.isArray(data.overlayRules) && { overlayRules: data.overlayRules }),
+    ...(Array.isArray(data.ignoreOverlays) && { ignoreOverlays: data.ignoreOverlays }),
+  };
+}
+
+/**
+ * Finds consent banners and modals on a loaded page and dismisses them
+ *
+ * @param page Page that just finished loading
+ * @param options Overlay settings for the site
+ * @returns The overlays that were found, in the order they were handled
+ */
+export async function handleOverlays(page: Page, options: OverlayOptions = {}): Promise<DetectedOverlay[]> {
+  const dismiss = options.dismissOverlays !== false;
+  const reject = options.consentChoice === 'reject';
+  const overlays: DetectedOverlay[] = [];
+
+  for (const rule of [...(options.overlayRules || []), ...CONSENT_FRAMEWORKS]) {
+    const container = page.locator(rule.selector).first();
+    if (!(await isVisible(container))) {
+      continue;
+    }
+
+    const description = await container.evaluate(describeElement);
+    const buttons = rule.kind === 'consent' && reject && rule.reject ? rule.reject : rule.dismiss;
+    let dismissal: DetectedOverlay['dismissal'] = 'none';
+
+    if (dismiss) {
+      for (const button of buttons) {
+        if (await clickIfVisible(page.locator(button).first())) {
+          dismissal = 'clicked';
+          break;
+        }
+      }
+      if (dismissal === 'none' || (await isVisible(container))) {
+        dismissal = await forceDismiss(page, container);
+      }
+    }
+
+    overlays.push({ kind: rule.kind, name: rule.name, ...description, dismissal });
+  }
+
+  // Anything else fixed over the page that reads like a consent request or is a modal dialog
+  const candidates = await page.evaluate((ignore: string[]) => {
+    const viewportArea = window.innerWidth * window.innerHeight;
+    const found: Array<{ consent: boolean }> = [];
+
+    for (const element of Array.from(document.querySelectorAll('body *'))) {
+      if (element.closest('[data-steelpush-overlay]') || ignore.some((selector) => element.matches(selector))) {
+        continue;
+      }
+
+      const style = window.getComputedStyle(element);
+      const isDialog =
+        element.getAttribute('aria-modal') === 'true' ||
+        (element.tagName === 'DIALOG' && (element as HTMLDialogElement).open);
+      if (!isDialog && style.position !== 'fixed') {
+        continue;
+      }
+      if (style.display === 'none' || style.visibility === 'hidden' || Number(style.opacity) === 0) {
+        continue;
+      }
+
+      const box = element.getBoundingClientRect();
+      if (box.width * box.height < viewportArea * 0.05 || !element.querySelector('button, [role="button"], a')) {
+        continue;
+      }
+
+      const text = (element.textContent || '').replace(/\s+/g, ' ');
+      const consent = /cookie|consent|gdpr|datenschutz|rgpd/i.test(text);
+      // Sticky headers and navigation bars stay; only dialogs, consent banners and popups
+      // covering a large part of the viewport count
+      const isChrome = element.matches('header, nav, [role="banner"], [role="navigation"]') || !!element.querySelector('nav');
+      if (!isDialog && !consent && (isChrome || box.width * box.height < viewportArea * 0.3)) {
+        continue;
+      }
+
+      element.setAttribute('data-steelpush-overlay', String(found.length));
+      found.push({ consent });
+    }
+
+    return found;
+  }, options.ignoreOverlays || []);
+
+  for (const [index, candidate] of candidates.entries()) {
+    const container = page.locator(`[data-steelpush-overlay="${index}"]`);
+    if (!(await isVisible(container))) {
+      continue;
+    }
+
+    const description = await container.evaluate(describeElement);
+    let dismissal: DetectedOverlay['dismissal'] = 'none';
+
+    if (dismiss) {
+      const label = candidate.consent ? (reject ? REJECT_LABEL : ACCEPT_LABEL) : CLOSE_LABEL;
+      const buttons = container.locator(CLICKABLE).filter({ hasText: label });
+      const closeButton = candidate.consent
+        ? buttons
+        : buttons.or(container.locator('[aria-label*="close" i], [aria-label*="dismiss" i]'));
+
+      dismissal = (await clickIfVisible(closeButton.first())) && !(await isVisible(container))
+        ? 'clicked'
+        : await forceDismiss(page, container);
+    }
+
+    overlays.push({ kind: candidate.consent ? 'consent' : 'modal', name: 'generic', ...description, dismissal });
+  }
+
+  await page.evaluate(() => {
+    document.querySelectorAll('[data-steelpush-overlay]').forEach((element) => element.removeAttribute('data-steelpush-overlay'));
+  });
+
+  if (overlays.length > 0) {
+    console.log(
+      `${dismiss ? 'Dismissed' : 'Found'} ${overlays.length} overlay(s): ${overlays.map((overlay) => overlay.name).join(', ')}`
+    );
+  }
+
+  return overlays;
+}
+
+/**
+ * Presses Escape, and hides the overlay if it is still showing
+ */
+async function forceDismiss(page: Page, container: Locator): Promise<DetectedOverlay['dismissal']> {
+  await page.keyboard.press('Escape');
+  await page.waitForTimeout(300);
+  if (!(await isVisible(container))) {
+    return 'escape';
+  }
+
+  await container.evaluate((element) => {
+    (element as HTMLElement).style.setProperty('display', 'none', 'important');
+    // Overlays often lock scrolling on the page behind them
+    document.documentElement.style.removeProperty('overflow');
+    document.body.style.removeProperty('overflow');
+  });
+  return 'hidden';
+}
+
+async function clickIfVisible(locator: Locator): Promise<boolean> {
+  if (!(await isVisible(locator))) {
+    return false;
+  }
+
+  try {
+    await locator.click({ timeout: 2000 });
+    await locator.page().waitForTimeout(500);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function isVisible(locator: Locator): Promise<boolean> {
+  return locator.isVisible().catch(() => false);
+}
+
+/**
+ * Runs in the page: a short selector and the start of the text of an overlay
+ */
+function describeElement(element: Element): { selector: string; text: string } {
+  const classes = Array.from(element.classList).slice(0, 2);
+  const selector = element.id
+    ? `#${element.id}`
+    : `${element.tagName.toLowerCase()}${classes.map((name) => `.${name}`).join('')}`;
+  const text = (element.textContent || '').replace(/\s+/g, ' ').trim();
+
+  return { selector, text: text.length > 200 ? `${text.slice(0, 200)}...` : text };
+}
@@ -0,0 +1,60 @@
+/**
+ * Bounded pool of browser pages sharing one BrowserContext
+ *
+ * Pages are reused between tasks, so cookies and cache from the context carry over while
+ * at most `size` pages are open at once.
+ */
+
+import type { BrowserContext, Page } from 'playwright';
+import { createLimiter, Limiter } from '../utils/concurrency';
+
+export class PagePool {
+  private readonly idle: Page[] = [];
+  private readonly all: Page[] = [];
+  private readonly limit: Limiter;
+
+  constructor(
+    private readonly context: BrowserContext,
+    readonly size: number
+  ) {
+    this.limit = createLimiter(size);
+  }
+
+  /**
+   * Runs a task with a page from the pool, opening a new page if none is idle
+   *
+   * @param task Work to do with the page; the page returns to the pool afterwards
+   * @returns The task's result
+   */
+  use<T>(task: (page: Page) => Promise<T>): Promise<T> {
+    return this.limit(async () => {
+      const page = this.idle.pop() || (await this.open());
+
+      try {
+        return await task(page);
+      } finally {
+        // A page left in a broken state is replaced rather than reused
+        if (page.isClosed()) {
+          this.all.splice(this.all.indexOf(page), 1);
+        } else {
+          this.idle.push(page);
+        }
+      }
+    });
+  }
+
+  /**
+   * Closes every page the pool opened
+   */
+  async close(): Promise<void> {
+    await Promise.all(this.all.map((page) => page.close().catch(() => undefined)));
+    this.all.length = 0;
+    this.idle.length = 0;
+  }
+
+  private async open(): Promise<Page> {
+    const page = await this.context.newPage();
+    this.all.push(page);
+    return page;
+  }
+}
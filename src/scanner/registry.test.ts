@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, describe, it } from "node:test";
+import { z } from "zod";
+import type { AnalysisArtifact } from "../core/artifact";
+import { ScanRun } from "./checkpoint";
+import { registerScanner, resumeScan, runScanner } from "./registry";
+
+describe("scan checkpoints", () => {
+  const runsDir = fs.mkdtempSync(path.join(os.tmpdir(), "steelpush-runs-"));
+  process.env.STEELPUSH_RUNS_DIR = runsDir;
+  after(() => fs.rmSync(runsDir, { recursive: true, force: true }));
+
+  const received: Array<Record<string, unknown>> = [];
+  let runId = "";
+  registerScanner({
+    name: "checkpoint-test",
+    description: "Records its options and stops",
+    capabilities: {
+      targets: ["website"],
+      crawl: false,
+      browser: false,
+      screenshots: false,
+      selectors: false,
+      checkpoints: true,
+    },
+    optionsSchema: z.object({}).passthrough(),
+    scan: async (_target, options, run): Promise<AnalysisArtifact> => {
+      received.push(options);
+      runId = run!.runId;
+      throw new Error("interrupted");
+    },
+  });
+
+  const checkpoint = () =>
+    JSON.parse(fs.readFileSync(path.join(runsDir, runId, "checkpoint.json"), "utf-8"));
+
+  it("never writes credentials, but gives them to the scan when it starts and resumes", async () => {
+    await assert.rejects(
+      runScanner("https://example.com", "checkpoint-test", {
+        httpCredentials: { username: "user", password: "secret" },
+        maxPages: 3,
+      }),
+    );
+    assert.deepEqual(checkpoint().options, { maxPages: 3 });
+
+    await assert.rejects(resumeScan(runId, { extraHeaders: { "X-Token": "secret" }, maxPages: 5 }));
+    assert.deepEqual(checkpoint().options, { maxPages: 5 });
+    assert.deepEqual(received, [
+      { httpCredentials: { username: "user", password: "secret" }, maxPages: 3 },
+      { maxPages: 5, extraHeaders: { "X-Token": "secret" } },
+    ]);
+    assert.equal(ScanRun.open(runId).options.extraHeaders, undefined);
+  });
+});
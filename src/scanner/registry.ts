@@ -0,0 +1,470 @@
+/**
+ * Scanner registry
+ *
+ * Every way of finding content (the Playwright crawler, the MCP agents, the codebase
+ * scanner, or a scanner from a third-party package) is registered here under a name and
+ * returns the same canonical analysis artifact, so the rest of the pipeline never needs to
+ * know which one ran.
+ */
+
+import fs from "fs";
+import path from "path";
+import { createRequire } from "module";
+import { pathToFileURL } from "url";
+import { z } from "zod";
+import {
+  AnalysisArtifact,
+  AnalysisArtifactSchema,
+  createAnalysisArtifact,
+} from "../core/artifact";
+import { applyCopyHeuristics } from "../analyzer/heuristic-analyzer";
+import { loadConfig } from "../utils/config";
+import { ScanRun } from "./checkpoint";
+import { AUTH_SECRET_OPTIONS } from "./auth";
+
+export type ScanTarget = "website" | "codebase";
+
+export interface ScannerCapabilities {
+  /** Kinds of targets the scanner accepts */
+  targets: ScanTarget[];
+  /** Follows links beyond the start page */
+  crawl: boolean;
+  /** Drives a real browser, so Playwright browsers must be installed */
+  browser: boolean;
+  /** Saves page screenshots */
+  screenshots: boolean;
+  /** Reports a CSS selector for each element it finds */
+  selectors: boolean;
+  /** Saves progress to a run directory, so an interrupted scan can be resumed */
+  checkpoints?: boolean;
+}
+
+export interface Scanner<Options = any> {
+  name: string;
+  description: string;
+  capabilities: ScannerCapabilities;
+  /**
+   * Validates the scanner's options. Values may arrive as strings from the command line,
+   * so numeric and boolean options should coerce.
+   */
+  optionsSchema: z.ZodType<Options, z.ZodTypeDef, unknown>;
+  /**
+   * Scans the target. Scanners with the checkpoints capability receive the run to save
+   * their progress to; on resume it holds the state they saved last.
+   */
+  scan(target: string, options: Options, run?: ScanRun<any>): Promise<AnalysisArtifact>;
+}
+
+/**
+ * Scanners used when none is named
+ */
+export const DEFAULT_SCANNERS: Record<ScanTarget, string> = {
+  website: "advanced",
+  codebase: "codebase",
+};
+
+const scanners = new Map<string, Scanner>();
+
+/**
+ * Registers a scanner under its name, replacing any scanner of the same name
+ *
+ * @param scanner The scanner to register
+ */
+export function registerScanner<Options>(scanner: Scanner<Options>): void {
+  scanners.set(scanner.name, scanner);
+}
+
+/**
+ * Lists all registered scanners
+ */
+export function listScanners(): Scanner[] {
+  return [...scanners.values()];
+}
+
+/**
+ * Looks up a scanner by name
+ *
+ * @throws Error if no scanner of that name is registered
+ */
+export function getScanner(name: string): Scanner {
+  const scanner = scanners.get(name);
+
+  if (!scanner) {
+    throw new Error(
+      `Unknown scanner "${name}". Available scanners: ${[...scanners.keys()].join(", ")}`,
+    );
+  }
+
+  return scanner;
+}
+
+/**
+ * Determines whether a target is a website or a codebase
+ */
+export function getScanTarget(target: string): ScanTarget {
+  return target.startsWith("http://") || target.startsWith("https://")
+    ? "website"
+    : "codebase";
+}
+
+/**
+ * Scans a website or codebase with a registered scanner
+ *
+ * @param target URL or directory to scan
+ * @param name Scanner to use; defaults to DEFAULT_SCANNERS for the kind of target
+ * @param options Scanner options, validated against the scanner's options schema
+ * @returns The validated analysis artifact
+ */
+export async function runScanner(
+  target: string,
+  name?: string,
+  options: Record<string, unknown> = {},
+): Promise<AnalysisArtifact> {
+  const kind = getScanTarget(target);
+  const scanner = getScanner(name || DEFAULT_SCANNERS[kind]);
+
+  if (!scanner.capabilities.targets.includes(kind)) {
+    throw new Error(
+      `Scanner "${scanner.name}" cannot scan a ${kind} (it supports: ${scanner.capabilities.targets.join(", ")})`,
+    );
+  }
+
+  // Credentials are left out of the checkpoint; a resumed scan is given them again
+  const run = scanner.capabilities.checkpoints
+    ? ScanRun.create(scanner.name, target, withoutSecrets(options))
+    : undefined;
+  if (run) {
+    console.log(`Run ID: ${run.runId}`);
+  }
+
+  return executeScan(scanner, target, options, run);
+}
+
+/**
+ * Continues an interrupted scan from its last checkpoint
+ *
+ * @param runId ID of the run, as printed when it started
+ * @param overrides Options that replace the ones the run was started with
+ * @returns The validated analysis artifact
+ * @throws CheckpointError if the run cannot be found
+ */
+export async function resumeScan(
+  runId: string,
+  overrides: Record<string, unknown> = {},
+): Promise<AnalysisArtifact> {
+  const run = ScanRun.open(runId);
+  const scanner = getScanner(run.scanner);
+
+  if (run.status === "complete") {
+    console.log(`Run ${runId} already finished; rebuilding its results from the checkpoint`);
+  } else {
+    console.log(`Resuming run ${runId} (${run.scanner} scan of ${run.target})`);
+  }
+
+  // Credentials given again for this run are used, but never written to the checkpoint
+  const options = { ...run.options, ...overrides };
+  run.updateOptions(withoutSecrets(options));
+
+  return executeScan(scanner, run.target, options, run);
+}
+
+/**
+ * Scan options without the credentials, as saved in checkpoints
+ */
+function withoutSecrets(options: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(options).filter(([key]) => !AUTH_SECRET_OPTIONS.includes(key)),
+  );
+}
+
+async function executeScan(
+  scanner: Scanner,
+  target: string,
+  options: Record<string, unknown>,
+  run: ScanRun | undefined,
+): Promise<AnalysisArtifact> {
+  const parsedOptions = scanner.optionsSchema.safeParse(options);
+  if (!parsedOptions.success) {
+    const issues = parsedOptions.error.issues
+      .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+      .join("; ");
+    throw new Error(`Invalid options for scanner "${scanner.name}": ${issues}`);
+  }
+
+  let result: AnalysisArtifact;
+  try {
+    result = await scanner.scan(target, parsedOptions.data, run);
+  } catch (error) {
+    if (run) {
+      console.error(`Scan interrupted. Continue it with: steelpush analyze --resume ${run.runId}`);
+    }
+    throw error;
+  }
+
+  // Third-party scanners are held to the same contract as the built-in ones
+  const artifact = AnalysisArtifactSchema.safeParse(result);
+  if (!artifact.success) {
+    throw new Error(
+      `Scanner "${scanner.name}" returned an invalid analysis: ${artifact.error.issues[0]?.message}`,
+    );
+  }
+
+  run?.complete();
+  return artifact.data;
+}
+
+/**
+ * Loads scanners from third-party modules
+ *
+ * A plugin module exports a scanner, or an array of scanners, as its default export or
+ * as `scanners`. Package names are resolved from the current directory; relative paths
+ * from the current directory too.
+ *
+ * @param modules Package names or file paths
+ * @returns Names of the scanners that were registered
+ */
+export async function loadScannerPlugins(modules: string[]): Promise<string[]> {
+  const registered: string[] = [];
+
+  for (const specifier of modules) {
+    const exports = await import(resolvePluginUrl(specifier));
+    const exported = exports.scanners ?? exports.default;
+    const plugins: Scanner[] = Array.isArray(exported) ? exported : [exported];
+
+    for (const plugin of plugins) {
+      if (!plugin || typeof plugin.name !== "string" || typeof plugin.scan !== "function") {
+        throw new Error(`Plugin "${specifier}" does not export a scanner`);
+      }
+
+      registerScanner(plugin);
+      registered.push(plugin.name);
+    }
+  }
+
+  return registered;
+}
+
+/**
+ * Loads the scanner plugins listed in STEELPUSH_PLUGINS (comma separated) and the
+ * "plugins" array of the config file
+ */
+export async function loadConfiguredScannerPlugins(): Promise<string[]> {
+  const fromEnv = (process.env.STEELPUSH_PLUGINS || "")
+    .split(",")
+    .map((plugin) => plugin.trim())
+    .filter(Boolean);
+  const fromConfig: string[] = loadConfig()?.plugins || [];
+
+  return loadScannerPlugins([...new Set([...fromEnv, ...fromConfig])]);
+}
+
+function resolvePluginUrl(specifier: string): string {
+  const localPath = path.resolve(specifier);
+  if (specifier.startsWith(".") || path.isAbsolute(specifier) || fs.existsSync(localPath)) {
+    return pathToFileURL(localPath).href;
+  }
+
+  const require = createRequire(path.join(process.cwd(), "package.json"));
+  return pathToFileURL(require.resolve(specifier)).href;
+}
+
+const Flag = z.preprocess(
+  (value) => (value === "true" ? true : value === "false" ? false : value),
+  z.boolean(),
+);
+
+const CommaList = z.preprocess(
+  (value) => (typeof value === "string" ? value.split(",").map((item) => item.trim()).filter(Boolean) : value),
+  z.array(z.string()),
+);
+
+const CrawlOptionsSchema = z.object({
+  maxPages: z.coerce.number().int().positive().optional(),
+  maxDepth: z.coerce.number().int().min(0).optional(),
+  headless: Flag.optional(),
+  timeout: z.coerce.number().int().positive().optional(),
+  screenshotsDir: z.string().optional(),
+});
+
+const AuthOptionsSchema = z.object({
+  login: z.string().optional(),
+  storageState: z.string().optional(),
+  freshLogin: Flag.optional(),
+  httpCredentials: z
+    .preprocess(
+      // Accepts "user:password" from --scanner-option
+      (value) => {
+        if (typeof value !== "string") {
+          return value;
+        }
+        const separator = value.indexOf(":");
+        return separator === -1
+          ? value
+          : { username: value.slice(0, separator), password: value.slice(separator + 1) };
+      },
+      z.object({ username: z.string(), password: z.string() }),
+    )
+    .optional(),
+  extraHeaders: z.record(z.string()).optional(),
+});
+
+const OverlayOptionsSchema = z.object({
+  dismissOverlays: Flag.optional(),
+  consentChoice: z.enum(["accept", "reject"]).optional(),
+  overlayRules: z
+    .array(
+      z.object({
+        name: z.string(),
+        kind: z.enum(["consent", "modal"]),
+        selector: z.string(),
+        dismiss: z.array(z.string()),
+        reject: z.array(z.string()).optional(),
+      }),
+    )
+    .optional(),
+  ignoreOverlays: CommaList.optional(),
+});
+
+const PoliteCrawlOptionsSchema = CrawlOptionsSchema.merge(AuthOptionsSchema).merge(OverlayOptionsSchema).extend({
+  userAgent: z.string().optional(),
+  respectRobots: Flag.optional(),
+  useSitemap: Flag.optional(),
+  trackingParams: CommaList.optional(),
+  ignorePathCase: Flag.optional(),
+  devices: CommaList.optional(),
+  concurrency: z.coerce.number().int().positive().optional(),
+  analysisConcurrency: z.coerce.number().int().positive().optional(),
+});
+
+const NoOptionsSchema = z.object({});
+
+/**
+ * Scanners that emulate a single device use the first one listed
+ */
+const DeviceOptionsSchema = z.object({
+  devices: CommaList.optional(),
+});
+
+// Implementations are imported on first use, so only the chosen scanner's browser and
+// MCP dependencies are loaded
+
+registerScanner({
+  name: "advanced",
+  description: "Crawls with Playwright and analyzes an outline of each page's visible content",
+  capabilities: {
+    targets: ["website"],
+    crawl: true,
+    browser: true,
+    screenshots: true,
+    selectors: true,
+    checkpoints: true,
+  },
+  optionsSchema: PoliteCrawlOptionsSchema.extend({
+    chunkSize: z.coerce.number().int().positive().optional(),
+    chunkOverlap: z.coerce.number().int().nonnegative().optional(),
+    heuristics: z.enum(["context", "prefilter", "only", "off"]).optional(),
+  }),
+  scan: async (url, options, run) => {
+    const { scanWebsiteAdvanced } = await import("./advanced-scanner");
+    return createAnalysisArtifact(await scanWebsiteAdvanced(url, options, run));
+  },
+});
+
+registerScanner({
+  name: "playwright",
+  description: "Visits pages with Playwright and has an agent extract the visible content",
+  capabilities: {
+    targets: ["website"],
+    crawl: true,
+    browser: true,
+    screenshots: false,
+    selectors: false,
+  },
+  optionsSchema: NoOptionsSchema,
+  scan: async (url) => {
+    const { scanWebsite } = await import("./website-scanner");
+    return createAnalysisArtifact(await scanWebsite(url));
+  },
+});
+
+registerScanner({
+  name: "mcp",
+  description: "Lets an agent browse the site through the Playwright MCP server over several turns",
+  capabilities: {
+    targets: ["website"],
+    crawl: true,
+    browser: true,
+    screenshots: true,
+    selectors: false,
+  },
+  optionsSchema: DeviceOptionsSchema,
+  scan: async (url, { devices }) => {
+    const { scanWebsiteWithMcp } = await import("./mcp-website-scanner");
+    return createAnalysisArtifact(await scanWebsiteWithMcp(url, { device: devices?.[0] }));
+  },
+});
+
+registerScanner({
+  name: "direct-mcp",
+  description: "Analyzes the start page through the Playwright MCP server in a single turn",
+  capabilities: {
+    targets: ["website"],
+    crawl: false,
+    browser: true,
+    screenshots: true,
+    selectors: false,
+  },
+  optionsSchema: DeviceOptionsSchema,
+  scan: async (url, { devices }) => {
+    const { scanWebsiteWithDirectMcp } = await import("./direct-mcp-scanner");
+    return createAnalysisArtifact(await scanWebsiteWithDirectMcp(url, { device: devices?.[0] }));
+  },
+});
+
+registerScanner({
+  name: "enhanced-mcp",
+  description: "MCP agent that also scrolls, clicks and fills forms while exploring",
+  capabilities: {
+    targets: ["website"],
+    crawl: true,
+    browser: true,
+    screenshots: true,
+    selectors: false,
+    checkpoints: true,
+  },
+  optionsSchema: CrawlOptionsSchema.merge(AuthOptionsSchema).merge(DeviceOptionsSchema),
+  scan: async (url, { screenshotsDir, devices, ...options }, run) => {
+    const { scanWebsiteWithEnhancedMcp } = await import("./enhanced-mcp-scanner");
+    return createAnalysisArtifact(
+      await scanWebsiteWithEnhancedMcp(
+        url,
+        { ...options, screenshotDir: screenshotsDir, device: devices?.[0] },
+        run,
+      ),
+    );
+  },
+});
+
+registerScanner({
+  name: "codebase",
+  description: "Has an agent extract marketing copy from the source files of a project",
+  capabilities: {
+    targets: ["codebase"],
+    crawl: false,
+    browser: false,
+    screenshots: false,
+    selectors: false,
+  },
+  optionsSchema: z.object({
+    heuristics: z.enum(["context", "prefilter", "only", "off"]).optional(),
+  }),
+  scan: async (directory, { heuristics }) => {
+    const { scanCodebase } = await import("./codebase-scanner");
+    const artifact = createAnalysisArtifact(await scanCodebase(directory, { heuristics }));
+    if (heuristics === "off") {
+      return artifact;
+    }
+
+    return { ...artifact, elements: applyCopyHeuristics(artifact.elements) };
+  },
+});
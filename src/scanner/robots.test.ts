@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseRobotsTxt } from './robots';
+
+describe('parseRobotsTxt', () => {
+  it('lets the longest matching path win, and Allow win ties', () => {
+    const policy = parseRobotsTxt(
+      ['User-agent: *', 'Disallow: /private', 'Allow: /private/pricing', 'Disallow: /tie', 'Allow: /tie'].join('\n')
+    );
+
+    assert.equal(policy.isAllowed('https://example.com/'), true);
+    assert.equal(policy.isAllowed('https://example.com/private/team'), false);
+    assert.equal(policy.isAllowed('https://example.com/private/pricing'), true);
+    assert.equal(policy.isAllowed('https://example.com/tie'), true);
+  });
+
+  it('supports the * wildcard and the $ end anchor', () => {
+    const policy = parseRobotsTxt(['User-agent: *', 'Disallow: /*.pdf$', 'Disallow: /search*?q='].join('\n'));
+
+    assert.equal(policy.isAllowed('https://example.com/guide.pdf'), false);
+    assert.equal(policy.isAllowed('https://example.com/guide.pdf?download=1'), true);
+    assert.equal(policy.isAllowed('https://example.com/search/all?q=shoes'), false);
+    assert.equal(policy.isAllowed('https://example.com/search'), true);
+  });
+
+  it('applies only the group of the most specific user agent', () => {
+    const text = [
+      'User-agent: *',
+      'Disallow: /',
+      '',
+      'User-agent: steelpush',
+      'User-agent: otherbot',
+      'Disallow: /admin',
+      'Crawl-delay: 2',
+    ].join('\n');
+
+    const policy = parseRobotsTxt(text, 'Mozilla/5.0 (compatible; Steelpush/1.0)');
+    assert.equal(policy.isAllowed('https://example.com/pricing'), true);
+    assert.equal(policy.isAllowed('https://example.com/admin'), false);
+    assert.equal(policy.crawlDelay, 2);
+
+    assert.equal(parseRobotsTxt(text, 'SomeBot').isAllowed('https://example.com/pricing'), false);
+  });
+
+  it('reads sitemaps anywhere and ignores comments and rules outside a group', () => {
+    const policy = parseRobotsTxt(
+      ['Disallow: /ignored', 'Sitemap: https://example.com/sitemap.xml # main', 'User-agent: *', 'Disallow: /tmp # scratch'].join(
+        '\r\n'
+      )
+    );
+
+    assert.deepEqual(policy.sitemaps, ['https://example.com/sitemap.xml']);
+    assert.equal(policy.isAllowed('https://example.com/ignored'), true);
+    assert.equal(policy.isAllowed('https://example.com/tmp/file'), false);
+  });
+
+  it('allows everything when no group applies', () => {
+    const policy = parseRobotsTxt('User-agent: otherbot\nDisallow: /');
+    assert.equal(policy.isAllowed('https://example.com/'), true);
+    assert.equal(policy.crawlDelay, undefined);
+  });
+});
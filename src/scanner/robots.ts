@@ -0,0 +1,217 @@
+/**
+ * robots.txt support for the crawlers
+ *
+ * Implements the matching rules of RFC 9309: the group for the most specific matching
+ * user agent applies, the longest matching Allow/Disallow path wins and Allow wins ties.
+ * Crawl-delay and Sitemap lines are read as well.
+ */
+
+import { fetchWithSiteHeaders } from './auth';
+
+/**
+ * Product token the crawlers identify as in robots.txt when no user agent is configured
+ */
+export const DEFAULT_ROBOTS_USER_AGENT = 'Steelpush';
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+export interface RobotsPolicy {
+  /** Whether the URL may be crawled */
+  isAllowed(url: string): boolean;
+  /** Seconds to wait between requests, if the site asks for it */
+  crawlDelay?: number;
+  /** Sitemaps announced in robots.txt */
+  sitemaps: string[];
+}
+
+/**
+ * Policy used when robots.txt is ignored or does not exist
+ */
+export const ALLOW_ALL: RobotsPolicy = {
+  isAllowed: () => true,
+  sitemaps: [],
+};
+
+/**
+ * Parses robots.txt and selects the rules that apply to a user agent
+ *
+ * @param text Contents of robots.txt
+ * @param userAgent User agent (or product token) of the crawler
+ * @returns The policy for that user agent
+ */
+export function parseRobotsTxt(text: string, userAgent: string = DEFAULT_ROBOTS_USER_AGENT): RobotsPolicy {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator <= 0) {
+      continue;
+    }
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'sitemap') {
+      if (value) {
+        sitemaps.push(value);
+      }
+      continue;
+    }
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { userAgents: [], rules: [] };
+        groups.push(current);
+      }
+      current.userAgents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) {
+      continue;
+    }
+
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', pattern: value });
+    } else if (field === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (!isNaN(delay) && delay >= 0) {
+        current.crawlDelay = delay;
+      }
+    }
+  }
+
+  const applicable = selectGroups(groups, userAgent);
+  const rules = applicable.flatMap((group) => group.rules);
+  const crawlDelay = applicable.find((group) => group.crawlDelay !== undefined)?.crawlDelay;
+
+  return {
+    isAllowed: (url: string) => isPathAllowed(rules, toRobotsPath(url)),
+    crawlDelay,
+    sitemaps,
+  };
+}
+
+/**
+ * Fetches and parses the robots.txt of a site
+ *
+ * A missing robots.txt (4xx) allows everything. An unreachable one (5xx or network error)
+ * disallows everything, as RFC 9309 requires.
+ *
+ * @param siteUrl Any URL on the site
+ * @param userAgent User agent of the crawler
+ * @param headers Extra request headers, e.g. credentials for a staging site; sent to its origin only
+ * @returns The policy for that user agent
+ */
+export async function fetchRobotsTxt(
+  siteUrl: string,
+  userAgent: string = DEFAULT_ROBOTS_USER_AGENT,
+  headers: Record<string, string> = {}
+): Promise<RobotsPolicy> {
+  const robotsUrl = new URL('/robots.txt', siteUrl).href;
+
+  let response: Response;
+  try {
+    response = await fetchWithSiteHeaders(robotsUrl, new URL(siteUrl).origin, { ...headers, 'User-Agent': userAgent });
+  } catch (error: any) {
+    console.warn(`Could not fetch ${robotsUrl} (${error.message}); treating the site as disallowed`);
+    return { isAllowed: () => false, sitemaps: [] };
+  }
+
+  if (response.status >= 500) {
+    console.warn(`${robotsUrl} returned ${response.status}; treating the site as disallowed`);
+    return { isAllowed: () => false, sitemaps: [] };
+  }
+
+  if (!response.ok) {
+    return ALLOW_ALL;
+  }
+
+  return parseRobotsTxt(await response.text(), userAgent);
+}
+
+/**
+ * Picks the groups for the most specific user agent match, falling back to "*"
+ */
+function selectGroups(groups: RobotsGroup[], userAgent: string): RobotsGroup[] {
+  const agent = userAgent.toLowerCase();
+
+  let bestLength = 0;
+  let best: RobotsGroup[] = [];
+
+  for (const group of groups) {
+    for (const token of group.userAgents) {
+      if (token === '*' || !agent.includes(token)) {
+        continue;
+      }
+
+      if (token.length > bestLength) {
+        bestLength = token.length;
+        best = [group];
+      } else if (token.length === bestLength && !best.includes(group)) {
+        best.push(group);
+      }
+    }
+  }
+
+  return best.length > 0 ? best : groups.filter((group) => group.userAgents.includes('*'));
+}
+
+function isPathAllowed(rules: RobotsRule[], robotsPath: string): boolean {
+  let match: RobotsRule | null = null;
+
+  for (const rule of rules) {
+    if (!matchesPattern(rule.pattern, robotsPath)) {
+      continue;
+    }
+
+    if (
+      !match ||
+      rule.pattern.length > match.pattern.length ||
+      (rule.pattern.length === match.pattern.length && rule.allow)
+    ) {
+      match = rule;
+    }
+  }
+
+  return !match || match.allow;
+}
+
+/**
+ * Matches a robots.txt path pattern, supporting the "*" wildcard and "$" end anchor
+ */
+function matchesPattern(pattern: string, robotsPath: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const source = body
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(robotsPath);
+}
+
+function toRobotsPath(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.pathname}${parsed.search}`;
+  } catch {
+    return url;
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Element screenshots for analysis findings
+ *
+ * Each element the analysis reports gets a screenshot cropped to the element, and each
+ * page one full-page image with a numbered box drawn over every element, so a reviewer
+ * can see exactly what a finding is about. Files are named after the page and element
+ * numbers of the scan.
+ */
+
+import path from 'path';
+import type { Page } from 'playwright';
+
+export interface ElementScreenshots {
+  /** Screenshot cropped to the element; missing when it is not visible */
+  element?: string;
+  /** Full-page screenshot with every finding on the page boxed and numbered */
+  page: string;
+  /** Number of the element's box on the annotated page */
+  marker: number;
+}
+
+const ELEMENT_TIMEOUT = 5000;
+
+/**
+ * Captures element screenshots and the annotated page for a page's findings
+ *
+ * @param page Loaded page, with overlays dismissed
+ * @param selectors Selector of each element, in report order; they are numbered from 1
+ * @param directory Directory the screenshots are written to
+ * @param prefix Start of the file names, e.g. "page-3"
+ * @returns One entry per selector, in order; undefined for elements that are not on the page
+ */
+export async function captureElementScreenshots(
+  page: Page,
+  selectors: string[],
+  directory: string,
+  prefix: string
+): Promise<Array<ElementScreenshots | undefined>> {
+  const elementPaths: Array<string | undefined> = [];
+  for (const [index, selector] of selectors.entries()) {
+    const screenshotPath = path.join(directory, `${prefix}-element-${index + 1}.png`);
+    try {
+      await page.locator(selector).first().screenshot({ path: screenshotPath, timeout: ELEMENT_TIMEOUT });
+      elementPaths.push(screenshotPath);
+    } catch {
+      // Hidden, detached or matched by no element
+      elementPaths.push(undefined);
+    }
+  }
+
+  // Boxes are positioned in page coordinates, so they stay on their elements in a full-page capture
+  const drawn = await page.evaluate((selectors: string[]) => {
+    return selectors.map((selector, index) => {
+      let element: Element | null = null;
+      try {
+        element = document.querySelector(selector);
+      } catch {
+        // Selectors from the model are not always valid CSS
+      }
+      const box = element?.getBoundingClientRect();
+      if (!box || box.width === 0 || box.height === 0) {
+        return false;
+      }
+
+      const frame = document.createElement('div');
+      frame.setAttribute('data-steelpush-annotation', '');
+      frame.style.cssText =
+        `position:absolute;z-index:2147483647;pointer-events:none;box-sizing:border-box;` +
+        `left:${box.left + window.scrollX - 4}px;top:${box.top + window.scrollY - 4}px;` +
+        `width:${box.width + 8}px;height:${box.height + 8}px;border:3px solid #e11d48;border-radius:4px;`;
+
+      const label = document.createElement('span');
+      label.textContent = String(index + 1);
+      label.style.cssText =
+        'position:absolute;left:-3px;top:-26px;min-width:22px;padding:2px 6px;background:#e11d48;color:#fff;' +
+        'font:bold 14px/18px sans-serif;text-align:center;border-radius:4px;';
+      frame.appendChild(label);
+      document.body.appendChild(frame);
+      return true;
+    });
+  }, selectors);
+
+  const pagePath = path.join(directory, `${prefix}-annotated.png`);
+  try {
+    await page.screenshot({ path: pagePath, fullPage: true });
+  } finally {
+    await page.evaluate(() => {
+      document.querySelectorAll('[data-steelpush-annotation]').forEach((element) => element.remove());
+    });
+  }
+
+  return selectors.map((_, index) =>
+    drawn[index] || elementPaths[index]
+      ? { ...(elementPaths[index] && { element: elementPaths[index] }), page: pagePath, marker: index + 1 }
+      : undefined
+  );
+}
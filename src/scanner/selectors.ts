@@ -0,0 +1,214 @@
+/**
+ * Stable CSS selectors for elements found on crawled pages
+ *
+ * Selectors are generated in the page, from the most to the least robust: test ids, then
+ * ids that do not look generated, then the element's role and accessible name (aria-label,
+ * name, alt, title, placeholder, link target), each scoped under the nearest landmark or
+ * anchored ancestor when that makes them unique, and finally an nth-of-type path. Every
+ * selector is checked to match exactly one node on the live page. Selectors reported by the
+ * model are verified the same way, and the element is found by its text when they fail.
+ */
+
+import type { Page } from 'playwright';
+
+declare global {
+  interface Window {
+    steelpushSelector?: (element: Element) => string;
+  }
+}
+
+export type SelectorStatus = 'verified' | 'repaired' | 'unresolved';
+
+export interface SelectorResolution {
+  /** Stable selector of the element, or the original selector when it was not found */
+  selector: string;
+  /**
+   * "verified" when the given selector matched the element, "repaired" when the element
+   * was found by its text instead, "unresolved" when it was not found at all
+   */
+  status: SelectorStatus;
+}
+
+/**
+ * Elements that text is looked up in when repairing a selector
+ */
+const TEXT_CANDIDATES =
+  'h1, h2, h3, h4, h5, h6, p, a, button, [role="button"], label, li, span, blockquote, figcaption, td, th, input, textarea';
+
+/**
+ * Makes window.steelpushSelector available on the page
+ *
+ * Call it after each navigation, before evaluating code that generates selectors.
+ */
+export async function installSelectorEngine(page: Page): Promise<void> {
+  await page.evaluate(`window.steelpushSelector = ${stableSelector.toString()}`);
+}
+
+/**
+ * Verifies selectors against the live page and repairs those that do not resolve
+ *
+ * A selector resolves when it matches exactly one node, or when only one of the nodes it
+ * matches holds the expected text. Anything else is looked up by its text: the innermost
+ * element whose text equals it, or failing that contains it.
+ *
+ * @param page Loaded page
+ * @param targets Selector and text of each element, as reported by the model
+ * @returns One resolution per target, in order
+ */
+export async function resolveSelectors(
+  page: Page,
+  targets: Array<{ selector: string; content: string }>
+): Promise<SelectorResolution[]> {
+  await installSelectorEngine(page);
+
+  return page.evaluate(
+    ({ targets, candidates }) => {
+      const all = Array.from(document.querySelectorAll(candidates));
+      const matched = targets.map((target) => {
+        try {
+          return Array.from(document.querySelectorAll(target.selector));
+        } catch {
+          // Selectors from the model are not always valid CSS
+          return [];
+        }
+      });
+
+      const texts = new Map<Element, string>();
+      for (const element of [...all, ...matched.flat()]) {
+        if (!texts.has(element)) {
+          const text = (element as HTMLElement).innerText || (element as HTMLInputElement).value || element.textContent || '';
+          texts.set(element, text.replace(/\s+/g, ' ').trim().toLowerCase());
+        }
+      }
+
+      return targets.map((target, index) => {
+        const wanted = target.content.replace(/\s+/g, ' ').trim().toLowerCase();
+        const matches = matched[index];
+
+        const byText = matches.length > 1 ? matches.filter((element) => texts.get(element)!.includes(wanted)) : matches;
+        if (byText.length === 1) {
+          return { selector: window.steelpushSelector!(byText[0]), status: 'verified' as const };
+        }
+
+        if (wanted.length >= 2) {
+          const equal = all.filter((element) => texts.get(element) === wanted);
+          const containing = equal.length > 0 ? equal : all.filter((element) => texts.get(element)!.includes(wanted));
+          // The innermost match is the element itself rather than a section around it
+          const innermost = containing.filter(
+            (element) => !containing.some((other) => other !== element && element.contains(other))
+          );
+          if (innermost.length > 0) {
+            return { selector: window.steelpushSelector!(innermost[0]), status: 'repaired' as const };
+          }
+        }
+
+        return { selector: target.selector, status: 'unresolved' as const };
+      });
+    },
+    { targets, candidates: TEXT_CANDIDATES }
+  );
+}
+
+/**
+ * Runs in the page (installed by installSelectorEngine): the most robust selector that
+ * matches only this element
+ *
+ * Written without named inner functions, since its source is injected as-is.
+ */
+function stableSelector(element: Element): string {
+  const tag = element.tagName.toLowerCase();
+  const testAttributes = ['data-testid', 'data-test-id', 'data-test', 'data-cy', 'data-qa'];
+  // Ids from frameworks and CMSs (":r1:", "ember123", uuids) change between builds
+  const generatedId = /^[:_-]|:|\d{3,}|^[a-f0-9]{8,}(-[a-f0-9]{4,})*$/i;
+
+  const role = element.getAttribute('role');
+  const type = tag === 'input' || tag === 'button' ? element.getAttribute('type') : null;
+  const href = tag === 'a' ? element.getAttribute('href') : null;
+
+  // Most robust first. Attribute values are quoted as JSON strings, which CSS reads the same
+  // way for anything but control characters; a selector that does not match is skipped.
+  const own: string[] = [];
+  for (const attribute of testAttributes) {
+    const value = element.getAttribute(attribute);
+    if (value) {
+      own.push(`[${attribute}=${JSON.stringify(value)}]`);
+    }
+  }
+  if (element.id && !generatedId.test(element.id)) {
+    own.push(`#${CSS.escape(element.id)}`);
+  }
+  const named: Array<[string, string, string | null]> = [
+    [role ? `[role=${JSON.stringify(role)}]` : tag, 'aria-label', element.getAttribute('aria-label')],
+    [tag, 'name', element.getAttribute('name')],
+    [tag, 'alt', element.getAttribute('alt')],
+    [tag, 'title', element.getAttribute('title')],
+    [tag, 'placeholder', element.getAttribute('placeholder')],
+    [tag, 'href', href && !href.startsWith('javascript:') ? href : null],
+    [tag, 'role', role],
+    [tag, 'type', type],
+  ];
+  for (const [prefix, attribute, value] of named) {
+    if (value) {
+      own.push(`${prefix}[${attribute}=${JSON.stringify(value)}]`);
+    }
+  }
+
+  for (const candidate of own) {
+    if (document.querySelectorAll(candidate).length === 1) {
+      return candidate;
+    }
+  }
+
+  // Scope under the nearest ancestor that can be selected on its own
+  let anchor = '';
+  let anchorElement: Element | null = null;
+  for (let node = element.parentElement; node && node !== document.body && !anchor; node = node.parentElement) {
+    const nodeTag = node.tagName.toLowerCase();
+    const options: string[] = [];
+    for (const attribute of [...testAttributes, 'aria-label']) {
+      const value = node.getAttribute(attribute);
+      if (value) {
+        options.push(`${attribute === 'aria-label' ? nodeTag : ''}[${attribute}=${JSON.stringify(value)}]`);
+      }
+    }
+    if (node.id && !generatedId.test(node.id)) {
+      options.push(`#${CSS.escape(node.id)}`);
+    }
+    if (['header', 'nav', 'main', 'footer', 'aside', 'form'].includes(nodeTag)) {
+      options.push(nodeTag);
+    }
+
+    for (const option of options) {
+      if (document.querySelectorAll(option).length === 1) {
+        anchor = option;
+        anchorElement = node;
+        break;
+      }
+    }
+  }
+
+  if (anchor) {
+    for (const candidate of [...own, tag]) {
+      const scoped = `${anchor} ${candidate}`;
+      if (document.querySelectorAll(scoped).length === 1) {
+        return scoped;
+      }
+    }
+  }
+
+  // nth-of-type path from the anchor, or from the body
+  const root = anchorElement || document.body;
+  let path = '';
+  for (let node: Element | null = element; node && node !== root; node = node.parentElement) {
+    const nodeTag = node.tagName;
+    const siblings = node.parentElement
+      ? Array.from(node.parentElement.children).filter((child) => child.tagName === nodeTag)
+      : [];
+    const part = siblings.length > 1
+      ? `${nodeTag.toLowerCase()}:nth-of-type(${siblings.indexOf(node) + 1})`
+      : nodeTag.toLowerCase();
+    path = path ? `${part} > ${path}` : part;
+  }
+
+  return `${anchor || 'body'} > ${path}`;
+}
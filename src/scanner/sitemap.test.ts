@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { after, before, describe, it } from 'node:test';
+import { fetchSitemapEntries, parseSitemap, prioritizeSitemapEntries } from './sitemap';
+
+describe('parseSitemap', () => {
+  it('reads the URLs of a urlset with their priority and last modification', () => {
+    const { entries, sitemaps } = parseSitemap(`<?xml version="1.0" encoding="UTF-8"?>
+      <urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <url><loc>https://example.com/</loc><priority>1.0</priority><lastmod>2024-05-01</lastmod></url>
+        <url><loc><![CDATA[https://example.com/search?q=a&amp;b]]></loc></url>
+        <url><loc>https://example.com/a?x=1&amp;y=2</loc><priority>7</priority></url>
+        <url><priority>0.9</priority></url>
+      </urlset>`);
+
+    assert.deepEqual(sitemaps, []);
+    assert.deepEqual(entries, [
+      { url: 'https://example.com/', priority: 1, lastModified: Date.parse('2024-05-01') },
+      { url: 'https://example.com/search?q=a&amp;b', priority: 0.5 },
+      { url: 'https://example.com/a?x=1&y=2', priority: 1 },
+    ]);
+  });
+
+  it('lists the child sitemaps of an index file', () => {
+    const { entries, sitemaps } = parseSitemap(`
+      <sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+        <sitemap><loc>https://example.com/pages.xml</loc></sitemap>
+        <sitemap><loc> https://example.com/posts.xml.gz </loc></sitemap>
+      </sitemapindex>`);
+
+    assert.deepEqual(entries, []);
+    assert.deepEqual(sitemaps, ['https://example.com/pages.xml', 'https://example.com/posts.xml.gz']);
+  });
+});
+
+describe('prioritizeSitemapEntries', () => {
+  it('orders by priority, then by most recent modification', () => {
+    const ordered = prioritizeSitemapEntries([
+      { url: 'https://example.com/old', priority: 0.5, lastModified: 1 },
+      { url: 'https://example.com/undated', priority: 0.5 },
+      { url: 'https://example.com/home', priority: 1 },
+      { url: 'https://example.com/new', priority: 0.5, lastModified: 2 },
+    ]);
+
+    assert.deepEqual(
+      ordered.map((entry) => entry.url),
+      ['https://example.com/home', 'https://example.com/new', 'https://example.com/old', 'https://example.com/undated']
+    );
+  });
+});
+
+describe('fetchSitemapEntries', () => {
+  const requests: Array<{ server: string; path: string; token?: string }> = [];
+  const servers: Record<string, http.Server> = {};
+  const origins: Record<string, string> = {};
+
+  const listen = (name: string, routes: (url: string) => Record<string, string | { redirect: string }>) => {
+    servers[name] = http.createServer((request, response) => {
+      requests.push({ server: name, path: request.url!, token: request.headers['x-token'] as string | undefined });
+      const route = routes(origins[name])[request.url!];
+      if (typeof route === 'object') {
+        response.writeHead(302, { location: route.redirect }).end();
+      } else {
+        response.writeHead(route ? 200 : 404).end(route);
+      }
+    });
+    return new Promise<void>((resolve) =>
+      servers[name].listen(0, '127.0.0.1', () => {
+        origins[name] = `http://127.0.0.1:${(servers[name].address() as AddressInfo).port}`;
+        resolve();
+      })
+    );
+  };
+
+  before(async () => {
+    await listen('site', (site) => ({
+      '/sitemap.xml': `<sitemapindex><sitemap><loc>${site}/pages.xml</loc></sitemap><sitemap><loc>${origins.cdn}/posts.xml</loc></sitemap><sitemap><loc>${site}/moved.xml</loc></sitemap></sitemapindex>`,
+      '/pages.xml': `<urlset><url><loc>${site}/pricing</loc></url></urlset>`,
+      '/moved.xml': { redirect: `${origins.cdn}/moved.xml` },
+    }));
+    await listen('cdn', () => ({
+      '/posts.xml': '<urlset></urlset>',
+      '/moved.xml': '<urlset></urlset>',
+    }));
+  });
+  after(() => Object.values(servers).forEach((server) => server.close()));
+
+  it('sends the extra headers to the site only, not to sitemaps or redirects on other hosts', async () => {
+    const entries = await fetchSitemapEntries(`${origins.site}/`, [], { headers: { 'X-Token': 'secret' } });
+
+    assert.deepEqual(
+      entries.map((entry) => entry.url),
+      [`${origins.site}/pricing`]
+    );
+    assert.deepEqual(
+      requests.map(({ server, path, token }) => [server, path, token]),
+      [
+        ['site', '/sitemap.xml', 'secret'],
+        ['site', '/pages.xml', 'secret'],
+        ['cdn', '/posts.xml', undefined],
+        ['site', '/moved.xml', 'secret'],
+        ['cdn', '/moved.xml', undefined],
+      ]
+    );
+  });
+});
@@ -0,0 +1,117 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { decodeEntities, expressionLiterals, extractJsxStrings, extractScriptStrings } from './source-extractor';
+
+const HERO = `export function Hero({ name }) {
+  return (
+    <section>
+      <h1 className="title">Grow  your
+        revenue &amp; more</h1>
+      <p>{\`Welcome back, \${name}\`}</p>
+      <Button aria-label="Fish &amp; chips" title={'R&amp;D'}>{open ? 'Yes' : "No"}</Button>
+      <code>npm install</code>
+      <span>{42} · ✓</span>
+    </section>
+  );
+}
+`;
+
+describe('extractJsxStrings', () => {
+  const strings = extractJsxStrings('Hero.tsx', HERO)!;
+  const byText = (text: string) => strings.find((string) => string.text === text);
+
+  it('returns null for modules without JSX', () => {
+    assert.equal(extractJsxStrings('util.ts', 'export const greeting = "Hello";'), null);
+    assert.equal(extractJsxStrings('styles.css', '.a { color: red }'), null);
+  });
+
+  it('collapses whitespace in JSX text and records where it starts', () => {
+    const heading = byText('Grow your revenue & more');
+    assert.ok(heading);
+    assert.equal(heading.kind, 'text');
+    assert.equal(heading.element, 'h1');
+    assert.equal(heading.component, 'Hero');
+    assert.deepEqual([heading.line, heading.column], [4, 29]);
+    assert.equal(HERO.slice(heading.start, heading.end), 'Grow  your\n        revenue &amp; more');
+  });
+
+  it('extracts template literals with their substitutions as placeholders', () => {
+    const welcome = byText('Welcome back, {name}');
+    assert.ok(welcome);
+    assert.equal(welcome.kind, 'expression');
+    assert.equal(welcome.template, true);
+  });
+
+  it('decodes entities in plain attribute strings but not in JavaScript strings', () => {
+    assert.equal(byText('Fish & chips')?.prop, 'aria-label');
+    assert.equal(byText('R&amp;D')?.prop, 'title');
+  });
+
+  it('extracts every literal of a conditional expression', () => {
+    assert.deepEqual(
+      strings.filter((string) => string.element === 'Button' && string.kind === 'expression').map((string) => string.text),
+      ['Yes', 'No']
+    );
+  });
+
+  it('skips code elements and strings without letters', () => {
+    assert.equal(byText('npm install'), undefined);
+    assert.equal(
+      strings.some((string) => string.element === 'span'),
+      false
+    );
+  });
+});
+
+describe('extractScriptStrings', () => {
+  it('extracts the copy in constants, objects and arrays of plain modules', () => {
+    const source = [
+      "import { theme } from './theme';",
+      "export const HERO_TITLE = 'Ship faster';",
+      "export const plans = [{ name: 'Team plan', variant: 'primary', cta: open ? 'Start &amp; save' : `Talk to ${sales}` }];",
+      "track('signup-clicked');",
+    ].join('\n');
+
+    assert.deepEqual(
+      extractScriptStrings('copy.ts', source)!.map((string) => [string.text, string.kind, string.line]),
+      [
+        ['Ship faster', 'expression', 2],
+        ['Team plan', 'expression', 3],
+        ['Start &amp; save', 'expression', 3],
+        ['Talk to {sales}', 'expression', 3],
+      ]
+    );
+  });
+
+  it('returns null for other file types', () => {
+    assert.equal(extractScriptStrings('Hero.vue', '<template><p>Hi</p></template>'), null);
+  });
+});
+
+describe('decodeEntities', () => {
+  it('decodes named, decimal and hexadecimal references, &nbsp; as a plain space', () => {
+    assert.equal(decodeEntities('Tom &amp; Jerry&nbsp;&#8212;&#x1F600;'), 'Tom & Jerry —😀');
+  });
+
+  it('keeps unknown names and code points beyond Unicode as written', () => {
+    assert.equal(decodeEntities('&bogus; &#x110000; &#1114112;'), '&bogus; &#x110000; &#1114112;');
+  });
+});
+
+describe('expressionLiterals', () => {
+  it('finds the literals of an expression with their offsets', () => {
+    const code = ` ok ? 'Yes' : \`No \${count}\` `;
+    const literals = expressionLiterals(code);
+    assert.deepEqual(
+      literals.map((literal) => [literal.text, code.slice(literal.start, literal.end), literal.template ?? false]),
+      [
+        ['Yes', 'Yes', false],
+        ['No {count}', 'No ${count}', true],
+      ]
+    );
+  });
+
+  it('returns nothing for code that is not one expression', () => {
+    assert.deepEqual(expressionLiterals('#if open'), []);
+  });
+});
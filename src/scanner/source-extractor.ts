@@ -0,0 +1,356 @@
+/**
+ * Deterministic copy extraction from source files
+ *
+ * JSX and TSX files are parsed with the TypeScript compiler rather than read by a model,
+ * so every string comes with its exact position: JSX text children, string and template
+ * literals rendered as children, and string values of user-facing props (title,
+ * placeholder, aria-label, alt, label). The model only classifies what was found.
+ * Plain script modules are read for the literal values of their constants and objects.
+ */
+
+import path from 'path';
+import ts from 'typescript';
+
+export interface ExtractedString {
+  /** The text as rendered: whitespace collapsed, entities decoded, `{expr}` for substitutions */
+  text: string;
+  file: string;
+  /** 1-based line and column of the first character of the text */
+  line: number;
+  column: number;
+  /** Source offsets of the text, without quotes or surrounding whitespace */
+  start: number;
+  end: number;
+  /**
+   * "text" for JSX text, "expression" for a literal rendered as a child, "prop" for a prop
+   * value, "translation" for a value in a locale file
+   */
+  kind: 'text' | 'expression' | 'prop' | 'translation';
+  /** Prop the string is the value of */
+  prop?: string;
+  /** The string is a template literal with substitutions */
+  template?: boolean;
+  /** Component (or function) the string is in */
+  component?: string;
+  /** Tag of the element the string belongs to, e.g. "button" or "Hero.Title" */
+  element?: string;
+  /** Translation key, for values in locale files */
+  key?: string;
+  /** Slot of the element the text is passed into, for component markup ("default" or a named slot) */
+  slot?: string;
+}
+
+/**
+ * Props whose string values visitors read
+ */
+export const USER_FACING_PROPS = ['title', 'placeholder', 'aria-label', 'alt', 'label'];
+
+const SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  '.tsx': ts.ScriptKind.TSX,
+  '.jsx': ts.ScriptKind.JSX,
+  '.js': ts.ScriptKind.JSX,
+  '.mjs': ts.ScriptKind.JSX,
+  '.cjs': ts.ScriptKind.JSX,
+};
+
+const PLAIN_SCRIPT_KINDS: Record<string, ts.ScriptKind> = {
+  ...SCRIPT_KINDS,
+  '.ts': ts.ScriptKind.TS,
+  '.mts': ts.ScriptKind.TS,
+  '.cts': ts.ScriptKind.TS,
+};
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  mdash: '—',
+  ndash: '–',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  larr: '←',
+  rarr: '→',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  euro: '€',
+};
+
+/**
+ * Whether extractJsxStrings can read a file, judging by its extension
+ */
+export function isJsxSource(file: string): boolean {
+  return path.extname(file).toLowerCase() in SCRIPT_KINDS;
+}
+
+/**
+ * Extracts the user-facing strings of a JSX or TSX module
+ *
+ * @param file Path of the file, reported on each string; its extension picks the parser
+ * @param source Contents of the file
+ * @returns The strings in source order, or null when the file contains no JSX (plain
+ *   scripts and unsupported file types are left to other extractors)
+ */
+export function extractJsxStrings(file: string, source: string): ExtractedString[] | null {
+  const scriptKind = SCRIPT_KINDS[path.extname(file).toLowerCase()];
+  if (scriptKind === undefined) {
+    return null;
+  }
+
+  const sourceFile = ts.createSourceFile(file, source, ts.ScriptTarget.Latest, true, scriptKind);
+  const strings: ExtractedString[] = [];
+  let hasJsx = false;
+
+  const add = (
+    node: ts.Node,
+    text: string,
+    start: number,
+    end: number,
+    details: Pick<ExtractedString, 'kind' | 'prop' | 'template' | 'element'>,
+    markup = false
+  ) => {
+    // Only JSX text and plain attribute strings are markup; `&amp;` in a JS string renders as is
+    const normalized = (markup ? decodeEntities(text) : text).replace(/\s+/g, ' ').trim();
+    // Punctuation, numbers and icons are not copy
+    if (!/\p{L}/u.test(normalized)) {
+      return;
+    }
+
+    const position = sourceFile.getLineAndCharacterOfPosition(start);
+    strings.push({
+      text: normalized,
+      file,
+      line: position.line + 1,
+      column: position.character + 1,
+      start,
+      end,
+      ...details,
+      component: componentName(node),
+    });
+  };
+
+  const addLiterals = (
+    expression: ts.Expression,
+    details: Pick<ExtractedString, 'kind' | 'prop' | 'element'>,
+    markup = false
+  ): void => {
+    for (const literal of collectLiterals(expression)) {
+      add(
+        literal.node,
+        literal.text,
+        literal.start,
+        literal.end,
+        { ...details, ...(literal.template && { template: true }) },
+        markup
+      );
+    }
+  };
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node)) {
+      hasJsx = true;
+    }
+
+    if (ts.isJsxElement(node)) {
+      const element = node.openingElement.tagName.getText();
+      // Inline code is not copy
+      if (['script', 'style', 'code', 'pre'].includes(element)) {
+        ts.forEachChild(node.openingElement, visit);
+        return;
+      }
+
+      for (const child of node.children) {
+        if (ts.isJsxText(child) && !child.containsOnlyTriviaWhiteSpaces) {
+          const raw = child.getFullText();
+          const leading = raw.length - raw.trimStart().length;
+          const start = child.getFullStart() + leading;
+          add(child, raw, start, start + raw.trim().length, { kind: 'text', element }, true);
+        } else if (ts.isJsxExpression(child) && child.expression) {
+          addLiterals(child.expression, { kind: 'expression', element });
+        }
+      }
+    }
+
+    if (ts.isJsxAttribute(node) && node.initializer) {
+      const prop = node.name.getText();
+      if (USER_FACING_PROPS.includes(prop)) {
+        const element = (node.parent.parent as ts.JsxOpeningLikeElement).tagName.getText();
+        const value = ts.isJsxExpression(node.initializer) ? node.initializer.expression : node.initializer;
+        if (value && !ts.isJsxElement(value) && !ts.isJsxSelfClosingElement(value) && !ts.isJsxFragment(value)) {
+          addLiterals(value, { kind: 'prop', prop, element }, ts.isStringLiteral(node.initializer));
+        }
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return hasJsx ? strings.sort((a, b) => a.start - b.start) : null;
+}
+
+/**
+ * Extracts the strings of a script module without JSX, such as constants and config
+ * objects whose copy is rendered elsewhere: literal values of variables, object
+ * properties and array elements
+ *
+ * @param file Path of the file, reported on each string; its extension picks the parser
+ * @param source Contents of the file
+ * @returns The strings in source order, or null for unsupported file types
+ */
+export function extractScriptStrings(file: string, source: string): ExtractedString[] | null {
+  const scriptKind = PLAIN_SCRIPT_KINDS[path.extname(file).toLowerCase()];
+  if (scriptKind === undefined) {
+    return null;
+  }
+
+  const sourceFile = ts.createSourceFile(file, source, ts.ScriptTarget.Latest, true, scriptKind);
+  const strings: ExtractedString[] = [];
+
+  const addLiterals = (expression: ts.Expression): void => {
+    for (const literal of collectLiterals(expression)) {
+      const text = literal.text.replace(/\s+/g, ' ').trim();
+      // Lowercase single words are identifiers, variants and paths rather than copy
+      if (!/\p{L}/u.test(text) || /^[^\s\p{Lu}]+$/u.test(text)) {
+        continue;
+      }
+
+      const position = sourceFile.getLineAndCharacterOfPosition(literal.start);
+      strings.push({
+        text,
+        file,
+        line: position.line + 1,
+        column: position.character + 1,
+        start: literal.start,
+        end: literal.end,
+        kind: 'expression',
+        ...(literal.template && { template: true }),
+        component: componentName(literal.node),
+      });
+    }
+  };
+
+  const visit = (node: ts.Node): void => {
+    if ((ts.isVariableDeclaration(node) || ts.isPropertyAssignment(node)) && node.initializer) {
+      addLiterals(node.initializer);
+    } else if (ts.isArrayLiteralExpression(node)) {
+      node.elements.forEach(addLiterals);
+    }
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return strings.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Finds the string literals in a template expression, such as a Vue `{{ }}` or Svelte `{}`
+ *
+ * @param code Source of the expression
+ * @returns Each literal's text and its offsets within the code, without quotes
+ */
+export function expressionLiterals(
+  code: string
+): Array<{ text: string; start: number; end: number; template?: boolean }> {
+  // Parenthesized so object literals and sequences parse as one expression
+  const sourceFile = ts.createSourceFile('expression.ts', `(${code}\n)`, ts.ScriptTarget.Latest, true);
+  const statement = sourceFile.statements[0];
+  if (sourceFile.statements.length !== 1 || !statement || !ts.isExpressionStatement(statement)) {
+    return [];
+  }
+
+  return collectLiterals(statement.expression).map(({ node, ...literal }) => ({
+    ...literal,
+    start: literal.start - 1,
+    end: literal.end - 1,
+  }));
+}
+
+/**
+ * String and template literals an expression can evaluate to, e.g. both sides of `a ? "x" : "y"`
+ */
+function collectLiterals(
+  expression: ts.Expression
+): Array<{ node: ts.Node; text: string; start: number; end: number; template?: boolean }> {
+  if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression)) {
+    return [{ node: expression, text: expression.text, start: expression.getStart() + 1, end: expression.getEnd() - 1 }];
+  }
+  if (ts.isTemplateExpression(expression)) {
+    const text =
+      expression.head.text +
+      expression.templateSpans.map((span) => `{${span.expression.getText()}}${span.literal.text}`).join('');
+    return [{ node: expression, text, start: expression.getStart() + 1, end: expression.getEnd() - 1, template: true }];
+  }
+  if (ts.isParenthesizedExpression(expression)) {
+    return collectLiterals(expression.expression);
+  }
+  if (ts.isConditionalExpression(expression)) {
+    return [...collectLiterals(expression.whenTrue), ...collectLiterals(expression.whenFalse)];
+  }
+  if (ts.isBinaryExpression(expression)) {
+    switch (expression.operatorToken.kind) {
+      case ts.SyntaxKind.BarBarToken:
+      case ts.SyntaxKind.QuestionQuestionToken:
+        return [...collectLiterals(expression.left), ...collectLiterals(expression.right)];
+      case ts.SyntaxKind.AmpersandAmpersandToken:
+        return collectLiterals(expression.right);
+    }
+  }
+
+  return [];
+}
+
+/**
+ * The component a node is in: the nearest enclosing function, variable or class whose
+ * name is capitalized, or else the nearest named one
+ */
+function componentName(node: ts.Node): string | undefined {
+  let nearest: string | undefined;
+  for (let current: ts.Node | undefined = node.parent; current; current = current.parent) {
+    let name: string | undefined;
+    if (
+      (ts.isFunctionDeclaration(current) || ts.isClassDeclaration(current) || ts.isMethodDeclaration(current)) &&
+      current.name
+    ) {
+      name = current.name.getText();
+    } else if (
+      ts.isVariableDeclaration(current) &&
+      ts.isIdentifier(current.name) &&
+      current.initializer &&
+      // Components wrapped in memo() or forwardRef() are call expressions
+      (ts.isArrowFunction(current.initializer) ||
+        ts.isFunctionExpression(current.initializer) ||
+        ts.isCallExpression(current.initializer))
+    ) {
+      name = current.name.text;
+    }
+
+    if (name && /^[A-Z]/.test(name)) {
+      return name;
+    }
+    nearest = nearest || name;
+  }
+
+  return nearest;
+}
+
+/**
+ * Decodes the HTML entities in markup text, e.g. "&amp;" and "&#8217;"
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith('#')) {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isNaN(point) || point > 0x10ffff ? entity : String.fromCodePoint(point);
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { after, describe, it } from 'node:test';
+import { buildSourceIndex, IndexedString, normalizeCopy, placeholdersOf, SourceIndex } from './source-index';
+
+function string(text: string, fields: Partial<IndexedString> = {}): IndexedString {
+  return { text, file: 'src/Hero.tsx', line: 1, column: 1, start: 0, end: text.length, kind: 'text', ...fields };
+}
+
+describe('placeholdersOf', () => {
+  it('finds the placeholders of the common interpolation syntaxes', () => {
+    assert.deepEqual(placeholdersOf('Hi {{name}}, {count} %{total} ${price} %s %1$d %(user)s'), [
+      '{{name}}',
+      '{count}',
+      '%{total}',
+      '${price}',
+      '%s',
+      '%1$d',
+      '%(user)s',
+    ]);
+  });
+});
+
+describe('normalizeCopy', () => {
+  it('ignores case, whitespace, typography and punctuation at the ends', () => {
+    assert.equal(normalizeCopy('  “Start   your FREE trial” — now…! '), 'start your free trial" - now');
+    assert.equal(normalizeCopy('Tom\u00a0&\u00a0Jerry'), 'tom & jerry');
+  });
+
+  it('leaves entities as written, since extracted strings and page text are decoded', () => {
+    assert.equal(normalizeCopy('R&amp;D'), 'r&amp;d');
+  });
+});
+
+describe('SourceIndex', () => {
+  const index = new SourceIndex([
+    string('Start your free trial', { start: 10 }),
+    string('Welcome back, {name}!', { start: 40, template: true }),
+    string('Ship faster with fewer bugs', { file: 'locales/en.json', kind: 'translation', key: 'hero.title', locale: 'en' }),
+    string('Schneller liefern mit weniger Fehlern', {
+      file: 'locales/de.json',
+      kind: 'translation',
+      key: 'hero.title',
+      locale: 'de',
+    }),
+    string('Learn more', { file: 'src/A.tsx' }),
+    string('Learn more', { file: 'src/B.tsx' }),
+    string('{count}'),
+    string('42 · ✓'),
+  ]);
+
+  it('skips strings without letters', () => {
+    assert.equal(index.size, 6);
+  });
+
+  it('matches normalized text exactly', () => {
+    const [match] = index.lookup('START YOUR FREE TRIAL!');
+    assert.equal(match.match, 'exact');
+    assert.equal(match.confidence, 1);
+    assert.equal(match.entry.start, 10);
+  });
+
+  it('matches strings with placeholders as patterns', () => {
+    const [match] = index.lookup('Welcome back, Ada!');
+    assert.equal(match.match, 'pattern');
+    assert.ok(match.confidence >= 0.7 && match.confidence < 1);
+  });
+
+  it('accepts text that makes up most of a string', () => {
+    const [match] = index.lookup('Start your free trial today');
+    assert.equal(match.match, 'contained');
+    assert.equal(match.entry.start, 10);
+  });
+
+  it('falls back to similarity for small differences', () => {
+    const [match] = index.lookup('Start you free trial');
+    assert.equal(match.match, 'fuzzy');
+    assert.ok(match.confidence > 0.8);
+  });
+
+  it('reports each translation key once, and each place a text appears', () => {
+    const title = index.lookup('Ship faster with fewer bugs');
+    assert.equal(title.length, 1);
+    assert.equal(title[0].entry.locale, 'en');
+
+    assert.deepEqual(
+      index.lookup('Learn more').map((match) => match.entry.file),
+      ['src/A.tsx', 'src/B.tsx']
+    );
+  });
+
+  it('drops matches below the minimum confidence', () => {
+    assert.deepEqual(index.lookup('Pricing for teams'), []);
+    assert.deepEqual(index.lookup('Start you free trial', { minConfidence: 0.99 }), []);
+  });
+});
+
+describe('buildSourceIndex', () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'steelpush-index-'));
+  after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  it('indexes components, script modules and translation files and reports the files it could not parse', async () => {
+    fs.mkdirSync(path.join(directory, 'locales'));
+    fs.mkdirSync(path.join(directory, 'node_modules', 'lib'), { recursive: true });
+    fs.writeFileSync(path.join(directory, 'Hero.tsx'), 'export const Hero = () => <h1>Ship faster</h1>;\n');
+    fs.writeFileSync(path.join(directory, 'Nav.vue'), '<template><a href="/">Pricing plans</a></template>\n');
+    fs.writeFileSync(path.join(directory, 'copy.ts'), "export const FOOTER = { note: 'Made in Berlin' };\n");
+    fs.writeFileSync(path.join(directory, 'Escaped.jsx'), 'export const E = () => <p>Write &amp;amp; for &amp;</p>;\n');
+    fs.writeFileSync(path.join(directory, 'locales', 'en.json'), '{ "cta": "Start free" }\n');
+    fs.writeFileSync(path.join(directory, 'locales', 'de.json'), '{ "cta": ');
+    fs.writeFileSync(path.join(directory, 'node_modules', 'lib', 'Button.jsx'), 'export const B = () => <b>Ignored</b>;\n');
+
+    const { index, indexedFiles, failedFiles } = await buildSourceIndex(directory);
+
+    assert.equal(index.size, 5);
+    assert.deepEqual(indexedFiles.map((file) => path.relative(directory, file)).sort(), [
+      'Escaped.jsx',
+      'Hero.tsx',
+      'Nav.vue',
+      'copy.ts',
+      path.join('locales', 'en.json'),
+    ]);
+    assert.deepEqual(
+      failedFiles.map((failure) => path.relative(directory, failure.file)),
+      [path.join('locales', 'de.json')]
+    );
+    assert.match(failedFiles[0].error, /invalid JSON/);
+    assert.equal(index.lookup('Start free')[0].entry.key, 'cta');
+    assert.equal(index.lookup('Made in Berlin')[0].entry.file, path.join(directory, 'copy.ts'));
+    assert.equal(index.lookup('Write &amp; for &')[0].match, 'exact');
+    assert.deepEqual(index.lookup('Ignored'), []);
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * Full-text index of a codebase's copy
+ *
+ * Strings found by the source extractors and the values of translation files are indexed
+ * by their normalized text, so text seen on a live page can be traced back to the file,
+ * line and translation key that renders it without a model. Lookups match normalized text
+ * exactly, match strings with interpolation placeholders (`{name}`, `{{name}}`, `%{name}`,
+ * `%s`, template literal substitutions) as patterns, accept text that makes up most of a
+ * string or the other way around, and fall back to character-bigram similarity for small
+ * differences. Every match has a confidence from 0 to 1.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { glob } from 'glob';
+import { isTranslationFile, parseTranslationFile } from './locale-parser';
+import { extractMarkupStrings } from './markup-extractor';
+import { extractJsxStrings, ExtractedString, extractScriptStrings } from './source-extractor';
+
+export interface IndexedString extends ExtractedString {
+  /** Locale of a translation value */
+  locale?: string;
+}
+
+export interface SourceMatch {
+  entry: IndexedString;
+  /** 1 for identical normalized text, lower the more the texts differ */
+  confidence: number;
+  match: 'exact' | 'pattern' | 'contained' | 'fuzzy';
+}
+
+export interface SourceLookupOptions {
+  /** Maximum number of matches (default 5) */
+  limit?: number;
+  /** Matches below this confidence are dropped (default 0.5) */
+  minConfidence?: number;
+}
+
+export interface SourceIndexBuild {
+  index: SourceIndex;
+  /** Files whose strings were indexed */
+  indexedFiles: string[];
+  /** Files that could not be read or parsed, left out of the index */
+  failedFiles: Array<{ file: string; error: string }>;
+}
+
+interface IndexRecord {
+  entry: IndexedString;
+  /** Normalized text; placeholders are PLACEHOLDER_MARK */
+  normalized: string;
+  /** Normalized text without placeholders */
+  literal: string;
+  /** Full-match pattern, for strings with placeholders */
+  pattern?: RegExp;
+}
+
+/** Interpolation placeholders of JSX templates, i18next, ICU, Rails, gettext and printf */
+const PLACEHOLDER = /\{\{[^{}]*\}\}|%\{[^{}]*\}|%\([^)]*\)[sd]|\$\{[^{}]*\}|\{[^{}]*\}|%\d+\$[sd]|%[sd@]/g;
+
+/** Stands in for a placeholder in normalized text */
+const PLACEHOLDER_MARK = '\uE000';
+
+/** Words in more strings than this are not used to find candidates */
+const COMMON_WORD_LIMIT = 500;
+
+/** Candidates compared in full per lookup, those sharing the most words first */
+const MAX_CANDIDATES = 300;
+
+const SOURCE_PATTERNS = [
+  '**/*.{js,jsx,ts,tsx,mjs,cjs,vue,svelte,astro}',
+  '**/{locales,locale,i18n,translations,lang,messages}/**/*.{json,js,ts,yaml,yml}',
+  '**/*.{po,xlf,xliff}',
+];
+
+const IGNORE = ['**/node_modules/**', '**/dist/**', '**/build/**', '**/.git/**', '**/.next/**', '**/coverage/**'];
+
+/**
+ * The interpolation placeholders in a string, e.g. ["{name}", "%{count}"]
+ */
+export function placeholdersOf(text: string): string[] {
+  return text.match(PLACEHOLDER) || [];
+}
+
+/**
+ * Normalizes copy for comparison: compatibility characters folded, typographic quotes,
+ * dashes and ellipses made plain, case and whitespace ignored, and punctuation at either
+ * end dropped
+ *
+ * Entities are left as written: the extractors decode them where the source is markup, and
+ * page text is already decoded.
+ */
+export function normalizeCopy(text: string): string {
+  return text
+    .normalize('NFKC')
+    .replace(/[‘’‚‛′]/g, "'")
+    .replace(/[“”„‟″«»]/g, '"')
+    .replace(/[‐‑‒–—―]/g, '-')
+    .replace(/…/g, '...')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(new RegExp(`^[^\\p{L}\\p{N}${PLACEHOLDER_MARK}]+|[^\\p{L}\\p{N}${PLACEHOLDER_MARK}]+$`, 'gu'), '');
+}
+
+export class SourceIndex {
+  private readonly records: IndexRecord[] = [];
+  /** Normalized text to records, for exact matches */
+  private readonly exact = new Map<string, number[]>();
+  /** Word to records containing it, for finding candidates */
+  private readonly words = new Map<string, number[]>();
+
+  constructor(strings: IndexedString[] = []) {
+    strings.forEach((entry) => this.add(entry));
+  }
+
+  /** Number of indexed strings */
+  get size(): number {
+    return this.records.length;
+  }
+
+  add(entry: IndexedString): void {
+    const normalized = normalizeCopy(entry.text.replace(PLACEHOLDER, PLACEHOLDER_MARK));
+    const literal = normalized.split(PLACEHOLDER_MARK).join(' ').replace(/\s+/g, ' ').trim();
+    if (!/\p{L}/u.test(literal)) {
+      return;
+    }
+
+    const id = this.records.length;
+    const hasPlaceholders = normalized.includes(PLACEHOLDER_MARK);
+    this.records.push({
+      entry,
+      normalized,
+      literal,
+      ...(hasPlaceholders && {
+        pattern: new RegExp(`^${normalized.split(PLACEHOLDER_MARK).map(escapeRegExp).join('(.+?)')}$`, 'u'),
+      }),
+    });
+
+    if (!hasPlaceholders) {
+      const ids = this.exact.get(normalized) || [];
+      ids.push(id);
+      this.exact.set(normalized, ids);
+    }
+    for (const word of new Set(wordsOf(literal))) {
+      const ids = this.words.get(word) || [];
+      ids.push(id);
+      this.words.set(word, ids);
+    }
+  }
+
+  /**
+   * Finds the source strings that could render a text
+   *
+   * Translation values of the same key count as one location, represented by the best
+   * match among its locales.
+   *
+   * @returns Matches, most confident first
+   */
+  lookup(text: string, options: SourceLookupOptions = {}): SourceMatch[] {
+    const limit = options.limit ?? 5;
+    const minConfidence = options.minConfidence ?? 0.5;
+    const query = normalizeCopy(text);
+    if (!/\p{L}/u.test(query)) {
+      return [];
+    }
+
+    const scores = new Map<number, SourceMatch>();
+    for (const id of this.exact.get(query) || []) {
+      scores.set(id, { entry: this.records[id].entry, confidence: 1, match: 'exact' });
+    }
+
+    for (const id of this.candidates(query)) {
+      if (scores.has(id)) {
+        continue;
+      }
+      const match = this.score(this.records[id], query);
+      if (match && match.confidence >= minConfidence) {
+        scores.set(id, match);
+      }
+    }
+
+    const bySite = new Map<string, SourceMatch>();
+    for (const match of scores.values()) {
+      const site = sourceSite(match.entry);
+      const current = bySite.get(site);
+      if (!current || match.confidence > current.confidence) {
+        bySite.set(site, match);
+      }
+    }
+
+    return [...bySite.values()]
+      .sort((a, b) => b.confidence - a.confidence || a.entry.file.localeCompare(b.entry.file) || a.entry.start - b.entry.start)
+      .slice(0, limit);
+  }
+
+  /**
+   * Records sharing words with the query, those sharing the most first
+   */
+  private candidates(query: string): number[] {
+    const words = [...new Set(wordsOf(query))];
+    const lists = words.map((word) => this.words.get(word) || []).filter((ids) => ids.length > 0);
+    // Common words only narrow the search when nothing rarer was found
+    const rare = lists.filter((ids) => ids.length <= COMMON_WORD_LIMIT);
+
+    const shared = new Map<number, number>();
+    for (const ids of rare.length > 0 ? rare : lists) {
+      for (const id of ids) {
+        shared.set(id, (shared.get(id) || 0) + 1);
+      }
+    }
+
+    return [...shared]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_CANDIDATES)
+      .map(([id]) => id);
+  }
+
+  private score(record: IndexRecord, query: string): SourceMatch | null {
+    const { entry, literal } = record;
+
+    if (record.pattern) {
+      // A string that is mostly placeholders matches too much to be evidence
+      const share = literal.length / query.length;
+      if (record.pattern.test(query) && literal.length >= 3 && share >= 0.3) {
+        return { entry, confidence: Math.min(0.95, 0.7 + 0.25 * share), match: 'pattern' };
+      }
+    }
+
+    // An element's text can join several strings (text around a link), or be part of one
+    const [shorter, longer] = literal.length < query.length ? [literal, query] : [query, literal];
+    const ratio = shorter.length / longer.length;
+    if (!record.pattern && shorter.length >= 8 && ratio >= 0.5 && longer.includes(shorter)) {
+      return { entry, confidence: 0.85 * ratio, match: 'contained' };
+    }
+
+    if (ratio >= 0.6) {
+      const similarity = dice(literal, query);
+      if (similarity >= 0.8) {
+        return { entry, confidence: 0.9 * similarity, match: 'fuzzy' };
+      }
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Indexes the copy of every component and translation file in a directory
+ *
+ * @param directory Root of the codebase
+ * @returns The index, with the files that were indexed and those that were skipped
+ */
+export async function buildSourceIndex(directory: string): Promise<SourceIndexBuild> {
+  const files = new Set<string>();
+  for (const pattern of SOURCE_PATTERNS) {
+    const matches = await glob(path.join(directory, pattern), {
+      nodir: true,
+      ignore: IGNORE.map((ignore) => path.join(directory, ignore)),
+    });
+    matches.forEach((file) => files.add(file));
+  }
+
+  const index = new SourceIndex();
+  const indexedFiles: string[] = [];
+  const failedFiles: Array<{ file: string; error: string }> = [];
+  for (const file of files) {
+    try {
+      const source = fs.readFileSync(file, 'utf-8');
+      if (isTranslationFile(file)) {
+        for (const entry of parseTranslationFile(file, source)) {
+          index.add({
+            text: entry.value,
+            file,
+            line: entry.line,
+            column: entry.column,
+            start: entry.start,
+            end: entry.end,
+            kind: 'translation',
+            key: entry.namespace ? `${entry.namespace}:${entry.key}` : entry.key,
+            ...(entry.locale && { locale: entry.locale }),
+          });
+        }
+      } else {
+        const strings =
+          extractJsxStrings(file, source) ??
+          extractMarkupStrings(file, source) ??
+          extractScriptStrings(file, source) ??
+          [];
+        strings.forEach((entry) => index.add(entry));
+      }
+      indexedFiles.push(file);
+    } catch (error) {
+      failedFiles.push({ file, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return { index, indexedFiles, failedFiles };
+}
+
+/**
+ * What makes two matches the same location: a translation key, or a place in a file
+ */
+function sourceSite(entry: IndexedString): string {
+  return entry.kind === 'translation' && entry.key ? `key:${entry.key}` : `${entry.file}:${entry.start}`;
+}
+
+function wordsOf(text: string): string[] {
+  return text.split(/[^\p{L}\p{N}]+/u).filter((word) => word.length >= 2);
+}
+
+/**
+ * Sørensen–Dice coefficient of the character bigrams of two strings
+ */
+function dice(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  if (a.length < 2 || b.length < 2) {
+    return 0;
+  }
+
+  const bigrams = new Map<string, number>();
+  for (let index = 0; index < a.length - 1; index++) {
+    const bigram = a.slice(index, index + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+
+  let shared = 0;
+  for (let index = 0; index < b.length - 1; index++) {
+    const bigram = b.slice(index, index + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      shared++;
+    }
+  }
+
+  return (2 * shared) / (a.length + b.length - 2);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,114 @@
+/**
+ * URL normalization for the crawlers
+ *
+ * Two URLs that serve the same page should count as one page: /pricing, /pricing/,
+ * /pricing?utm_source=x and /pricing#plans all normalize to the same string, so
+ * duplicates never use up page budget or model calls. Path case is kept unless
+ * ignorePathCase is set, since /Pricing and /pricing may be different pages.
+ */
+
+/**
+ * Query parameters that only track where a visitor came from. Entries ending in "*"
+ * match any parameter with that prefix.
+ */
+export const DEFAULT_TRACKING_PARAMS = [
+  'utm_*',
+  'gclid',
+  'gbraid',
+  'wbraid',
+  'dclid',
+  'fbclid',
+  'msclkid',
+  'yclid',
+  'twclid',
+  'li_fat_id',
+  'igshid',
+  'mc_cid',
+  'mc_eid',
+  '_ga',
+  '_gl',
+  '_hsenc',
+  '_hsmi',
+  'mkt_tok',
+  'ref_src',
+];
+
+export interface UrlNormalizerOptions {
+  /** Tracking parameters to strip; replaces DEFAULT_TRACKING_PARAMS */
+  trackingParams?: string[];
+  /** Lowercase the path too; only safe for sites with case-insensitive routing (default false) */
+  ignorePathCase?: boolean;
+}
+
+/**
+ * Normalizes a URL for deduplication
+ *
+ * Lowercases the scheme and host, drops default ports, fragments and tracking parameters,
+ * sorts the remaining query parameters and removes trailing slashes (except the root).
+ *
+ * @param url Absolute URL, or a URL relative to base
+ * @param options Normalization options
+ * @param base Base URL for relative URLs
+ * @returns The normalized URL, or null for unparseable and non-HTTP(S) URLs
+ */
+export function normalizeUrl(url: string, options: UrlNormalizerOptions = {}, base?: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url, base);
+  } catch {
+    return null;
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return null;
+  }
+
+  // The URL parser already lowercases the scheme and host and drops default ports
+  parsed.hash = '';
+  parsed.username = '';
+  parsed.password = '';
+
+  const isTracking = createTrackingMatcher(options.trackingParams || DEFAULT_TRACKING_PARAMS);
+  const params = [...parsed.searchParams.entries()]
+    .filter(([name]) => !isTracking(name))
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  parsed.search = new URLSearchParams(params).toString();
+
+  let pathname = parsed.pathname.replace(/\/{2,}/g, '/');
+  if (pathname.length > 1) {
+    pathname = pathname.replace(/\/+$/, '');
+  }
+  if (options.ignorePathCase) {
+    pathname = pathname.toLowerCase();
+  }
+  parsed.pathname = pathname;
+
+  return parsed.href;
+}
+
+/**
+ * Whether two URLs point at the same page after normalization
+ */
+export function isSameUrl(a: string, b: string, options: UrlNormalizerOptions = {}): boolean {
+  const normalized = normalizeUrl(a, options);
+  return normalized !== null && normalized === normalizeUrl(b, options);
+}
+
+function createTrackingMatcher(patterns: string[]): (name: string) => boolean {
+  const exact = new Set<string>();
+  const prefixes: string[] = [];
+
+  for (const pattern of patterns) {
+    const lower = pattern.toLowerCase();
+    if (lower.endsWith('*')) {
+      prefixes.push(lower.slice(0, -1));
+    } else {
+      exact.add(lower);
+    }
+  }
+
+  return (name) => {
+    const lower = name.toLowerCase();
+    return exact.has(lower) || prefixes.some((prefix) => lower.startsWith(prefix));
+  };
+}
@@ -2,8 +2,8 @@ import { chromium, Browser, Page } from "playwright";
 import { Agent } from "@mastra/core/agent";
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
-import { anthropic } from "@ai-sdk/anthropic";
-import { config } from "../config";
+import { getModel } from "../providers";
+import { normalizeUrl } from "./url-normalizer";
 
 export interface WebsiteContent {
   url: string;
@@ -74,7 +74,7 @@ export async function scanWebsite(url: string): Promise<WebsiteScanResult> {
         Aim to be thorough without getting distracted by non-essential content.
         Crawl multiple pages but prioritize important ones (homepage, product pages, etc.).
       `,
-      model: anthropic(config.analysis.modelName),
+      model: getModel(),
       tools,
     });
 
@@ -376,11 +376,14 @@ async function scanPage(
   contentItems: WebsiteContent[],
   maxPages: number = 5
 ): Promise<void> {
+  // Compare normalized URLs so variants of a visited page are skipped
+  const pageUrl = normalizeUrl(url);
+
   // Skip if we've already visited this page or reached the max
-  if (visitedPages.includes(url) || visitedPages.length >= maxPages) return;
+  if (!pageUrl || visitedPages.includes(pageUrl) || visitedPages.length >= maxPages) return;
 
-  console.log(`Scanning page: ${url}`);
-  visitedPages.push(url);
+  console.log(`Scanning page: ${pageUrl}`);
+  visitedPages.push(pageUrl);
 
   try {
     // Let the agent navigate and extract content
@@ -388,7 +391,7 @@ async function scanPage(
       {
         role: "user",
         content: `
-          Scan the website at ${url} for conversion-relevant content.
+          Scan the website at ${pageUrl} for conversion-relevant content.
           First, navigate to the URL, then extract all content from the page.
           After extraction, get all links on the page to continue scanning.
           
@@ -417,7 +420,7 @@ async function scanPage(
         if (callResult && Array.isArray(callResult)) {
           callResult.forEach((item) => {
             contentItems.push({
-              url,
+              url: pageUrl,
               ...item,
             });
           });
@@ -436,7 +439,7 @@ async function scanPage(
         if (Array.isArray(links)) {
           // Filter to unvisited links and limit
           const unvisitedLinks = links
-            .filter((link) => !visitedPages.includes(link))
+            .filter((link) => !visitedPages.includes(normalizeUrl(link) ?? link))
             .slice(0, maxPages - visitedPages.length);
 
           // Recursively scan linked pages
@@ -458,6 +461,6 @@ async function scanPage(
       console.error("Error processing agent response:", error);
     }
   } catch (error) {
-    console.error(`Error scanning page ${url}:`, error);
+    console.error(`Error scanning page ${pageUrl}:`, error);
   }
 }
@@ -1,10 +1,9 @@
-import { openai } from "@ai-sdk/openai";
 import { generateText } from "ai";
 import { chromium } from "playwright";
 import { Agent } from "@mastra/core/agent";
 import { createTool } from "@mastra/core/tools";
 import { z } from "zod";
-import { config } from "../config";
+import { getModel } from "../providers";
 
 export interface ContentVariant {
   content: string;
@@ -16,6 +15,7 @@ export interface SimulationOptions {
   visitorCount: number;
   personaCount: number;
   duration: string;
+  url?: string; // Page the simulated visitors start on
 }
 
 export interface SimulationResults {
@@ -189,7 +189,7 @@ export async function simulateTraffic(
         
         Record your actions and impressions of the content variants.
       `,
-      model: openai(config.analysis.modelName || "gpt-4-turbo"),
+      model: getModel(),
       tools: {
         browser_navigate: navigateTool,
         click_element: clickTool,
@@ -219,6 +219,7 @@ export async function simulateTraffic(
             Your interests: ${persona.interests.join(", ")}
             Your behavior: ${persona.behavior}
             
+            ${options.url ? `Start by navigating to ${options.url}.` : ""}
             Simulate a user session where you explore the website and interact with these content variants.
             Use the available tools to navigate, click, type, and read content.
             
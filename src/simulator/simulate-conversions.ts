@@ -1,40 +1,20 @@
 import fs from "fs";
 import path from "path";
+import { fileURLToPath } from "url";
 import { Agent } from "@mastra/core/agent";
-import { openai } from "@ai-sdk/openai";
-import { anthropic } from "@ai-sdk/anthropic";
 import dotenv from "dotenv";
+import { z } from "zod";
+import { getModel } from "../providers";
+import {
+  generateStructuredWithAgent,
+  StructuredOutputError,
+} from "../utils/structured-output";
 
 // Load environment variables
 dotenv.config();
 
-// Helper to get AI configuration
-function getAIConfiguration() {
-  const configPath = path.join(
-    process.env.HOME || process.env.USERPROFILE || ".",
-    ".steelpush",
-    "config.json"
-  );
-  
-  let aiProvider = "anthropic";
-  let aiModel = "claude-3-7-sonnet-20250219";
-  
-  // Check if config exists and read it
-  if (fs.existsSync(configPath)) {
-    try {
-      const config = JSON.parse(fs.readFileSync(configPath, "utf-8"));
-      aiProvider = config.ai.provider || aiProvider;
-      aiModel = config.ai.model || aiModel;
-    } catch (configError) {
-      console.warn("Error reading config, using default AI provider:", configError);
-    }
-  }
-  
-  return { provider: aiProvider, model: aiModel };
-}
-
 // Define types
-interface ContentItem {
+export interface ContentItem {
   url: string;
   type: string;
   content: string;
@@ -47,7 +27,7 @@ interface ContentItem {
   simulationResults?: SimulationResult[];
 }
 
-interface SimulationResult {
+export interface SimulationResult {
   variant: string;
   clickRate: number;
   conversionRate: number;
@@ -62,6 +42,12 @@ interface UserPersona {
   decisionFactors: string[];
 }
 
+const ImprovementSchema = z.object({
+  improvementPercent: z
+    .number()
+    .describe("Estimated overall conversion improvement in percent"),
+});
+
 // Define a set of user personas to test against
 const userPersonas: UserPersona[] = [
   {
@@ -112,35 +98,18 @@ const userPersonas: UserPersona[] = [
 ];
 
 /**
- * Simulates user conversion rates with different content variants
+ * Estimates conversion rates of each item's variants against the user personas
+ *
+ * @param items Content items with variants to simulate
+ * @returns The items with simulationResults added (baseline first)
  */
-async function simulateConversions(analysisPath: string): Promise<void> {
-  console.log("Starting conversion simulation...");
+export async function simulateContentItems(
+  items: ContentItem[]
+): Promise<ContentItem[]> {
+  const contentItems = [...items];
 
-  // Read the analysis with variants
-  if (!fs.existsSync(analysisPath)) {
-    throw new Error(`Analysis file not found: ${analysisPath}`);
-  }
-
-  const analysis = JSON.parse(fs.readFileSync(analysisPath, "utf-8"));
-  const contentItems = analysis.data.content as ContentItem[];
-
-  // Get AI configuration
-  const aiConfig = getAIConfiguration();
-  
-  // Check if we have the appropriate API key
-  const requiredKey = aiConfig.provider === "anthropic" ? 
-    process.env.ANTHROPIC_API_KEY : 
-    process.env.OPENAI_API_KEY;
-    
-  if (!requiredKey) {
-    throw new Error(`${aiConfig.provider === "anthropic" ? "ANTHROPIC_API_KEY" : "OPENAI_API_KEY"} is required for simulation`);
-  }
-
-  // Set up the agent for simulation
-  const model = aiConfig.provider === "anthropic" 
-    ? anthropic(aiConfig.model)
-    : openai(aiConfig.model);
+  // Resolve the configured model (throws if the provider's API key is missing)
+  const model = getModel();
   
   const simulationAgent = new Agent({
     name: "conversion-simulator",
@@ -175,6 +144,7 @@ async function simulateConversions(analysisPath: string): Promise<void> {
     // Simulate each variant with each persona
     for (const variant of item.variants) {
       let totalScoreImprovement = 0;
+      let estimateCount = 0;
 
       // Test variant against each persona
       for (const persona of userPersonas) {
@@ -201,36 +171,38 @@ async function simulateConversions(analysisPath: string): Promise<void> {
           1. How much more likely would this persona be to click/engage with the variant vs original? (percentage)
           2. How much more likely would this persona be to convert after seeing this content? (percentage)
           
-          Format your response as a single percentage number indicating overall conversion improvement.
-          For example: 35%
+          Respond with a JSON object whose "improvementPercent" is the overall conversion
+          improvement as a number (for example 35 for 35%, negative if the variant performs worse).
         `;
 
-        // Get the simulation result
-        const result = await simulationAgent.generate([
-          { role: "user", content: prompt },
-        ]);
-
-        // Extract the percentage from the response
-        const responseText = result.text || "";
-        const percentMatch = responseText.match(/(\d+(?:\.\d+)?)%/);
-        let improvementPercent = 0;
-
-        if (percentMatch && percentMatch[1]) {
-          improvementPercent = parseFloat(percentMatch[1]);
-        } else {
-          // Fallback - extract any number
-          const numberMatch = responseText.match(/(\d+(?:\.\d+)?)/);
-          if (numberMatch && numberMatch[1]) {
-            improvementPercent = parseFloat(numberMatch[1]);
+        // Get the schema-validated simulation result
+        try {
+          const result = await generateStructuredWithAgent(
+            simulationAgent,
+            prompt,
+            ImprovementSchema,
+            { label: `improvement estimate for ${persona.name}` }
+          );
+
+          // Add to total score improvement
+          totalScoreImprovement += result.improvementPercent;
+          estimateCount++;
+        } catch (error) {
+          if (!(error instanceof StructuredOutputError)) {
+            throw error;
           }
+          // Leave this persona out of the average rather than counting it as 0%
+          console.warn(`  Skipping ${persona.name}: ${error.message}`);
         }
+      }
 
-        // Add to total score improvement
-        totalScoreImprovement += improvementPercent;
+      if (estimateCount === 0) {
+        console.error(`- Variant: "${variant}" could not be simulated for any persona`);
+        continue;
       }
 
       // Calculate average improvement across personas
-      const avgImprovement = totalScoreImprovement / userPersonas.length;
+      const avgImprovement = totalScoreImprovement / estimateCount;
 
       // Calculate estimated metrics based on improvement
       // Original metrics based on baseline
@@ -260,6 +232,11 @@ async function simulateConversions(analysisPath: string): Promise<void> {
       simulationResults,
     };
 
+    if (simulationResults.length < 2) {
+      console.error("No variant could be simulated for this item");
+      continue;
+    }
+
     // Find best variant
     const bestVariant = simulationResults
       .slice(1) // Skip baseline
@@ -275,6 +252,34 @@ async function simulateConversions(analysisPath: string): Promise<void> {
     console.log(`Estimated improvement: ${bestVariant.improvement}`);
   }
 
+  return contentItems;
+}
+
+/**
+ * Simulates user conversion rates with different content variants
+ *
+ * @param analysisPath Analysis file whose data.content items have variants
+ * @param outputPath Where to write the analysis with simulation results
+ */
+async function simulateConversions(
+  analysisPath: string,
+  outputPath: string = path.join(
+    process.cwd(),
+    "website-conversion-simulation.json"
+  )
+): Promise<void> {
+  console.log("Starting conversion simulation...");
+
+  // Read the analysis with variants
+  if (!fs.existsSync(analysisPath)) {
+    throw new Error(`Analysis file not found: ${analysisPath}`);
+  }
+
+  const analysis = JSON.parse(fs.readFileSync(analysisPath, "utf-8"));
+  const contentItems = await simulateContentItems(
+    analysis.data.content as ContentItem[]
+  );
+
   // Update the analysis with the simulation results
   analysis.data.content = contentItems;
 
@@ -310,10 +315,6 @@ async function simulateConversions(analysisPath: string): Promise<void> {
   };
 
   // Save the updated analysis
-  const outputPath = path.join(
-    process.cwd(),
-    "website-conversion-simulation.json"
-  );
   fs.writeFileSync(outputPath, JSON.stringify(analysis, null, 2));
 
   console.log(`\nSimulation completed successfully!`);
@@ -323,8 +324,8 @@ async function simulateConversions(analysisPath: string): Promise<void> {
   );
 }
 
-// Run the simulation if called directly
-if (require.main === module) {
+// Run the simulation if called directly rather than imported by the CLI
+if (process.argv[1] && path.resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
   const analysisPath =
     process.argv[2] || path.join(process.cwd(), "website-variants.json");
 
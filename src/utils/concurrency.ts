@@ -0,0 +1,42 @@
+/**
+ * Concurrency helpers
+ */
+
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Creates a limiter that runs at most `concurrency` tasks at a time
+ *
+ * Tasks start in the order they were submitted.
+ *
+ * @param concurrency Maximum number of tasks running at once (at least 1)
+ * @returns A function that queues a task and resolves with its result
+ */
+export function createLimiter(concurrency: number): Limiter {
+  const limit = Math.max(1, Math.floor(concurrency) || 1);
+  const waiting: Array<() => void> = [];
+  let running = 0;
+
+  const release = () => {
+    running--;
+    const next = waiting.shift();
+    if (next) {
+      running++;
+      next();
+    }
+  };
+
+  return <T>(task: () => Promise<T>): Promise<T> =>
+    new Promise<T>((resolve, reject) => {
+      const run = () => {
+        task().then(resolve, reject).finally(release);
+      };
+
+      if (running < limit) {
+        running++;
+        run();
+      } else {
+        waiting.push(run);
+      }
+    });
+}
@@ -0,0 +1,209 @@
+/**
+ * Schema-validated structured output for model calls
+ *
+ * Wraps generateObject (and Mastra agents with tools) so every stage gets a zod-validated
+ * object back. Invalid output is repaired locally when possible, otherwise the model is asked
+ * to fix it; if that still fails a StructuredOutputError is thrown instead of guessing.
+ */
+
+import { generateObject, NoObjectGeneratedError } from 'ai';
+import type { CoreMessage, LanguageModel } from 'ai';
+import type { Agent } from '@mastra/core/agent';
+import { z } from 'zod';
+import { getModel } from '../providers';
+
+export interface StructuredOutputOptions<T extends z.ZodTypeAny> {
+  schema: T;
+  prompt: string;
+  system?: string;
+  model?: LanguageModel;
+  temperature?: number;
+  /** Name of the output, used in error messages and as schema name for the model */
+  label?: string;
+  /** How many times the model is asked to correct invalid output (default 2) */
+  maxRepairAttempts?: number;
+}
+
+export interface AgentStructuredOutputOptions {
+  label?: string;
+  maxRepairAttempts?: number;
+  maxSteps?: number;
+}
+
+/**
+ * Thrown when the model output could not be turned into a valid object
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    public readonly label: string,
+    public readonly attempts: number,
+    public readonly rawText: string | undefined,
+    public readonly reason: string
+  ) {
+    super(`Could not get valid ${label} from the model after ${attempts} attempt(s): ${reason}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+/**
+ * Extracts the JSON payload from text that may be wrapped in a code block or prose
+ */
+export function extractJsonText(text: string): string | null {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+  const candidate = fenced ? fenced[1] : text;
+
+  const start = candidate.search(/[[{]/);
+  if (start === -1) {
+    return null;
+  }
+
+  const closing = candidate[start] === '{' ? '}' : ']';
+  const end = candidate.lastIndexOf(closing);
+  if (end <= start) {
+    return null;
+  }
+
+  return candidate.substring(start, end + 1).trim();
+}
+
+/**
+ * Tries to validate text against the schema without another model call
+ */
+function repairLocally<T extends z.ZodTypeAny>(
+  schema: T,
+  text: string | undefined
+): { success: true; data: z.infer<T> } | { success: false; reason: string } {
+  const jsonText = text ? extractJsonText(text) : null;
+  if (!jsonText) {
+    return { success: false, reason: 'no JSON found in the response' };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonText);
+  } catch (error: any) {
+    return { success: false, reason: `invalid JSON: ${error.message}` };
+  }
+
+  const result = schema.safeParse(parsed);
+  if (!result.success) {
+    return { success: false, reason: formatZodError(result.error) };
+  }
+
+  return { success: true, data: result.data };
+}
+
+/**
+ * Formats a zod error as a compact list of path/message pairs
+ */
+function formatZodError(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 10)
+    .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+/**
+ * Builds the follow-up messages asking the model to correct its previous output
+ */
+function buildRepairMessages(rawText: string | undefined, reason: string): CoreMessage[] {
+  return [
+    { role: 'assistant', content: rawText || '(empty response)' },
+    {
+      role: 'user',
+      content: `Your previous response could not be used (${reason}). Respond again with only valid JSON that matches the requested schema exactly.`,
+    },
+  ];
+}
+
+/**
+ * Runs an attempt function, repairing or re-asking until the output matches the schema
+ */
+async function withRepair<T extends z.ZodTypeAny>(
+  schema: T,
+  label: string,
+  maxRepairAttempts: number,
+  attempt: (repairMessages: CoreMessage[]) => Promise<z.infer<T>>
+): Promise<z.infer<T>> {
+  let repairMessages: CoreMessage[] = [];
+  let rawText: string | undefined;
+  let reason = 'unknown error';
+
+  for (let attemptNumber = 1; attemptNumber <= maxRepairAttempts + 1; attemptNumber++) {
+    try {
+      return await attempt(repairMessages);
+    } catch (error) {
+      if (!NoObjectGeneratedError.isInstance(error)) {
+        throw error;
+      }
+
+      rawText = error.text;
+      const repaired = repairLocally(schema, rawText);
+      if (repaired.success) {
+        return repaired.data;
+      }
+
+      reason = repaired.reason;
+      console.warn(`Invalid ${label} from model (attempt ${attemptNumber}): ${reason}`);
+      repairMessages = buildRepairMessages(rawText, reason);
+    }
+  }
+
+  throw new StructuredOutputError(label, maxRepairAttempts + 1, rawText, reason);
+}
+
+/**
+ * Generates an object matching the schema with the configured model
+ *
+ * @param options Prompt, schema and generation settings
+ * @returns The validated object
+ * @throws StructuredOutputError if no valid object could be produced
+ */
+export async function generateStructured<T extends z.ZodTypeAny>(
+  options: StructuredOutputOptions<T>
+): Promise<z.infer<T>> {
+  const label = options.label || 'structured output';
+  const model = options.model || getModel();
+
+  return withRepair(options.schema, label, options.maxRepairAttempts ?? 2, async (repairMessages) => {
+    const result = await generateObject({
+      model,
+      schema: options.schema,
+      schemaName: label.replace(/\W+/g, '_'),
+      system: options.system,
+      messages: [{ role: 'user', content: options.prompt }, ...repairMessages],
+      temperature: options.temperature,
+      experimental_repairText: async ({ text }) => extractJsonText(text),
+    });
+
+    return result.object;
+  });
+}
+
+/**
+ * Runs a Mastra agent (which may use tools) and validates its final answer against the schema
+ *
+ * @param agent The agent to run
+ * @param prompt The user prompt
+ * @param schema Schema the final answer must match
+ * @param options Label and retry settings
+ * @returns The validated object
+ * @throws StructuredOutputError if no valid object could be produced
+ */
+export async function generateStructuredWithAgent<T extends z.ZodTypeAny>(
+  agent: Agent,
+  prompt: string,
+  schema: T,
+  options: AgentStructuredOutputOptions = {}
+): Promise<z.infer<T>> {
+  const label = options.label || 'structured output';
+
+  return withRepair(schema, label, options.maxRepairAttempts ?? 2, async (repairMessages) => {
+    const result = await agent.generate([{ role: 'user', content: prompt }, ...repairMessages], {
+      experimental_output: schema,
+      maxSteps: options.maxSteps,
+    });
+
+    return result.object as z.infer<T>;
+  });
+}